@@ -0,0 +1,143 @@
+// Service worker for the local-first app
+//
+// The app shell listed in precache-manifest.json is cached on install, so the app starts
+// without a network. A new build installs alongside the running one and only takes over
+// when the page asks it to, which the app does after the user agrees to reload.
+//
+// Requests under <scope>pyodide-cdn/ are answered from the cache, falling back to the
+// Pyodide CDN on a miss. This is what the "cached" Python runtime source relies on.
+// The bundled runtime under <scope>pyodide/ is cached the first time it is loaded.
+const params = new URL(self.location.href).searchParams;
+const BUILD_ID = params.get('build') ?? 'dev';
+const PYODIDE_VERSION = params.get('pyodide') ?? 'unknown';
+
+const SHELL_CACHE = `app-shell-${BUILD_ID}`;
+const PYODIDE_CACHE = 'pyodide-runtime-v1';
+const BUNDLED_PYODIDE_CACHE = `pyodide-bundled-${PYODIDE_VERSION}`;
+const PYODIDE_CDN = 'https://cdn.jsdelivr.net/pyodide/';
+
+const scopePath = new URL(self.registration.scope).pathname;
+const pyodideProxyPath = `${scopePath}pyodide-cdn/`;
+const bundledPyodidePath = `${scopePath}pyodide/`;
+const assetsPath = `${scopePath}assets/`;
+const shellUrl = `${scopePath}index.html`;
+
+// How each page's navigation was answered, so the app can tell it started offline
+const launchSources = new Map();
+
+async function precacheShell() {
+  // The dev server has no manifest; nothing is precached there
+  const response = await fetch(`${scopePath}precache-manifest.json`, { cache: 'no-store' });
+  if (!response.ok || !(response.headers.get('content-type') ?? '').includes('json')) return;
+
+  const { files } = await response.json();
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(files.map((file) => scopePath + file));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    await precacheShell();
+    // The first install takes over straight away; updates wait for the app to say so
+    if (!self.registration.active) {
+      await self.skipWaiting();
+    }
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const stale = (await caches.keys()).filter((name) =>
+      (name.startsWith('app-shell-') && name !== SHELL_CACHE) ||
+      (name.startsWith('pyodide-bundled-') && name !== BUNDLED_PYODIDE_CACHE)
+    );
+    await Promise.all(stale.map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+async function cachedPyodideAsset(request, url) {
+  const cache = await caches.open(PYODIDE_CACHE);
+  const cached = await cache.match(url.pathname);
+  if (cached) return cached;
+
+  const upstream = PYODIDE_CDN + url.pathname.slice(pyodideProxyPath.length);
+  const response = await fetch(upstream, { mode: 'cors', credentials: 'omit' });
+  if (response.ok) {
+    await cache.put(url.pathname, response.clone());
+  }
+  return response;
+}
+
+// Cache-first; files that were not precached are stored the first time they are fetched
+async function cacheFirst(cacheName, request) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request, { ignoreSearch: true });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Network-first, for files the app re-reads to check what is deployed
+async function networkFirst(cacheName, request) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function appShell(event) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(shellUrl);
+  launchSources.set(event.resultingClientId, cached ? 'cache' : 'network');
+  return cached ?? fetch(event.request);
+}
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (event.request.mode === 'navigate' && url.pathname.startsWith(scopePath)) {
+    event.respondWith(appShell(event));
+  } else if (url.pathname.startsWith(pyodideProxyPath)) {
+    event.respondWith(cachedPyodideAsset(event.request, url));
+  } else if (url.pathname.startsWith(bundledPyodidePath)) {
+    event.respondWith(url.pathname.endsWith('pyodide-lock.json')
+      ? networkFirst(BUNDLED_PYODIDE_CACHE, event.request)
+      : cacheFirst(BUNDLED_PYODIDE_CACHE, event.request));
+  } else if (url.pathname.startsWith(assetsPath)) {
+    event.respondWith(cacheFirst(SHELL_CACHE, event.request));
+  }
+});
+
+self.addEventListener('message', (event) => {
+  switch (event.data?.type) {
+    case 'CLEAR_PYODIDE_CACHE':
+      event.waitUntil(
+        Promise.all([caches.delete(PYODIDE_CACHE), caches.delete(BUNDLED_PYODIDE_CACHE)])
+          .then(() => event.source?.postMessage({ type: 'PYODIDE_CACHE_CLEARED' }))
+      );
+      break;
+    case 'SKIP_WAITING':
+      event.waitUntil(self.skipWaiting());
+      break;
+    case 'GET_LAUNCH_SOURCE': {
+      const clientId = event.source?.id;
+      event.ports[0]?.postMessage({ source: launchSources.get(clientId) ?? 'unknown' });
+      launchSources.delete(clientId);
+      break;
+    }
+  }
+});
@@ -0,0 +1,111 @@
+// Append-only batch storage on the filesystem
+//
+// Each access token gets a directory named after a hash of the token, holding one file per
+// batch named by its cursor: 000000000001, 000000000002, ... Batches are encrypted by the
+// devices, so the relay stores and returns them exactly as received.
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const CURSOR_DIGITS = 12;
+const CURSOR_PATTERN = /^\d{1,12}$/;
+
+export interface StoredBatch {
+  cursor: string;
+  data: string;
+}
+
+export interface BatchPage {
+  batches: StoredBatch[];
+  // The cursor of the last batch returned, or the one asked for when there are none
+  cursor: string | null;
+  more: boolean;
+}
+
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+const formatCursor = (position: number) => position.toString().padStart(CURSOR_DIGITS, '0');
+
+export function namespaceFor(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 32);
+}
+
+class Namespace {
+  private last: Promise<number> | null = null;
+  // Appends run one at a time so cursors are never reused
+  private appending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly dir: string) {}
+
+  append(data: string): Promise<string> {
+    const appended = this.appending.then(async () => {
+      const position = (await this.lastPosition()) + 1;
+      const file = join(this.dir, formatCursor(position));
+      // Written under a temporary name first, so readers never see half a batch
+      await writeFile(`${file}.tmp`, data, 'utf8');
+      await rename(`${file}.tmp`, file);
+      this.last = Promise.resolve(position);
+      return formatCursor(position);
+    });
+    this.appending = appended.catch(() => {});
+    return appended;
+  }
+
+  async read(after: string | null, limit: number): Promise<BatchPage> {
+    if (after !== null && !CURSOR_PATTERN.test(after)) throw new InvalidCursorError(after);
+
+    const start = after === null ? 1 : Number(after) + 1;
+    const last = await this.lastPosition();
+    const end = Math.min(last, start + limit - 1);
+
+    const batches: StoredBatch[] = [];
+    for (let position = start; position <= end; position++) {
+      const cursor = formatCursor(position);
+      batches.push({ cursor, data: await readFile(join(this.dir, cursor), 'utf8') });
+    }
+    return {
+      batches,
+      cursor: batches.length > 0 ? batches[batches.length - 1].cursor : after,
+      more: end < last,
+    };
+  }
+
+  private lastPosition(): Promise<number> {
+    this.last ??= (async () => {
+      await mkdir(this.dir, { recursive: true });
+      const positions = (await readdir(this.dir))
+        .filter(name => CURSOR_PATTERN.test(name))
+        .map(Number);
+      return positions.length > 0 ? Math.max(...positions) : 0;
+    })();
+    return this.last;
+  }
+}
+
+export class BatchStore {
+  private namespaces = new Map<string, Namespace>();
+
+  constructor(private readonly dataDir: string) {}
+
+  append(namespace: string, data: string): Promise<string> {
+    return this.namespace(namespace).append(data);
+  }
+
+  read(namespace: string, after: string | null, limit: number): Promise<BatchPage> {
+    return this.namespace(namespace).read(after, limit);
+  }
+
+  private namespace(name: string): Namespace {
+    let namespace = this.namespaces.get(name);
+    if (!namespace) {
+      namespace = new Namespace(join(this.dataDir, name));
+      this.namespaces.set(name, namespace);
+    }
+    return namespace;
+  }
+}
@@ -0,0 +1,51 @@
+// Relay settings, read from environment variables
+
+export interface RelayConfig {
+  host: string;
+  port: number;
+  dataDir: string;
+  // Devices that present the same token share one log; different tokens never see each other's batches
+  tokens: string[];
+  // Origins allowed to call the relay from a browser; '*' allows any
+  allowedOrigins: string[];
+  maxBatchBytes: number;
+  pageSize: number;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+const list = (value: string | undefined) =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+function positiveInteger(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new ConfigError(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+export function loadConfig(): RelayConfig {
+  const tokens = list(process.env.RELAY_TOKENS);
+  if (tokens.length === 0) {
+    throw new ConfigError('Set RELAY_TOKENS to one or more comma-separated access tokens');
+  }
+
+  const allowedOrigins = list(process.env.RELAY_ALLOWED_ORIGINS);
+  return {
+    host: process.env.RELAY_HOST || '0.0.0.0',
+    port: positiveInteger('RELAY_PORT', 8787),
+    dataDir: process.env.RELAY_DATA_DIR || './data',
+    tokens,
+    allowedOrigins: allowedOrigins.length > 0 ? allowedOrigins : ['*'],
+    maxBatchBytes: positiveInteger('RELAY_MAX_BATCH_BYTES', 5 * 1024 * 1024),
+    pageSize: positiveInteger('RELAY_PAGE_SIZE', 100),
+  };
+}
@@ -0,0 +1,171 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { WebSocket } from 'ws';
+import type { BatchPage } from './batch-store.js';
+import type { RelayConfig } from './config.js';
+import { createRelay } from './relay.js';
+
+let dataDir: string;
+let relay: ReturnType<typeof createRelay>;
+let base: string;
+
+before(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), 'relay-test-'));
+  const config: RelayConfig = {
+    host: '127.0.0.1',
+    port: 0,
+    dataDir,
+    tokens: ['alpha', 'beta'],
+    allowedOrigins: ['*'],
+    maxBatchBytes: 1024,
+    pageSize: 2,
+  };
+  relay = createRelay(config);
+  await new Promise<void>(resolve => relay.server.listen(0, '127.0.0.1', resolve));
+  base = `127.0.0.1:${(relay.server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  relay.sockets.clients.forEach(socket => socket.terminate());
+  await new Promise(resolve => relay.server.close(resolve));
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+const request = (path: string, token?: string, body?: unknown) =>
+  fetch(`http://${base}${path}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const pull = async (path: string, token: string) => (await request(path, token)).json() as Promise<BatchPage>;
+
+// A WebSocket client that queues what it receives, so a test can await the next message
+async function connect() {
+  const socket = new WebSocket(`ws://${base}`);
+  const received: Array<Record<string, unknown>> = [];
+  const waiting: Array<(message: Record<string, unknown>) => void> = [];
+  socket.on('message', data => {
+    const message = JSON.parse(data.toString());
+    const next = waiting.shift();
+    if (next) next(message);
+    else received.push(message);
+  });
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+
+  return {
+    socket,
+    send: (message: unknown) => socket.send(typeof message === 'string' ? message : JSON.stringify(message)),
+    next: () => new Promise<Record<string, unknown>>(resolve => {
+      const queued = received.shift();
+      if (queued) resolve(queued);
+      else waiting.push(resolve);
+    }),
+    closed: () => new Promise<number>(resolve => socket.once('close', resolve)),
+  };
+}
+
+describe('HTTP', () => {
+  it('answers health checks without a token', async () => {
+    const response = await request('/health');
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { ok: true });
+  });
+
+  it('rejects missing and unknown tokens', async () => {
+    assert.equal((await request('/batches')).status, 401);
+    assert.equal((await request('/batches', 'gamma')).status, 401);
+    assert.equal((await request('/batches', 'gamma', { data: 'x' })).status, 401);
+  });
+
+  it('pulls pushed batches in pages, kept apart per token', async () => {
+    for (const data of ['one', 'two', 'three']) {
+      const response = await request('/batches', 'alpha', { data });
+      assert.equal(response.status, 201);
+    }
+
+    const first = await pull('/batches', 'alpha');
+    assert.deepEqual(first.batches.map(b => b.data), ['one', 'two']);
+    assert.equal(first.more, true);
+
+    const second = await pull(`/batches?after=${first.cursor}`, 'alpha');
+    assert.deepEqual(second.batches.map(b => b.data), ['three']);
+    assert.equal(second.more, false);
+
+    const other = await pull('/batches', 'beta');
+    assert.deepEqual(other, { batches: [], cursor: null, more: false });
+  });
+
+  it('rejects bad batches and cursors', async () => {
+    assert.equal((await request('/batches', 'alpha', { data: '' })).status, 400);
+    assert.equal((await request('/batches', 'alpha', 5)).status, 400);
+    assert.equal((await request('/batches', 'alpha', { data: 'x'.repeat(1500) })).status, 413);
+    assert.equal((await request('/batches?after=nope', 'alpha')).status, 400);
+  });
+});
+
+describe('WebSocket', () => {
+  it('closes the connection on an invalid token', async () => {
+    const client = await connect();
+    const closed = client.closed();
+    client.send({ type: 'hello', token: 'gamma' });
+    assert.deepEqual(await client.next(), { type: 'error', message: 'Invalid access token', status: 401 });
+    assert.equal(await closed, 4401);
+  });
+
+  it('refuses to push before hello', async () => {
+    const client = await connect();
+    client.send({ id: '1', type: 'push', data: 'early' });
+    assert.deepEqual(await client.next(), { id: '1', type: 'error', message: 'Say hello with an access token first', status: 401 });
+    client.socket.close();
+  });
+
+  it('acknowledges pushes, tells other devices and serves pulls', async () => {
+    const pusher = await connect();
+    const watcher = await connect();
+    pusher.send({ type: 'hello', token: 'beta' });
+    watcher.send({ type: 'hello', token: 'beta' });
+    // Hello has no reply; a pull afterwards shows it was handled
+    watcher.send({ id: 'w', type: 'pull', after: null });
+    assert.deepEqual(await watcher.next(), { id: 'w', type: 'batches', batches: [], cursor: null, more: false });
+
+    pusher.send({ id: 'p', type: 'push', data: 'sealed' });
+    const ack = await pusher.next();
+    assert.equal(ack.type, 'ack');
+    assert.equal(ack.id, 'p');
+    assert.deepEqual(await watcher.next(), { type: 'changed' });
+
+    watcher.send({ id: 'w2', type: 'pull', after: null });
+    const page = await watcher.next();
+    assert.deepEqual(page.batches, [{ cursor: ack.cursor, data: 'sealed' }]);
+
+    pusher.socket.close();
+    watcher.socket.close();
+  });
+
+  it('answers malformed messages with an error and keeps serving', async () => {
+    const client = await connect();
+    client.send('not json');
+    assert.deepEqual(await client.next(), { type: 'error', message: 'Expected JSON', status: 400 });
+    for (const message of ['5', 'null', '"hello"', '[]']) {
+      client.send(message);
+      assert.deepEqual(await client.next(), { type: 'error', message: 'Expected a JSON object', status: 400 });
+    }
+
+    client.send({ type: 'hello', token: 'alpha' });
+    client.send({ id: 7, type: 'nonsense' });
+    assert.deepEqual(await client.next(), { type: 'error', message: 'Unknown message type', status: 400 });
+    client.send({ id: 'x', type: 'push' });
+    assert.deepEqual(await client.next(), { id: 'x', type: 'error', message: 'Expected a batch in "data"', status: 400 });
+
+    assert.equal((await request('/health')).status, 200);
+    client.socket.close();
+  });
+});
@@ -0,0 +1,220 @@
+// Sync relay for the local-first app
+//
+// Devices push encrypted batches of their operation log and pull everyone else's by
+// cursor, over HTTP or a WebSocket on the same port. WebSocket clients are also told when
+// another device has pushed, so they can pull straight away.
+//
+//   GET  /health                 no auth
+//   GET  /batches?after=<cursor> Authorization: Bearer <token>
+//   POST /batches {data}         Authorization: Bearer <token>
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { WebSocketServer, type RawData, type WebSocket } from 'ws';
+import { BatchStore, InvalidCursorError, namespaceFor } from './batch-store.js';
+import type { RelayConfig } from './config.js';
+
+// A WebSocket that has not said hello with a valid token by then is closed
+const HELLO_TIMEOUT_MS = 10_000;
+// Close code for a rejected token, in the range reserved for applications
+const CLOSE_UNAUTHORIZED = 4401;
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+type ClientMessage =
+  | { type: 'hello'; token: string }
+  | { id: string; type: 'pull'; after: string | null }
+  | { id: string; type: 'push'; data: string };
+
+// Builds the HTTP server and the WebSocket server attached to it; the caller listens
+export function createRelay(config: RelayConfig) {
+  const store = new BatchStore(config.dataDir);
+  // Connected WebSockets per namespace, to announce new batches to
+  const listeners = new Map<string, Set<WebSocket>>();
+
+  const tokenDigests = config.tokens.map(token => createHash('sha256').update(token).digest());
+  const isValidToken = (token: unknown): token is string => {
+    if (typeof token !== 'string' || !token) return false;
+    // Compared as fixed-length digests so the comparison time says nothing about the token
+    const digest = createHash('sha256').update(token).digest();
+    return tokenDigests.some(known => timingSafeEqual(known, digest));
+  };
+
+  const announce = (namespace: string, except?: WebSocket) => {
+    for (const socket of listeners.get(namespace) ?? []) {
+      if (socket !== except && socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify({ type: 'changed' }));
+      }
+    }
+  };
+
+  const push = async (namespace: string, data: unknown, except?: WebSocket) => {
+    if (typeof data !== 'string' || !data) throw new HttpError(400, 'Expected a batch in "data"');
+    if (Buffer.byteLength(data) > config.maxBatchBytes) throw new HttpError(413, 'Batch is too large');
+    const cursor = await store.append(namespace, data);
+    announce(namespace, except);
+    return cursor;
+  };
+
+  const pull = async (namespace: string, after: string | null) => {
+    try {
+      return await store.read(namespace, after, config.pageSize);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) throw new HttpError(400, error.message);
+      throw error;
+    }
+  };
+
+  // HTTP
+
+  const corsHeaders = (request: IncomingMessage): Record<string, string> => {
+    const origin = request.headers.origin;
+    const allowed = config.allowedOrigins.includes('*') ? '*'
+      : origin && config.allowedOrigins.includes(origin) ? origin
+      : null;
+    if (!allowed) return {};
+    return {
+      'Access-Control-Allow-Origin': allowed,
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Vary': 'Origin',
+    };
+  };
+
+  const send = (request: IncomingMessage, response: ServerResponse, status: number, body?: unknown) => {
+    response.writeHead(status, {
+      ...corsHeaders(request),
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    });
+    response.end(body === undefined ? undefined : JSON.stringify(body));
+  };
+
+  const readBody = (request: IncomingMessage): Promise<unknown> =>
+    new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      request.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        // Room for the JSON wrapper around the batch
+        if (size > config.maxBatchBytes + 1024) {
+          reject(new HttpError(413, 'Batch is too large'));
+          request.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      request.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch {
+          reject(new HttpError(400, 'Expected a JSON body'));
+        }
+      });
+      request.on('error', reject);
+    });
+
+  const authorize = (request: IncomingMessage): string => {
+    const match = /^Bearer (.+)$/.exec(request.headers.authorization ?? '');
+    if (!match || !isValidToken(match[1])) throw new HttpError(401, 'Invalid access token');
+    return namespaceFor(match[1]);
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? '/', 'http://relay');
+    if (request.method === 'OPTIONS') return send(request, response, 204);
+    if (url.pathname === '/health' && request.method === 'GET') return send(request, response, 200, { ok: true });
+    if (url.pathname !== '/batches') throw new HttpError(404, 'Not found');
+
+    const namespace = authorize(request);
+    if (request.method === 'GET') {
+      return send(request, response, 200, await pull(namespace, url.searchParams.get('after')));
+    }
+    if (request.method === 'POST') {
+      const body = await readBody(request) as { data?: unknown } | null;
+      return send(request, response, 201, { cursor: await push(namespace, body?.data) });
+    }
+    throw new HttpError(405, 'Method not allowed');
+  };
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch(error => {
+      if (!(error instanceof HttpError)) console.error('Request failed:', error);
+      const status = error instanceof HttpError ? error.status : 500;
+      if (!response.headersSent) {
+        send(request, response, status, { error: error instanceof HttpError ? error.message : 'Internal error' });
+      }
+    });
+  });
+
+  // WebSocket
+
+  const sockets = new WebSocketServer({ server, maxPayload: config.maxBatchBytes + 1024 });
+  sockets.on('connection', socket => {
+    let namespace: string | null = null;
+    const helloTimer = setTimeout(() => socket.close(CLOSE_UNAUTHORIZED, 'No hello'), HELLO_TIMEOUT_MS);
+
+    const reply = (message: Record<string, unknown>) => {
+      if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    const receive = async (message: ClientMessage) => {
+      if (message.type === 'hello') {
+        clearTimeout(helloTimer);
+        if (!isValidToken(message.token)) {
+          reply({ type: 'error', message: 'Invalid access token', status: 401 });
+          socket.close(CLOSE_UNAUTHORIZED, 'Invalid access token');
+          return;
+        }
+        namespace = namespaceFor(message.token);
+        if (!listeners.has(namespace)) listeners.set(namespace, new Set());
+        listeners.get(namespace)!.add(socket);
+        return;
+      }
+
+      if (!namespace) throw new HttpError(401, 'Say hello with an access token first');
+      if (message.type === 'pull') {
+        reply({ id: message.id, type: 'batches', ...(await pull(namespace, message.after ?? null)) });
+      } else if (message.type === 'push') {
+        reply({ id: message.id, type: 'ack', cursor: await push(namespace, message.data, socket) });
+      } else {
+        throw new HttpError(400, 'Unknown message type');
+      }
+    };
+
+    socket.on('message', (data: RawData) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        reply({ type: 'error', message: 'Expected JSON', status: 400 });
+        return;
+      }
+      // Valid JSON can still be a number, a string, null or an array
+      if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+        reply({ type: 'error', message: 'Expected a JSON object', status: 400 });
+        return;
+      }
+      const { id } = message as { id?: unknown };
+      receive(message as ClientMessage).catch(error => {
+        if (!(error instanceof HttpError)) console.error('Message failed:', error);
+        reply({
+          id: typeof id === 'string' ? id : undefined,
+          type: 'error',
+          message: error instanceof HttpError ? error.message : 'Internal error',
+          status: error instanceof HttpError ? error.status : 500,
+        });
+      });
+    });
+
+    socket.on('close', () => {
+      clearTimeout(helloTimer);
+      if (namespace) listeners.get(namespace)?.delete(socket);
+    });
+  });
+
+  return { server, sockets };
+}
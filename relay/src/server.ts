@@ -0,0 +1,22 @@
+// Starts the sync relay with settings from the environment; see relay.ts for the protocol
+import { ConfigError, loadConfig } from './config.js';
+import { createRelay } from './relay.js';
+
+try {
+  const config = loadConfig();
+  const { server, sockets } = createRelay(config);
+  server.listen(config.port, config.host, () => {
+    console.log(`Sync relay listening on http://${config.host}:${config.port}, storing batches in ${config.dataDir}`);
+  });
+
+  const shutdown = () => {
+    sockets.clients.forEach(socket => socket.terminate());
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+} catch (error) {
+  if (!(error instanceof ConfigError)) throw error;
+  console.error(error.message);
+  process.exit(1);
+}
@@ -0,0 +1,86 @@
+// Copies the Pyodide runtime and the wheels the app needs into public/pyodide/
+// so the build can serve Python without reaching a CDN at runtime.
+//
+// Usage: npm run pyodide:bundle
+import { createHash } from 'node:crypto';
+import { copyFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const sourceDir = join(root, 'node_modules', 'pyodide');
+const targetDir = join(root, 'public', 'pyodide');
+
+// Keep in sync with PYODIDE_PACKAGES in src/lib/local-backend.ts
+const PACKAGES = ['numpy', 'pandas', 'micropip'];
+const RUNTIME_FILES = [
+  'pyodide.asm.js',
+  'pyodide.asm.wasm',
+  'pyodide.mjs',
+  'pyodide.js',
+  'python_stdlib.zip',
+  'pyodide-lock.json',
+];
+
+const sha256 = (buffer) => createHash('sha256').update(buffer).digest('hex');
+
+function resolveDependencies(lock, names) {
+  const resolved = new Set();
+  const visit = (name) => {
+    const key = name.toLowerCase();
+    if (resolved.has(key)) return;
+    const entry = lock.packages[key];
+    if (!entry) throw new Error(`Package "${name}" is not in pyodide-lock.json`);
+    resolved.add(key);
+    entry.depends.forEach(visit);
+  };
+  names.forEach(visit);
+  return [...resolved].map((key) => lock.packages[key]);
+}
+
+async function downloadWheel(baseUrl, entry) {
+  const target = join(targetDir, entry.file_name);
+  if (existsSync(target) && sha256(await readFile(target)) === entry.sha256) {
+    console.log(`  ✓ ${entry.file_name} (cached)`);
+    return;
+  }
+
+  const response = await fetch(baseUrl + entry.file_name);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${entry.file_name}: ${response.status} ${response.statusText}`);
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (sha256(buffer) !== entry.sha256) {
+    throw new Error(`Checksum mismatch for ${entry.file_name}`);
+  }
+
+  await writeFile(target, buffer);
+  console.log(`  ✓ ${entry.file_name}`);
+}
+
+async function main() {
+  const { version } = JSON.parse(await readFile(join(sourceDir, 'package.json'), 'utf8'));
+  const lock = JSON.parse(await readFile(join(sourceDir, 'pyodide-lock.json'), 'utf8'));
+  const baseUrl = `https://cdn.jsdelivr.net/pyodide/v${version}/full/`;
+
+  await mkdir(targetDir, { recursive: true });
+
+  console.log(`Bundling Pyodide ${version} into public/pyodide`);
+  for (const file of RUNTIME_FILES) {
+    await copyFile(join(sourceDir, file), join(targetDir, file));
+    console.log(`  ✓ ${file}`);
+  }
+
+  for (const entry of resolveDependencies(lock, PACKAGES)) {
+    await downloadWheel(baseUrl, entry);
+  }
+
+  console.log('Done.');
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,246 @@
+// Runs every case below through the Python side of the data operation registry with real
+// pandas and records the results in src/lib/__fixtures__/data-operations-parity.json. The
+// tests check the JavaScript fallbacks against that file, so no Python is needed to run them.
+//
+// Usage: PYTHON=/path/to/python npm run fixtures:parity
+// The interpreter needs pandas from the same release series Pyodide bundles (see
+// node_modules/pyodide/pyodide-lock.json).
+import { spawnSync } from 'node:child_process';
+import { writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { resolveOperation, type DataOperationName } from '../src/lib/data-operations';
+import { RESULT_PRELUDE } from '../src/lib/pyodide-protocol';
+import type { DatasetRow } from '../src/lib/dataset-chunks';
+
+const output = join(dirname(fileURLToPath(import.meta.url)), '..', 'src', 'lib', '__fixtures__', 'data-operations-parity.json');
+
+const regions = ['North', 'South', 'East', 'West'];
+const products = ['A', 'B', 'C'];
+
+const datasets: Record<string, DatasetRow[]> = {
+  sales: Array.from({ length: 12 }, (_, i) => ({
+    region: regions[(i * 3) % 4],
+    product: products[i % 3],
+    units: (i * 7) % 11 + 1,
+    price: [19.99, 5.5, 12.25, 0.1, 7.3][i % 5],
+    returned: i % 4 === 1,
+  })),
+  sparse: [
+    { region: 'North', units: 4, price: 2.5, note: 'late' },
+    { region: null, units: 2, price: 1.1, note: null },
+    { region: 'South', units: null, price: 3.3, note: 'Late again' },
+    { region: 'North', units: 9, price: null, note: 'ok' },
+    { region: 'East', units: 4, price: 0.7, note: null },
+    { region: 'South', units: 1, price: 8.25, note: 'ok' },
+    { region: null, units: null, price: null, note: 'missing' },
+    { region: 'East', units: 6, price: 4.4, note: 'ok' },
+  ],
+  // Large magnitudes and more values than numpy's pairwise block, so summation order shows
+  floats: Array.from({ length: 300 }, (_, i) => ({
+    bucket: `b${i % 4}`,
+    value: ((i * 7919) % 1000) / 7 + (i % 3 === 0 ? 1e9 : 0) + 0.1,
+  })),
+  names: ['ann', 'bob', 'cy', 'bob', 'ann', 'dee', 'cy', 'eve'].map((name, i) => ({ name, team: i % 2 ? 'red' : 'blue' })),
+  mixed: [
+    { id: 1, code: 1, tag: 'x' },
+    { id: 2, code: 'a', tag: 'y' },
+    { id: 3, code: 2, tag: 'x' },
+    { id: 4, code: null, tag: 'y' },
+    { id: 5, code: 'b', tag: 'x' },
+  ],
+  empty: [],
+};
+
+type Case = { name: string; dataset: string; operation: DataOperationName; params?: unknown };
+
+const everyFn = ['count', 'sum', 'mean', 'min', 'max', 'median', 'nunique'] as const;
+
+const cases: Case[] = [
+  { name: 'summary of mixed dtypes', dataset: 'sales', operation: 'summary' },
+  { name: 'summary with missing values', dataset: 'sparse', operation: 'summary' },
+  { name: 'summary of no rows', dataset: 'empty', operation: 'summary' },
+
+  { name: 'stats of numeric columns', dataset: 'sales', operation: 'stats' },
+  { name: 'stats with missing values', dataset: 'sparse', operation: 'stats' },
+  { name: 'stats of large floats', dataset: 'floats', operation: 'stats' },
+  { name: 'stats of text columns', dataset: 'names', operation: 'stats' },
+
+  { name: 'default quantiles', dataset: 'sales', operation: 'quantiles' },
+  { name: 'custom quantiles', dataset: 'floats', operation: 'quantiles', params: { q: [0, 0.1, 0.33, 0.5, 0.9, 1] } },
+  { name: 'quantiles with missing values', dataset: 'sparse', operation: 'quantiles', params: { columns: ['units', 'price'] } },
+  { name: 'quantiles of a mixed column', dataset: 'mixed', operation: 'quantiles', params: { columns: ['code'] } },
+
+  { name: 'filter eq', dataset: 'sales', operation: 'filter', params: { conditions: [{ column: 'region', op: 'eq', value: 'North' }] } },
+  {
+    name: 'filter range',
+    dataset: 'sales',
+    operation: 'filter',
+    params: { conditions: [{ column: 'price', op: 'gt', value: 5.5 }, { column: 'units', op: 'lte', value: 8 }] },
+  },
+  { name: 'filter contains', dataset: 'sparse', operation: 'filter', params: { conditions: [{ column: 'note', op: 'contains', value: 'LATE' }] } },
+  { name: 'filter in', dataset: 'sales', operation: 'filter', params: { conditions: [{ column: 'region', op: 'in', value: ['East', 'West'] }] } },
+  { name: 'filter isnull', dataset: 'sparse', operation: 'filter', params: { conditions: [{ column: 'region', op: 'isnull' }] } },
+  { name: 'filter notnull', dataset: 'sparse', operation: 'filter', params: { conditions: [{ column: 'units', op: 'notnull' }] } },
+  { name: 'filter ne keeps missing', dataset: 'sparse', operation: 'filter', params: { conditions: [{ column: 'region', op: 'ne', value: 'North' }] } },
+  { name: 'filter gte with missing', dataset: 'sparse', operation: 'filter', params: { conditions: [{ column: 'units', op: 'gte', value: 4 }] } },
+  { name: 'filter with limit', dataset: 'sales', operation: 'filter', params: { limit: 3 } },
+  { name: 'filter on a missing column', dataset: 'sales', operation: 'filter', params: { conditions: [{ column: 'nope', op: 'isnull' }] } },
+  { name: 'filter comparing text with a number', dataset: 'mixed', operation: 'filter', params: { conditions: [{ column: 'code', op: 'gt', value: 1 }] } },
+
+  {
+    name: 'sort by two columns',
+    dataset: 'sales',
+    operation: 'sort',
+    params: { by: [{ column: 'region' }, { column: 'units', ascending: false }] },
+  },
+  { name: 'sort puts missing last', dataset: 'sparse', operation: 'sort', params: { by: [{ column: 'units' }] } },
+  { name: 'sort descending with missing', dataset: 'sparse', operation: 'sort', params: { by: [{ column: 'region', ascending: false }] } },
+  { name: 'sort a mixed column', dataset: 'mixed', operation: 'sort', params: { by: [{ column: 'code' }] } },
+
+  {
+    name: 'aggregate every function',
+    dataset: 'sales',
+    operation: 'aggregate',
+    params: { aggregations: everyFn.flatMap(fn => [{ column: 'units', fn }, { column: 'price', fn }]) },
+  },
+  {
+    name: 'aggregate with missing values',
+    dataset: 'sparse',
+    operation: 'aggregate',
+    params: { aggregations: everyFn.map(fn => ({ column: 'units', fn })) },
+  },
+  {
+    name: 'aggregate booleans',
+    dataset: 'sales',
+    operation: 'aggregate',
+    params: { aggregations: ['count', 'sum', 'mean', 'median'].map(fn => ({ column: 'returned', fn })) },
+  },
+  {
+    name: 'aggregate text',
+    dataset: 'names',
+    operation: 'aggregate',
+    params: { aggregations: ['count', 'min', 'max', 'nunique'].map(fn => ({ column: 'name', fn })) },
+  },
+  {
+    name: 'aggregate large floats',
+    dataset: 'floats',
+    operation: 'aggregate',
+    params: { aggregations: [{ column: 'value', fn: 'sum' }, { column: 'value', fn: 'mean' }, { column: 'value', fn: 'median' }] },
+  },
+  {
+    name: 'aggregate with conditions',
+    dataset: 'sales',
+    operation: 'aggregate',
+    params: { aggregations: [{ column: 'units', fn: 'sum' }], conditions: [{ column: 'product', op: 'eq', value: 'B' }] },
+  },
+  ...(['sum', 'mean', 'median'] as const).map((fn): Case => ({
+    name: `aggregate ${fn} of text`,
+    dataset: 'names',
+    operation: 'aggregate',
+    params: { aggregations: [{ column: 'name', fn }] },
+  })),
+  ...(['sum', 'mean', 'median', 'min', 'max'] as const).map((fn): Case => ({
+    name: `aggregate ${fn} of a mixed column`,
+    dataset: 'mixed',
+    operation: 'aggregate',
+    params: { aggregations: [{ column: 'code', fn }] },
+  })),
+
+  { name: 'groupBy counts', dataset: 'sales', operation: 'groupBy', params: { by: ['region'] } },
+  {
+    name: 'groupBy two keys',
+    dataset: 'sales',
+    operation: 'groupBy',
+    params: { by: ['region', 'product'], aggregations: [{ column: 'units', fn: 'sum' }, { column: 'price', fn: 'mean' }] },
+  },
+  {
+    name: 'groupBy drops missing keys',
+    dataset: 'sparse',
+    operation: 'groupBy',
+    params: { by: ['region'], aggregations: everyFn.map(fn => ({ column: 'units', fn })) },
+  },
+  {
+    name: 'groupBy large floats',
+    dataset: 'floats',
+    operation: 'groupBy',
+    params: { by: ['bucket'], aggregations: [{ column: 'value', fn: 'sum' }, { column: 'value', fn: 'mean' }] },
+  },
+  {
+    name: 'groupBy with conditions',
+    dataset: 'sales',
+    operation: 'groupBy',
+    params: { by: ['product'], aggregations: [{ column: 'units', fn: 'max' }], conditions: [{ column: 'returned', op: 'eq', value: false }] },
+  },
+  {
+    name: 'groupBy sum of text',
+    dataset: 'names',
+    operation: 'groupBy',
+    params: { by: ['team'], aggregations: [{ column: 'name', fn: 'sum' }] },
+  },
+  {
+    name: 'groupBy min of a mixed column',
+    dataset: 'mixed',
+    operation: 'groupBy',
+    params: { by: ['tag'], aggregations: [{ column: 'code', fn: 'min' }] },
+  },
+
+  { name: 'valueCounts', dataset: 'sales', operation: 'valueCounts', params: { column: 'region' } },
+  { name: 'valueCounts ties keep first appearance', dataset: 'names', operation: 'valueCounts', params: { column: 'name' } },
+  { name: 'valueCounts with missing', dataset: 'sparse', operation: 'valueCounts', params: { column: 'region', dropna: false } },
+  { name: 'valueCounts with limit', dataset: 'sales', operation: 'valueCounts', params: { column: 'units', limit: 2 } },
+
+  { name: 'pivot sum', dataset: 'sales', operation: 'pivot', params: { index: 'region', columns: 'product', values: 'units' } },
+  { name: 'pivot mean', dataset: 'sales', operation: 'pivot', params: { index: 'product', columns: 'region', values: 'price', fn: 'mean' } },
+  { name: 'pivot with missing', dataset: 'sparse', operation: 'pivot', params: { index: 'region', columns: 'note', values: 'units', fn: 'max' } },
+  { name: 'pivot sum with missing', dataset: 'sparse', operation: 'pivot', params: { index: 'region', columns: 'note', values: 'units' } },
+  { name: 'pivot count', dataset: 'sparse', operation: 'pivot', params: { index: 'note', columns: 'region', values: 'price', fn: 'count' } },
+  { name: 'pivot sum of text', dataset: 'names', operation: 'pivot', params: { index: 'team', columns: 'team', values: 'name' } },
+  { name: 'pivot min of a mixed column', dataset: 'mixed', operation: 'pivot', params: { index: 'tag', columns: 'tag', values: 'code', fn: 'min' } },
+
+  { name: 'sample', dataset: 'sales', operation: 'sample', params: { n: 5, seed: 42 } },
+  { name: 'sample another seed', dataset: 'floats', operation: 'sample', params: { n: 10, seed: 7 } },
+  { name: 'sample more than there are', dataset: 'sparse', operation: 'sample', params: { n: 50 } },
+
+  { name: 'topN', dataset: 'sales', operation: 'topN', params: { column: 'units', n: 3 } },
+  { name: 'topN ascending', dataset: 'sales', operation: 'topN', params: { column: 'price', n: 4, ascending: true } },
+  { name: 'topN skips missing', dataset: 'sparse', operation: 'topN', params: { column: 'units', n: 10 } },
+];
+
+// Runs each case's Python as the worker does: data and params as globals, then the same
+// conversion to plain values. Exceptions are recorded by class name.
+const HARNESS = `
+import json, sys
+${RESULT_PRELUDE}
+out = []
+for case in json.load(sys.stdin):
+    scope = {"data": case["data"], "params": case["params"]}
+    try:
+        exec(case["python"], scope)
+        out.append({"result": _to_jsonable(scope["result"])})
+    except Exception as error:
+        out.append({"error": type(error).__name__, "message": str(error)})
+versions = {"pandas": __import__("pandas").__version__, "numpy": np.__version__}
+json.dump({"versions": versions, "results": out}, sys.stdout, allow_nan=False)
+`;
+
+const inputs = cases.map(c => {
+  const resolved = resolveOperation(c.operation, c.params);
+  return { python: resolved.python, data: datasets[c.dataset], params: resolved.params };
+});
+
+const python = process.env.PYTHON ?? 'python3';
+const run = spawnSync(python, ['-c', HARNESS], { input: JSON.stringify(inputs), encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 });
+if (run.status !== 0) {
+  console.error(run.stderr || run.error?.message);
+  process.exit(1);
+}
+
+const { versions, results } = JSON.parse(run.stdout);
+const fixture = {
+  generatedWith: versions,
+  datasets,
+  cases: cases.map((c, i) => ({ ...c, params: c.params ?? {}, expected: results[i] })),
+};
+writeFileSync(output, `${JSON.stringify(fixture, null, 2)}\n`);
+console.log(`Wrote ${cases.length} cases to ${output}`);
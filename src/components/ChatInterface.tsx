@@ -3,11 +3,35 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Send, User, Bot } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Send, User, Bot, Square } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { localBackend } from "@/lib/local-backend";
+import { localBackend, type ConversationRecord, type ProcessingType, type QueuedCloudRequest } from "@/lib/local-backend";
 import { cloudFallback } from "@/lib/cloud-fallback";
+import { localModel } from "@/lib/local-model";
+import { intentClassifier, LOCAL_CONFIDENCE_THRESHOLD } from "@/lib/intent-classifier";
+import { LlmError, buildChatMessages, type LlmErrorKind, type LlmMessage } from "@/lib/llm-providers";
+import { CloudUnavailableError } from "@/lib/cloud-resilience";
+import { connectivity } from "@/lib/connectivity";
+import { mergeQueueUpdates, offlineQueue, type NewQueuedRequest } from "@/lib/offline-queue";
+import type { TableResult } from "@/lib/data-operations";
+import { answerDataQuestion } from "@/lib/data-questions";
+import { buildHybridRequest } from "@/lib/hybrid-analysis";
+import { BudgetExceededError, formatUsd, type BudgetCheck } from "@/lib/usage-budget";
+import { DEFAULT_PII_SENSITIVITY, RedactionSession, isPiiSensitivity, strictestSensitivity } from "@/lib/pii-redaction";
 import { ProcessingStatus } from "./ProcessingStatus";
+import { ResultTable } from "./ResultTable";
+import { SentPayload } from "./SentPayload";
+import { QueuedRequestStatus } from "./QueuedRequestStatus";
 import { useToast } from "@/hooks/use-toast";
 
 interface Message {
@@ -15,29 +39,202 @@ interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
-  processingType: 'local' | 'cloud';
+  processingType: ProcessingType;
+  status?: 'stopped' | 'failed';
+  table?: TableResult;
+  sentPayload?: LlmMessage[];
+  queuedId?: string;
   isLoading?: boolean;
+  isStreaming?: boolean;
+  // Shown in place of "Processing..." while a reply is pending, e.g. during a retry
+  notice?: string;
 }
 
-export const ChatInterface = () => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      role: 'assistant',
-      content: 'Hello! I\'m your local-first AI assistant. I can help you analyze data, answer questions, and more - all running locally on your device. Ask me anything!',
-      timestamp: new Date(),
-      processingType: 'local'
-    }
-  ]);
+interface ChatInterfaceProps {
+  conversationId: string | null;
+  onConversationChange?: (id: string) => void;
+  onConversationSaved?: () => void;
+}
+
+const CLOUD_HINT = '\n\n💡 For more advanced responses, you can enable cloud processing in settings.';
+const QUEUED_NOTE = '\n\n📥 You are offline, so this question was queued for the cloud. The answer will be added below when the connection is back.';
+
+const CLOUD_ERROR_HINTS: Record<LlmErrorKind, string> = {
+  auth: 'Check the API key in settings.',
+  quota: 'Check the plan or billing with your provider.',
+  'rate-limit': 'Wait a moment and try again.',
+  network: 'Check your internet connection.',
+  server: 'The provider may be having problems; try again later.',
+  request: 'Check the model name and endpoint in settings.',
+};
+
+const RETRY_NOTICES: Partial<Record<LlmErrorKind, string>> = {
+  'rate-limit': 'Rate limited by the provider',
+  network: 'Could not reach the provider',
+  server: 'The provider returned an error',
+};
+
+// Appended to the local answer when the cloud was tried but gave nothing back
+const describeCloudFailure = (error: unknown): string => {
+  if (error instanceof BudgetExceededError) {
+    return `\n\n💸 ${error.message}, so the cloud was not used. You can change budgets in settings.`;
+  }
+  if (error instanceof CloudUnavailableError) {
+    return `\n\n⏸️ ${error.message}.`;
+  }
+  if (error instanceof LlmError) {
+    return `\n\n⚠️ Cloud request failed: ${error.message}. ${CLOUD_ERROR_HINTS[error.kind]}`;
+  }
+  return `\n\n⚠️ Cloud request failed: ${error instanceof Error ? error.message : String(error)}`;
+};
+
+const createWelcomeMessage = (): Message => ({
+  id: '1',
+  role: 'assistant',
+  content: 'Hello! I\'m your local-first AI assistant. I can help you analyze data, answer questions, and more - all running locally on your device. Ask me anything!',
+  timestamp: new Date(),
+  processingType: 'local'
+});
+
+export const ChatInterface = ({ conversationId, onConversationChange, onConversationSaved }: ChatInterfaceProps) => {
+  const [messages, setMessages] = useState<Message[]>(() => [createWelcomeMessage()]);
   const [input, setInput] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [budgetPrompt, setBudgetPrompt] = useState<{ check: BudgetCheck; resolve: (approved: boolean) => void } | null>(null);
+  const [queue, setQueue] = useState<Map<string, QueuedCloudRequest>>(new Map());
   const scrollRef = useRef<HTMLDivElement>(null);
+  const conversationRef = useRef<ConversationRecord | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Set when the offline queue updated the open conversation while a reply was in progress
+  const staleRef = useRef(false);
+  // Bumped whenever another conversation is opened, so late replies know they are stale
+  const viewRef = useRef(0);
   const { toast } = useToast();
 
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
+  // Resume the selected conversation, or start a fresh one
+  useEffect(() => {
+    if (conversationId && conversationRef.current?.id === conversationId) return;
+
+    // A reply still streaming into the previous conversation stops and is saved there
+    viewRef.current++;
+    abortRef.current?.abort();
+
+    let cancelled = false;
+    const loadConversation = async () => {
+      const conversation = conversationId ? await localBackend.getConversation(conversationId) : undefined;
+      if (cancelled) return;
+
+      showConversation(conversation);
+    };
+
+    loadConversation().catch(error => console.error('Failed to load conversation:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
+  useEffect(() => {
+    const load = () => {
+      localBackend.getQueuedRequests()
+        .then(requests => setQueue(new Map(requests.map(request => [request.id, request]))))
+        .catch(error => console.error('Failed to load offline queue:', error));
+    };
+    load();
+    return localBackend.onCloudQueueChange(load);
+  }, []);
+
+  // Show answers the offline queue adds to the open conversation, and changes made to it in
+  // other tabs, once any reply in progress is saved
+  useEffect(() => {
+    const reload = () => {
+      const id = conversationRef.current?.id;
+      if (!id) return;
+      staleRef.current = false;
+      localBackend.getConversation(id)
+        .then(conversation => {
+          if (conversation && conversationRef.current?.id === conversation.id) showConversation(conversation);
+        })
+        .catch(error => console.error('Failed to reload conversation:', error));
+    };
+    if (!isProcessing && staleRef.current) reload();
+
+    const onUpdate = (id: string) => {
+      if (id !== conversationRef.current?.id) return;
+      if (isProcessing) {
+        staleRef.current = true;
+      } else {
+        reload();
+      }
+    };
+
+    const unsubscribeQueue = offlineQueue.onConversationUpdate(id => {
+      onConversationSaved?.();
+      onUpdate(id);
+    });
+    const unsubscribeTabs = localBackend.onChange((event, remote) => {
+      if (remote && event.type === 'conversation-updated') onUpdate(event.id);
+    }, ['conversation-updated']);
+    return () => {
+      unsubscribeQueue();
+      unsubscribeTabs();
+    };
+  }, [isProcessing, onConversationSaved]);
+
+  const showConversation = (conversation: ConversationRecord | undefined) => {
+    conversationRef.current = conversation ?? null;
+    setMessages(conversation?.messages.length
+      ? conversation.messages.map(m => ({ ...m, role: m.role as Message['role'] }))
+      : [createWelcomeMessage()]);
+  };
+
+  // Saves into `base`, which is normally the open conversation; a reply that finishes after
+  // the user switched away is written to the conversation it belongs to
+  const persistConversation = async (
+    history: Message[],
+    titleSource: string,
+    base: ConversationRecord | null = conversationRef.current,
+    isOpen = true
+  ) => {
+    const now = new Date();
+    const conversation: ConversationRecord = base ?? {
+      id: Date.now().toString(),
+      title: localBackend.generateConversationTitle(titleSource),
+      messages: [],
+      created: now,
+      updated: now
+    };
+
+    conversation.messages = history
+      .filter(m => !m.isLoading)
+      .map(({ id, role, content, timestamp, processingType, status, table, sentPayload, queuedId }) => ({
+        id, role, content, timestamp, processingType, status, table, sentPayload, queuedId
+      }));
+    if (isOpen) {
+      conversationRef.current = conversation;
+    }
+
+    try {
+      if (base) {
+        const stored = await localBackend.getConversation(base.id);
+        if (stored) conversation.messages = mergeQueueUpdates(conversation.messages, stored.messages);
+      }
+      await localBackend.saveConversation(conversation);
+      if (isOpen && conversation.id !== conversationId) {
+        onConversationChange?.(conversation.id);
+      }
+      onConversationSaved?.();
+      return conversation;
+    } catch (error) {
+      console.error('Failed to save conversation:', error);
+      return null;
+    }
+  };
+
   const scrollToBottom = () => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
@@ -65,57 +262,150 @@ export const ChatInterface = () => {
 
     setMessages(prev => [...prev, userMsg, loadingMsg]);
     setIsProcessing(true);
+    const conversation = conversationRef.current;
+    const view = viewRef.current;
+    const updateReply = (changes: Partial<Message>) => {
+      setMessages(prev => prev.map(msg => msg.id === loadingMsg.id ? { ...msg, ...changes } : msg));
+    };
 
     try {
       let response = '';
-      let processingType: 'local' | 'cloud' = 'local';
+      let processingType: ProcessingType = 'local';
+      let status: Message['status'];
+      let table: TableResult | undefined;
+      let sentPayload: LlmMessage[] | undefined;
+      let queued: Omit<NewQueuedRequest, 'conversationId'> | undefined;
 
       // Try local processing first
       const localResponse = await processLocalQuery(userMessage);
       
       if (localResponse.needsCloudFallback) {
-        // Check if cloud processing is available
+        const history: LlmMessage[] = messages
+          .filter(m => !m.isLoading)
+          .map(m => ({ role: m.role, content: m.content }));
+
+        const localModelStatus = localModel.getStatus();
+        const localModelReady = localModelStatus.isEnabled && localModelStatus.isConfigured;
         const cloudStatus = cloudFallback.getStatus();
-        
-        if (cloudStatus.isEnabled && cloudStatus.hasApiKey) {
+        const cloudReady = cloudStatus.isEnabled && cloudStatus.isConfigured;
+        const online = connectivity.isOnline();
+
+        // Dataset questions are narrated from locally computed aggregates; rows never reach a model
+        const hybrid = localResponse.isDataQuestion && (localModelReady || cloudReady)
+          ? await buildHybridRequest(userMessage)
+          : null;
+        const modelMessages = hybrid ? hybrid.messages : buildChatMessages(userMessage, history);
+
+        // PII is replaced with placeholders before the cloud sees it and put back in the reply
+        const redaction = new RedactionSession();
+        const chatSensitivity = await localBackend.getSetting('piiSensitivity');
+        const sensitivity = strictestSensitivity(
+          isPiiSensitivity(chatSensitivity) ? chatSensitivity : DEFAULT_PII_SENSITIVITY,
+          hybrid?.sensitivity
+        );
+        const cloudMessages = cloudReady && online ? await redaction.redactMessages(modelMessages, sensitivity) : modelMessages;
+
+        const onRetry = (error: LlmError, delayMs: number, attempt: number) => {
+          updateReply({
+            notice: `${RETRY_NOTICES[error.kind] ?? error.message}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})...`
+          });
+        };
+
+        // A model server on this machine is tried before anything leaves the device
+        const tiers: Array<{ type: ProcessingType; stream: (signal: AbortSignal) => AsyncIterable<string>; sent?: LlmMessage[] }> = [];
+        if (localModelReady) {
+          tiers.push({
+            type: 'local-model',
+            stream: signal => hybrid ? localModel.analyzeStream(hybrid, signal) : localModel.chatStream(userMessage, history, signal)
+          });
+        }
+        if (cloudReady && online) {
+          tiers.push({
+            type: 'cloud',
+            stream: signal => redaction.restoreStream(hybrid
+              ? cloudFallback.analyzeStream({ ...hybrid, messages: cloudMessages }, { signal, confirmOverBudget, onRetry })
+              : cloudFallback.completeStream(cloudMessages, { signal, confirmOverBudget, onRetry })),
+            sent: cloudMessages
+          });
+        }
+
+        let answered = false;
+        let cloudError: unknown = null;
+        for (const tier of tiers) {
+          const controller = new AbortController();
+          abortRef.current = controller;
+          setIsStreaming(true);
+          let partial = '';
+
           try {
-            response = await cloudFallback.chatWithGPT(userMessage, 
-              messages.filter(m => m.role !== 'assistant' || !m.isLoading)
-                .map(m => ({ role: m.role as any, content: m.content }))
-            );
-            processingType = 'cloud';
-          } catch (cloudError) {
-            console.warn('Cloud processing failed:', cloudError);
-            response = localResponse.response + '\n\n💡 For more advanced responses, you can enable cloud processing in settings.';
+            for await (const token of tier.stream(controller.signal)) {
+              partial += token;
+              updateReply({ content: partial, processingType: tier.type, isLoading: false, isStreaming: true, notice: undefined });
+            }
+            response = partial;
+            processingType = tier.type;
+            sentPayload = tier.sent;
+            answered = true;
+          } catch (tierError) {
+            if (controller.signal.aborted || partial) {
+              // Keep whatever arrived before the stream ended
+              response = partial;
+              processingType = tier.type;
+              sentPayload = tier.sent;
+              status = controller.signal.aborted ? 'stopped' : 'failed';
+              answered = true;
+              if (!controller.signal.aborted) {
+                console.warn(`${tier.type} stream interrupted:`, tierError);
+              }
+            } else {
+              console.warn(`${tier.type} processing failed:`, tierError);
+              if (tier.type === 'cloud') cloudError = tierError;
+            }
+          } finally {
+            abortRef.current = null;
+            setIsStreaming(false);
+          }
+
+          if (answered) break;
+        }
+
+        if (!answered) {
+          const offline = cloudReady && (!online || (
+            cloudError instanceof LlmError && cloudError.kind === 'network' && !(await connectivity.check())
+          ));
+          if (offline) {
+            queued = { id: crypto.randomUUID(), replyId: loadingMsg.id, question: userMessage, messages: modelMessages, sensitivity, hybrid: hybrid ?? undefined };
+            response = localResponse.response + QUEUED_NOTE;
+          } else {
+            // The hint is only for users who have not set up the cloud; otherwise say what went wrong
+            response = localResponse.response + (cloudReady ? describeCloudFailure(cloudError) : CLOUD_HINT);
           }
-        } else {
-          response = localResponse.response + '\n\n💡 For more advanced responses, you can enable cloud processing in settings.';
         }
       } else {
         response = localResponse.response;
+        table = localResponse.table;
       }
 
       // Update the loading message with the response
-      setMessages(prev => prev.map(msg => 
-        msg.id === loadingMsg.id 
-          ? { ...msg, content: response, processingType, isLoading: false }
-          : msg
-      ));
+      const assistantMsg: Message = { ...loadingMsg, content: response, processingType, status, table, sentPayload, queuedId: queued?.id, isLoading: false };
+      updateReply({ ...assistantMsg, isStreaming: false, notice: undefined });
+      const saved = await persistConversation([...messages, userMsg, assistantMsg], userMessage, conversation, view === viewRef.current);
+      if (queued && saved) {
+        await offlineQueue.enqueue({ ...queued, conversationId: saved.id });
+      }
 
     } catch (error) {
       console.error('Processing error:', error);
       
       // Update with error message
-      setMessages(prev => prev.map(msg => 
-        msg.id === loadingMsg.id 
-          ? { 
-              ...msg, 
-              content: 'Sorry, I encountered an error processing your request. Please try again.', 
-              processingType: 'local',
-              isLoading: false 
-            }
-          : msg
-      ));
+      const errorMsg: Message = {
+        ...loadingMsg,
+        content: 'Sorry, I encountered an error processing your request. Please try again.',
+        processingType: 'local',
+        isLoading: false
+      };
+      updateReply({ ...errorMsg, isStreaming: false });
+      await persistConversation([...messages, userMsg, errorMsg], userMessage, conversation, view === viewRef.current);
       
       toast({
         title: "Processing Error",
@@ -127,51 +417,85 @@ export const ChatInterface = () => {
     }
   };
 
-  const processLocalQuery = async (query: string): Promise<{ response: string; needsCloudFallback: boolean }> => {
-    const lowerQuery = query.toLowerCase();
+  // Resolved by the over-budget dialog
+  const confirmOverBudget = (check: BudgetCheck) =>
+    new Promise<boolean>(resolve => setBudgetPrompt({ check, resolve }));
+
+  const answerBudgetPrompt = (approved: boolean) => {
+    budgetPrompt?.resolve(approved);
+    setBudgetPrompt(null);
+  };
+
+  const stopGeneration = () => {
+    abortRef.current?.abort();
+  };
+
+  const processLocalQuery = async (query: string): Promise<{
+    response: string;
+    needsCloudFallback: boolean;
+    table?: TableResult;
+    // Set for dataset questions the parser could not answer, so a model only sees aggregates
+    isDataQuestion?: boolean;
+  }> => {
+    const { intent, confidence } = await intentClassifier.classify(query);
+    // A weak match still gets a local answer, but a better model may take over
+    const isConfident = confidence >= LOCAL_CONFIDENCE_THRESHOLD;
 
-    // Simple keyword-based routing
-    if (lowerQuery.includes('data') || lowerQuery.includes('analyze') || lowerQuery.includes('dataset')) {
-      const datasets = await localBackend.getDatasets();
-      if (datasets.length === 0) {
+    switch (intent) {
+      case 'dataset': {
+        const datasets = await localBackend.getDatasets();
+        if (datasets.length === 0) {
+          return {
+            response: 'I can help you analyze data! Please upload a dataset first using the data upload section.',
+            needsCloudFallback: false
+          };
+        }
+
+        // Computed answers are exact, so only questions the parser can't pin down go further
+        const answer = await answerDataQuestion(query);
+        if ('sentence' in answer) {
+          return { response: answer.sentence, table: answer.table, needsCloudFallback: false };
+        }
         return {
-          response: 'I can help you analyze data! Please upload a dataset first using the data upload section.',
-          needsCloudFallback: false
+          response: `${answer.ambiguous} Try asking something like "average revenue by region" or "how many rows have status = failed".`,
+          needsCloudFallback: true,
+          isDataQuestion: true
         };
-      } else {
+      }
+
+      case 'sentiment': {
+        const sentiment = await localBackend.processTextLocally(query, 'sentiment');
         return {
-          response: `I found ${datasets.length} dataset(s) in your local storage. I can perform basic analysis like summaries, statistics, and filtering. What would you like to know about your data?`,
-          needsCloudFallback: false
+          response: `Based on local sentiment analysis: This text appears to be **${sentiment.sentiment}** (confidence: ${(sentiment.confidence * 100).toFixed(1)}%). I detected ${sentiment.positive} positive and ${sentiment.negative} negative indicators.`,
+          needsCloudFallback: !isConfident
         };
       }
-    }
 
-    if (lowerQuery.includes('sentiment') || lowerQuery.includes('feeling') || lowerQuery.includes('emotion')) {
-      const sentiment = await localBackend.processTextLocally(query, 'sentiment');
-      return {
-        response: `Based on local sentiment analysis: This text appears to be **${sentiment.sentiment}** (confidence: ${(sentiment.confidence * 100).toFixed(1)}%). I detected ${sentiment.positive} positive and ${sentiment.negative} negative indicators.`,
-        needsCloudFallback: false
-      };
-    }
+      case 'keywords': {
+        const keywords = await localBackend.processTextLocally(query, 'keywords');
+        return {
+          response: `Key words extracted locally: ${keywords.keywords.map(k => k.word).join(', ')}`,
+          needsCloudFallback: !isConfident
+        };
+      }
 
-    if (lowerQuery.includes('keyword') || lowerQuery.includes('important words')) {
-      const keywords = await localBackend.processTextLocally(query, 'keywords');
-      return {
-        response: `Key words extracted locally: ${keywords.keywords.map((k: any) => k.word).join(', ')}`,
-        needsCloudFallback: false
-      };
-    }
+      case 'summarize': {
+        const summary = await localBackend.processTextLocally(query, 'summary');
+        return {
+          response: `Local summary (${summary.summaryLength} of ${summary.originalLength} sentences): ${summary.summary}`,
+          needsCloudFallback: !isConfident
+        };
+      }
 
-    if (lowerQuery.includes('hello') || lowerQuery.includes('hi') || lowerQuery.includes('hey')) {
-      return {
-        response: 'Hello! I\'m running locally on your device. I can help you with data analysis, text processing, and simple conversations. What can I help you with today?',
-        needsCloudFallback: false
-      };
-    }
+      case 'greeting':
+        return {
+          response: 'Hello! I\'m running locally on your device. I can help you with data analysis, text processing, and simple conversations. What can I help you with today?',
+          needsCloudFallback: false
+        };
 
-    if (lowerQuery.includes('help') || lowerQuery.includes('what can you do')) {
-      return {
-        response: `Here's what I can do locally:
+      case 'help':
+        return {
+          response: `Here's what I can do locally:
         
 📊 **Data Analysis**: Upload CSV/JSON files for analysis, statistics, and summaries
 📝 **Text Processing**: Sentiment analysis, keyword extraction, basic summarization  
@@ -179,23 +503,23 @@ export const ChatInterface = () => {
 🔍 **Local Search**: Find and filter your stored data
 
 For more advanced AI capabilities, you can enable cloud processing in the settings panel.`,
-        needsCloudFallback: false
-      };
-    }
+          needsCloudFallback: false
+        };
 
-    // For complex queries that need more sophisticated understanding
-    if (query.length > 100 || lowerQuery.includes('explain') || lowerQuery.includes('complex') || lowerQuery.includes('detailed')) {
-      return {
-        response: 'This seems like a complex question that could benefit from advanced AI processing.',
-        needsCloudFallback: true
-      };
-    }
+      default: {
+        // A question that names a dataset or column is still answered locally
+        const answer = await answerDataQuestion(query, { strict: true });
+        if ('sentence' in answer) {
+          return { response: answer.sentence, table: answer.table, needsCloudFallback: false };
+        }
 
-    // Default local response
-    return {
-      response: 'I processed your message locally. For more sophisticated responses, you can enable cloud processing in settings. How else can I help you?',
-      needsCloudFallback: true
-    };
+        // Open-ended questions need a real language model
+        return {
+          response: 'I processed your message locally. For more sophisticated responses, you can enable cloud processing in settings. How else can I help you?',
+          needsCloudFallback: true
+        };
+      }
+    }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -246,19 +570,35 @@ For more advanced AI capabilities, you can enable cloud processing in the settin
                           <div className="w-2 h-2 bg-current rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
                           <div className="w-2 h-2 bg-current rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
                         </div>
-                        <span className="text-muted-foreground">Processing...</span>
+                        <span className="text-muted-foreground">{message.notice ?? 'Processing...'}</span>
                       </div>
                     ) : (
-                      <div className="whitespace-pre-wrap">{message.content}</div>
+                      <div className="whitespace-pre-wrap">
+                        {message.content}
+                        {message.isStreaming && (
+                          <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-current animate-pulse" />
+                        )}
+                      </div>
                     )}
                   </div>
+
+                  {message.table && <ResultTable table={message.table} />}
+                  {message.sentPayload && !message.isStreaming && <SentPayload messages={message.sentPayload} />}
                   
-                  {message.role === 'assistant' && !message.isLoading && (
+                  {message.role === 'assistant' && !message.isLoading && !message.isStreaming && (
                     <div className="flex items-center gap-2 text-xs">
                       <ProcessingStatus type={message.processingType} />
                       <span className="text-muted-foreground">
                         {message.timestamp.toLocaleTimeString()}
                       </span>
+                      {message.status && (
+                        <span className="text-muted-foreground italic">
+                          {message.status === 'stopped' ? 'Stopped' : 'Interrupted'} · partial response
+                        </span>
+                      )}
+                      {message.queuedId && queue.has(message.queuedId) && (
+                        <QueuedRequestStatus request={queue.get(message.queuedId)!} />
+                      )}
                     </div>
                   )}
                 </div>
@@ -283,17 +623,49 @@ For more advanced AI capabilities, you can enable cloud processing in the settin
               disabled={isProcessing}
               className="flex-1"
             />
-            <Button 
-              type="submit" 
-              disabled={!input.trim() || isProcessing}
-              variant="hero"
-              size="icon"
-            >
-              <Send className="h-4 w-4" />
-            </Button>
+            {isStreaming ? (
+              <Button
+                type="button"
+                onClick={stopGeneration}
+                variant="outline"
+                size="icon"
+                title="Stop generating"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button 
+                type="submit" 
+                disabled={!input.trim() || isProcessing}
+                variant="hero"
+                size="icon"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
           </form>
         </div>
       </CardContent>
+
+      <AlertDialog open={!!budgetPrompt} onOpenChange={(open) => !open && answerBudgetPrompt(false)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Over your {budgetPrompt?.check.period} cloud budget</AlertDialogTitle>
+            <AlertDialogDescription>
+              {budgetPrompt && (
+                <>
+                  {formatUsd(budgetPrompt.check.spentUsd)} of your {formatUsd(budgetPrompt.check.limitUsd)} {budgetPrompt.check.period} budget
+                  is spent, and this request may cost up to {formatUsd(budgetPrompt.check.estimatedUsd)}. Send it anyway?
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => answerBudgetPrompt(false)}>Keep it local</AlertDialogCancel>
+            <AlertDialogAction onClick={() => answerBudgetPrompt(true)}>Send anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 };
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { CloudOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { cloudFallback } from "@/lib/cloud-fallback";
+import type { CircuitStatus } from "@/lib/cloud-resilience";
+
+interface CloudCircuitStatusProps {
+  className?: string;
+}
+
+// Shown while repeated failures have paused cloud calls; renders nothing otherwise
+export const CloudCircuitStatus = ({ className }: CloudCircuitStatusProps) => {
+  const [status, setStatus] = useState<CircuitStatus | null>(null);
+
+  useEffect(() => cloudFallback.onCircuitChange(setStatus), []);
+
+  // The breaker only notices the cool-down is over when asked, so ask once it should be
+  useEffect(() => {
+    if (status?.state !== 'open' || !status.retryAt) return;
+    const timer = setTimeout(() => cloudFallback.getStatus(), Math.max(0, status.retryAt.getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  if (status?.state !== 'open') return null;
+
+  return (
+    <div
+      className={cn("inline-flex items-center gap-2 px-3 py-1 rounded-full border text-sm font-medium bg-destructive/10 text-destructive border-destructive/20", className)}
+      title={status.lastError}
+    >
+      <CloudOff className="h-4 w-4" />
+      <span>Cloud paused until {status.retryAt?.toLocaleTimeString()}</span>
+      <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => cloudFallback.resetCircuit()}>
+        Resume
+      </Button>
+    </div>
+  );
+};
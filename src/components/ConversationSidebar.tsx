@@ -0,0 +1,193 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { MessageSquare, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import { localBackend, type ConversationRecord } from "@/lib/local-backend";
+import { useToast } from "@/hooks/use-toast";
+
+interface ConversationSidebarProps {
+  activeId: string | null;
+  onSelect: (id: string | null) => void;
+  refreshKey?: number;
+}
+
+export const ConversationSidebar = ({ activeId, onSelect, refreshKey }: ConversationSidebarProps) => {
+  const [conversations, setConversations] = useState<ConversationRecord[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<ConversationRecord | null>(null);
+  const { toast } = useToast();
+
+  const loadConversations = async () => {
+    try {
+      setConversations(await localBackend.getConversations());
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadConversations();
+  }, [refreshKey]);
+
+  const startRename = (conversation: ConversationRecord) => {
+    setRenamingId(conversation.id);
+    setRenameValue(conversation.title);
+  };
+
+  const renameConversation = async (id: string) => {
+    const title = renameValue.trim();
+    setRenamingId(null);
+    if (!title) return;
+
+    try {
+      await localBackend.renameConversation(id, title);
+      await loadConversations();
+    } catch (error) {
+      toast({
+        title: "Rename failed",
+        description: error instanceof Error ? error.message : "Failed to rename conversation.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteConversation = async (conversation: ConversationRecord) => {
+    setPendingDelete(null);
+    try {
+      await localBackend.deleteConversation(conversation.id);
+      if (conversation.id === activeId) {
+        onSelect(null);
+      }
+      await loadConversations();
+      toast({
+        title: "Conversation deleted",
+        description: `"${conversation.title}" has been removed from this device.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Failed to delete conversation.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Sidebar collapsible="none" className="hidden md:flex h-[600px] rounded-lg border">
+      <SidebarHeader>
+        <Button variant="outline" size="sm" className="w-full" onClick={() => onSelect(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Chat
+        </Button>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Conversations</SidebarGroupLabel>
+          <SidebarGroupContent>
+            {conversations.length === 0 ? (
+              <p className="px-2 py-4 text-xs text-muted-foreground">
+                Your conversations are saved locally and will appear here
+              </p>
+            ) : (
+              <SidebarMenu>
+                {conversations.map((conversation) => (
+                  <SidebarMenuItem key={conversation.id}>
+                    {renamingId === conversation.id ? (
+                      <form
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          renameConversation(conversation.id);
+                        }}
+                      >
+                        <Input
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onBlur={() => setRenamingId(null)}
+                          className="h-8 text-sm"
+                          autoFocus
+                        />
+                      </form>
+                    ) : (
+                      <>
+                        <SidebarMenuButton
+                          isActive={conversation.id === activeId}
+                          onClick={() => onSelect(conversation.id)}
+                        >
+                          <MessageSquare />
+                          <span>{conversation.title}</span>
+                        </SidebarMenuButton>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <SidebarMenuAction showOnHover>
+                              <MoreHorizontal />
+                            </SidebarMenuAction>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent side="right" align="start" onCloseAutoFocus={(e) => e.preventDefault()}>
+                            <DropdownMenuItem onClick={() => startRename(conversation)}>
+                              <Pencil className="h-4 w-4 mr-2" />
+                              Rename
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setPendingDelete(conversation)}>
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </>
+                    )}
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" will be permanently removed from this device.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingDelete && deleteConversation(pendingDelete)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+};
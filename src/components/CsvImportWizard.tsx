@@ -0,0 +1,262 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileSpreadsheet } from "lucide-react";
+import {
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  previewCsv,
+  sniffDelimiter,
+  streamCsv,
+  type CsvColumnType,
+  type CsvPreview,
+} from "@/lib/csv-parser";
+import { localBackend, type DatasetWriter } from "@/lib/local-backend";
+import { useToast } from "@/hooks/use-toast";
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)',
+};
+
+const COLUMN_TYPES: CsvColumnType[] = ['string', 'number', 'boolean', 'date'];
+const HEADER_ROW_CHOICES = 5;
+
+interface CsvImportWizardProps {
+  file: File | null;
+  onClose: () => void;
+  onImported: (datasetId: string, name: string) => void;
+}
+
+export const CsvImportWizard = ({ file, onClose, onImported }: CsvImportWizardProps) => {
+  const [name, setName] = useState("");
+  const [delimiter, setDelimiter] = useState(",");
+  const [encoding, setEncoding] = useState("utf-8");
+  const [headerRow, setHeaderRow] = useState(0);
+  const [columnTypes, setColumnTypes] = useState<Record<string, CsvColumnType>>({});
+  const [preview, setPreview] = useState<CsvPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const { toast } = useToast();
+
+  // Reset the wizard and guess the delimiter whenever a new file is picked
+  useEffect(() => {
+    if (!file) return;
+
+    setName(file.name);
+    setEncoding("utf-8");
+    setHeaderRow(0);
+    setColumnTypes({});
+    setProgress(0);
+    sniffDelimiter(file).then(setDelimiter).catch(() => setDelimiter(","));
+  }, [file]);
+
+  useEffect(() => {
+    if (!file) return;
+
+    let cancelled = false;
+    previewCsv(file, { delimiter, encoding, headerRow })
+      .then(result => {
+        if (cancelled) return;
+        setPreview(result);
+        setPreviewError(null);
+        // Keep explicit choices for columns that still exist
+        setColumnTypes(current => {
+          const next: Record<string, CsvColumnType> = {};
+          result.headers.forEach(header => {
+            next[header] = current[header] ?? result.inferredTypes[header];
+          });
+          return next;
+        });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setPreview(null);
+        setPreviewError(error instanceof Error ? error.message : 'Failed to read file.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, delimiter, encoding, headerRow]);
+
+  const runImport = async () => {
+    if (!file || !preview) return;
+
+    setIsImporting(true);
+    setProgress(0);
+    const datasetName = name.trim() || file.name;
+    let writer: DatasetWriter | undefined;
+
+    try {
+      writer = await localBackend.createDatasetWriter(datasetName);
+      const { rowCount, widerRows } = await streamCsv(
+        file,
+        { delimiter, encoding, headerRow, columnTypes },
+        preview.headers,
+        rows => writer.append(rows),
+        bytesRead => setProgress(Math.round((bytesRead / Math.max(file.size, 1)) * 100))
+      );
+      const datasetId = await writer.finish();
+
+      toast({
+        title: "Dataset imported",
+        description: `${datasetName} (${rowCount.toLocaleString()} rows) has been saved locally.`,
+      });
+      if (widerRows > 0) {
+        // Columns come from the preview, so fields past the last header are dropped
+        toast({
+          title: "Some values were not imported",
+          description: `${widerRows.toLocaleString()} ${widerRows === 1 ? 'row has' : 'rows have'} more fields than the ${preview.headers.length} columns in the header; the extra fields were left out.`,
+          variant: "destructive",
+        });
+      }
+      onImported(datasetId, datasetName);
+    } catch (error) {
+      await writer?.abort();
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to import CSV file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !isImporting && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import CSV
+          </DialogTitle>
+          <DialogDescription>
+            Check how {file?.name} will be read before it is saved to your device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="col-span-2 md:col-span-1 space-y-2">
+            <Label htmlFor="import-name">Dataset Name</Label>
+            <Input id="import-name" value={name} onChange={(e) => setName(e.target.value)} disabled={isImporting} />
+          </div>
+          <div className="space-y-2">
+            <Label>Delimiter</Label>
+            <Select value={delimiter} onValueChange={setDelimiter} disabled={isImporting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CSV_DELIMITERS.map(d => (
+                  <SelectItem key={d} value={d}>{DELIMITER_LABELS[d]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Encoding</Label>
+            <Select value={encoding} onValueChange={setEncoding} disabled={isImporting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CSV_ENCODINGS.map(e => (
+                  <SelectItem key={e} value={e}>{e.toUpperCase()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Header Row</Label>
+            <Select value={String(headerRow)} onValueChange={(v) => setHeaderRow(parseInt(v, 10))} disabled={isImporting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="-1">No header</SelectItem>
+                {Array.from({ length: HEADER_ROW_CHOICES }, (_, i) => (
+                  <SelectItem key={i} value={String(i)}>Row {i + 1}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {previewError ? (
+          <div className="bg-destructive/10 text-destructive rounded-lg p-3 text-sm">{previewError}</div>
+        ) : preview && (
+          <ScrollArea className="w-full max-h-[360px] rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {preview.headers.map(header => (
+                    <TableHead key={header} className="align-top py-2 min-w-[140px]">
+                      <div className="space-y-1">
+                        <div className="font-medium text-foreground whitespace-nowrap">{header}</div>
+                        <Select
+                          value={columnTypes[header] ?? 'string'}
+                          onValueChange={(v) => setColumnTypes(current => ({ ...current, [header]: v as CsvColumnType }))}
+                          disabled={isImporting}
+                        >
+                          <SelectTrigger className="h-7 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {COLUMN_TYPES.map(type => (
+                              <SelectItem key={type} value={type}>{type}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map((row, index) => (
+                  <TableRow key={index}>
+                    {preview.headers.map((header, column) => (
+                      <TableCell key={header} className="whitespace-pre font-mono text-xs">
+                        {row[column] ?? ''}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <ScrollBar orientation="horizontal" />
+          </ScrollArea>
+        )}
+
+        {isImporting && <Progress value={progress} />}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button variant="local" onClick={runImport} disabled={isImporting || !preview || preview.headers.length === 0}>
+            {isImporting ? `Importing... ${progress}%` : 'Import Dataset'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
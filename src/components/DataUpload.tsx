@@ -1,62 +1,87 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Upload, FileText, Trash2, BarChart3 } from "lucide-react";
-import { localBackend } from "@/lib/local-backend";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, FileText, Trash2, BarChart3, Pencil, Copy, RotateCcw, Check, X, Table2, Square } from "lucide-react";
+import { localBackend, DEFAULT_TRASH_RETENTION_DAYS, type DatasetRecord, type TrashedDataset } from "@/lib/local-backend";
 import { useToast } from "@/hooks/use-toast";
 import { ProcessingStatus } from "./ProcessingStatus";
+import { PyodideTerminatedError } from "@/lib/pyodide-client";
+import { DatasetGrid } from "./DatasetGrid";
+import { CsvImportWizard } from "./CsvImportWizard";
+import { DEFAULT_PII_SENSITIVITY, PII_SENSITIVITY_LABELS, type PiiSensitivity } from "@/lib/pii-redaction";
 
-interface Dataset {
-  id: string;
-  name: string;
-  data: any;
-  created: Date;
-  size: number;
-}
+type Dataset = DatasetRecord;
 
 export const DataUpload = () => {
   const [datasets, setDatasets] = useState<Dataset[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<any>(null);
+  const [trash, setTrash] = useState<TrashedDataset[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [previewDataset, setPreviewDataset] = useState<Dataset | null>(null);
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [runtimeMessage, setRuntimeMessage] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
   const loadDatasets = async () => {
     try {
-      const data = await localBackend.getDatasets();
+      const [data, trashed, days] = await Promise.all([
+        localBackend.getDatasets(),
+        localBackend.getTrash(),
+        localBackend.getTrashRetentionDays(),
+      ]);
       setDatasets(data);
+      setTrash(trashed);
+      setRetentionDays(days);
     } catch (error) {
       console.error('Failed to load datasets:', error);
     }
   };
 
-  // Load datasets on component mount
-  useState(() => {
+  // Load datasets on component mount, and again whenever another tab changes them
+  useEffect(() => {
     loadDatasets();
-  });
+    return localBackend.onChange((event, remote) => {
+      if (remote && (event.type !== 'setting-changed' || event.key === 'trashRetentionDays')) loadDatasets();
+    }, ['dataset-added', 'dataset-updated', 'dataset-removed', 'trash-changed', 'setting-changed']);
+  }, []);
+
+  useEffect(() => {
+    return localBackend.onPyodideProgress(progress => setRuntimeMessage(progress.message));
+  }, []);
+
+  const resetFileInput = () => {
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    // CSV files go through the import wizard so parsing options can be checked first
+    if (file.name.toLowerCase().endsWith('.csv')) {
+      setCsvFile(file);
+      return;
+    }
+
     setIsUploading(true);
     
     try {
-      const text = await file.text();
-      let data: any;
-      
-      if (file.name.endsWith('.json')) {
-        data = JSON.parse(text);
-      } else if (file.name.endsWith('.csv')) {
-        data = parseCSV(text);
-      } else {
+      if (!file.name.toLowerCase().endsWith('.json')) {
         throw new Error('Unsupported file type. Please upload CSV or JSON files.');
       }
 
-      const datasetId = await localBackend.saveDataset(file.name, data);
+      const data = JSON.parse(await file.text());
+      await localBackend.saveDataset(file.name, data);
       
       toast({
         title: "Dataset uploaded",
@@ -64,11 +89,7 @@ export const DataUpload = () => {
       });
       
       await loadDatasets();
-      
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+      resetFileInput();
       
     } catch (error) {
       toast({
@@ -81,24 +102,14 @@ export const DataUpload = () => {
     }
   };
 
-  const parseCSV = (text: string): any[] => {
-    const lines = text.trim().split('\n');
-    if (lines.length === 0) return [];
-    
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-    const rows = lines.slice(1).map(line => {
-      const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
-      const row: any = {};
-      headers.forEach((header, index) => {
-        const value = values[index] || '';
-        // Try to parse as number
-        const numValue = parseFloat(value);
-        row[header] = isNaN(numValue) ? value : numValue;
-      });
-      return row;
-    });
-    
-    return rows;
+  const closeCsvWizard = () => {
+    setCsvFile(null);
+    resetFileInput();
+  };
+
+  const handleCsvImported = async () => {
+    closeCsvWizard();
+    await loadDatasets();
   };
 
   const analyzeDataset = async (dataset: Dataset) => {
@@ -106,7 +117,7 @@ export const DataUpload = () => {
     setAnalysisResult(null);
     
     try {
-      const result = await localBackend.processDataLocally(dataset.data, 'summary');
+      const result = await localBackend.analyzeDataset(dataset.id, 'summary');
       setAnalysisResult({ ...result, datasetName: dataset.name });
       
       toast({
@@ -114,6 +125,13 @@ export const DataUpload = () => {
         description: "Dataset analysis finished locally.",
       });
     } catch (error) {
+      if (error instanceof PyodideTerminatedError) {
+        toast({
+          title: "Analysis stopped",
+          description: "The computation was cancelled.",
+        });
+        return;
+      }
       toast({
         title: "Analysis failed",
         description: error instanceof Error ? error.message : "Failed to analyze dataset.",
@@ -121,15 +139,106 @@ export const DataUpload = () => {
       });
     } finally {
       setIsProcessing(false);
+      setRuntimeMessage(null);
     }
   };
 
-  const deleteDataset = async (id: string) => {
-    // Note: In a real implementation, you'd need a delete method in localBackend
-    toast({
-      title: "Delete dataset",
-      description: "Dataset deletion would be implemented here.",
-    });
+  const stopAnalysis = () => {
+    localBackend.cancelDataProcessing();
+  };
+
+  const runDatasetAction = async (action: () => Promise<unknown>, title: string, description: string) => {
+    try {
+      await action();
+      toast({ title, description });
+    } catch (error) {
+      toast({
+        title: "Action failed",
+        description: error instanceof Error ? error.message : "Something went wrong.",
+        variant: "destructive",
+      });
+    } finally {
+      await loadDatasets();
+    }
+  };
+
+  const startRename = (dataset: Dataset) => {
+    setRenamingId(dataset.id);
+    setRenameValue(dataset.name);
+  };
+
+  const cancelRename = () => {
+    setRenamingId(null);
+    setRenameValue("");
+  };
+
+  const renameDataset = async (id: string) => {
+    const name = renameValue.trim();
+    cancelRename();
+    await runDatasetAction(
+      () => localBackend.renameDataset(id, name),
+      "Dataset renamed",
+      `Renamed to ${name}.`
+    );
+  };
+
+  const setSensitivity = async (dataset: Dataset, sensitivity: PiiSensitivity) => {
+    await runDatasetAction(
+      () => localBackend.setDatasetSensitivity(dataset.id, sensitivity),
+      "Redaction updated",
+      `${dataset.name}: ${PII_SENSITIVITY_LABELS[sensitivity]}.`
+    );
+  };
+
+  const duplicateDataset = async (dataset: Dataset) => {
+    await runDatasetAction(
+      () => localBackend.duplicateDataset(dataset.id),
+      "Dataset duplicated",
+      `A copy of ${dataset.name} has been saved locally.`
+    );
+  };
+
+  const deleteDataset = async (dataset: Dataset) => {
+    if (analysisResult?.datasetName === dataset.name) {
+      setAnalysisResult(null);
+    }
+    if (previewDataset?.id === dataset.id) {
+      setPreviewDataset(null);
+    }
+    await runDatasetAction(
+      () => localBackend.deleteDataset(dataset.id),
+      "Moved to trash",
+      `${dataset.name} can be restored for ${retentionDays} day(s).`
+    );
+  };
+
+  const restoreDataset = async (entry: TrashedDataset) => {
+    await runDatasetAction(
+      () => localBackend.restoreDataset(entry.id),
+      "Dataset restored",
+      `${entry.dataset.name} is back in your datasets.`
+    );
+  };
+
+  const purgeDataset = async (entry: TrashedDataset) => {
+    await runDatasetAction(
+      () => localBackend.purgeDataset(entry.id),
+      "Dataset deleted",
+      `${entry.dataset.name} has been permanently deleted.`
+    );
+  };
+
+  const emptyTrash = async () => {
+    await runDatasetAction(
+      () => localBackend.emptyTrash(),
+      "Trash emptied",
+      "All deleted datasets have been permanently removed."
+    );
+  };
+
+  const daysUntilPurge = (entry: TrashedDataset): number => {
+    const expiry = localBackend.getTrashExpiry(entry, retentionDays).getTime();
+    return Math.max(0, Math.ceil((expiry - Date.now()) / (24 * 60 * 60 * 1000)));
   };
 
   const formatFileSize = (bytes: number): string => {
@@ -175,6 +284,8 @@ export const DataUpload = () => {
         </CardContent>
       </Card>
 
+      <CsvImportWizard file={csvFile} onClose={closeCsvWizard} onImported={handleCsvImported} />
+
       {/* Datasets List */}
       <Card>
         <CardHeader>
@@ -197,14 +308,62 @@ export const DataUpload = () => {
                   <div className="flex-1">
                     <div className="flex items-center gap-2">
                       <FileText className="h-4 w-4 text-muted-foreground" />
-                      <span className="font-medium">{dataset.name}</span>
+                      {renamingId === dataset.id ? (
+                        <form
+                          className="flex items-center gap-1"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            renameDataset(dataset.id);
+                          }}
+                        >
+                          <Input
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Escape' && cancelRename()}
+                            className="h-8"
+                            autoFocus
+                          />
+                          <Button type="submit" variant="ghost" size="sm" disabled={!renameValue.trim()}>
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button type="button" variant="ghost" size="sm" onClick={cancelRename}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </form>
+                      ) : (
+                        <span className="font-medium">{dataset.name}</span>
+                      )}
                     </div>
-                    <div className="text-sm text-muted-foreground mt-1">
-                      {formatFileSize(dataset.size)} • {new Date(dataset.created).toLocaleDateString()}
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground mt-1">
+                      <span>
+                        {dataset.manifest.rowCount.toLocaleString()} rows • {formatFileSize(dataset.size)} • {new Date(dataset.created).toLocaleDateString()}
+                      </span>
+                      <Select
+                        value={dataset.sensitivity ?? DEFAULT_PII_SENSITIVITY}
+                        onValueChange={(v) => setSensitivity(dataset, v as PiiSensitivity)}
+                      >
+                        <SelectTrigger className="h-7 w-auto gap-1 text-xs" title="PII redaction before cloud calls">
+                          <span className="text-muted-foreground">PII:</span>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(PII_SENSITIVITY_LABELS) as PiiSensitivity[]).map(level => (
+                            <SelectItem key={level} value={level}>{PII_SENSITIVITY_LABELS[level]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                   </div>
                   
                   <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPreviewDataset(dataset)}
+                      title="Preview rows"
+                    >
+                      <Table2 className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="local"
                       size="sm"
@@ -217,7 +376,24 @@ export const DataUpload = () => {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => deleteDataset(dataset.id)}
+                      onClick={() => startRename(dataset)}
+                      title="Rename"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => duplicateDataset(dataset)}
+                      title="Duplicate"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteDataset(dataset)}
+                      title="Move to trash"
                     >
                       <Trash2 className="h-4 w-4" />
                     </Button>
@@ -229,6 +405,73 @@ export const DataUpload = () => {
         </CardContent>
       </Card>
 
+      {isProcessing && (
+        <div className="flex items-center justify-between p-3 border rounded-lg">
+          <div className="flex items-center gap-3">
+            <ProcessingStatus type="local" isProcessing />
+            {runtimeMessage && (
+              <span className="text-sm text-muted-foreground">{runtimeMessage}</span>
+            )}
+          </div>
+          <Button variant="outline" size="sm" onClick={stopAnalysis}>
+            <Square className="h-4 w-4 mr-1" />
+            Stop
+          </Button>
+        </div>
+      )}
+
+      {/* Row Preview */}
+      {previewDataset && (
+        <DatasetGrid dataset={previewDataset} onClose={() => setPreviewDataset(null)} />
+      )}
+
+      {/* Trash */}
+      {trash.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Trash2 className="h-5 w-5" />
+                Trash
+              </CardTitle>
+              <CardDescription>
+                Deleted datasets are kept for {retentionDays} day(s) before they are purged
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={emptyTrash}>
+              Empty Trash
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {trash.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between p-3 border rounded-lg border-dashed">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <FileText className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium text-muted-foreground">{entry.dataset.name}</span>
+                    </div>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      Deleted {new Date(entry.deletedAt).toLocaleDateString()} • purged in {daysUntilPurge(entry)} day(s)
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => restoreDataset(entry)}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => purgeDataset(entry)} title="Delete forever">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Analysis Results */}
       {analysisResult && (
         <Card>
@@ -246,8 +489,13 @@ export const DataUpload = () => {
                 <div>
                   <h4 className="font-medium mb-2">Dataset Shape</h4>
                   <p className="text-sm text-muted-foreground">
-                    {analysisResult.shape?.[0] || 0} rows × {analysisResult.shape?.[1] || 0} columns
+                    {analysisResult.totalRows ?? analysisResult.shape?.[0] ?? 0} rows × {analysisResult.shape?.[1] || 0} columns
                   </p>
+                  {analysisResult.sampled && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Analysis based on the first {analysisResult.analyzedRows.toLocaleString()} rows
+                    </p>
+                  )}
                 </div>
                 
                 <div>
@@ -0,0 +1,113 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Table2, X } from "lucide-react";
+import { localBackend, type DatasetRecord } from "@/lib/local-backend";
+import type { DatasetRow } from "@/lib/dataset-chunks";
+
+const PAGE_SIZE = 50;
+
+interface DatasetGridProps {
+  dataset: DatasetRecord;
+  onClose: () => void;
+}
+
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const DatasetGrid = ({ dataset, onClose }: DatasetGridProps) => {
+  const [page, setPage] = useState(0);
+  const [rows, setRows] = useState<DatasetRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { rowCount, columns } = dataset.manifest;
+  const pageCount = Math.max(1, Math.ceil(rowCount / PAGE_SIZE));
+
+  useEffect(() => {
+    setPage(0);
+  }, [dataset.id]);
+
+  // Only the visible page is read from storage
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    localBackend.getRows(dataset.id, page * PAGE_SIZE, PAGE_SIZE)
+      .then(pageRows => {
+        if (!cancelled) setRows(pageRows);
+      })
+      .catch(error => console.error('Failed to load rows:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataset.id, page]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Table2 className="h-5 w-5" />
+            {dataset.name}
+          </CardTitle>
+          <CardDescription>
+            {rowCount.toLocaleString()} rows × {columns.length} columns
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ScrollArea className="w-full rounded-lg border">
+          <Table className={isLoading ? "opacity-50" : undefined}>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16 text-right">#</TableHead>
+                {columns.map(column => (
+                  <TableHead key={column} className="whitespace-nowrap">{column}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => (
+                <TableRow key={page * PAGE_SIZE + index}>
+                  <TableCell className="text-right text-muted-foreground">{page * PAGE_SIZE + index + 1}</TableCell>
+                  {columns.map(column => (
+                    <TableCell key={column} className="whitespace-nowrap font-mono text-xs">
+                      {formatCell(row[column])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Page {page + 1} of {pageCount}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page === 0 || isLoading}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page >= pageCount - 1 || isLoading}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { KeyRound, Lock, LockOpen, ShieldCheck } from "lucide-react";
+import { localBackend, type EncryptionStatus } from "@/lib/local-backend";
+import { WrongPassphraseError } from "@/lib/vault";
+import { useToast } from "@/hooks/use-toast";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const AUTO_LOCK_OPTIONS: Array<{ minutes: number; label: string }> = [
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+  { minutes: 0, label: 'Never' },
+];
+
+const checkNewPassphrase = (passphrase: string, confirmation: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+  if (passphrase !== confirmation) throw new Error("The passphrases do not match.");
+};
+
+// Passphrase encryption of everything stored on this device
+export const EncryptionPanel = () => {
+  const [status, setStatus] = useState<EncryptionStatus>(localBackend.getEncryptionStatus());
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    return localBackend.onChange(() => setStatus(localBackend.getEncryptionStatus()), ['encryption-changed']);
+  }, []);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      setCurrent("");
+      setNext("");
+      setConfirmation("");
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof WrongPassphraseError
+          ? "The current passphrase is not correct."
+          : error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setStatus(localBackend.getEncryptionStatus());
+      setIsBusy(false);
+    }
+  };
+
+  const enable = () => run(async () => {
+    checkNewPassphrase(next, confirmation);
+    await localBackend.enableEncryption(next, status.autoLockMinutes);
+    toast({ title: "Encryption enabled", description: "Local data is now encrypted with your passphrase." });
+  }, "Failed to enable encryption");
+
+  const changePassphrase = () => run(async () => {
+    checkNewPassphrase(next, confirmation);
+    await localBackend.changePassphrase(current, next);
+    toast({ title: "Passphrase changed", description: "Use the new passphrase to unlock from now on." });
+  }, "Failed to change passphrase");
+
+  const disable = () => run(async () => {
+    await localBackend.disableEncryption(current);
+    toast({ title: "Encryption disabled", description: "Local data is stored unencrypted again." });
+  }, "Failed to disable encryption");
+
+  const setAutoLock = (minutes: number) => run(async () => {
+    await localBackend.setAutoLockMinutes(minutes);
+  }, "Failed to save auto-lock setting");
+
+  return (
+    <Card className="w-full max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Encryption at Rest
+          <Badge variant={status.enabled ? 'default' : 'secondary'}>{status.enabled ? 'On' : 'Off'}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Encrypt datasets, conversations, API keys and the cloud audit log on this device with a passphrase.
+          Anyone using this browser will need the passphrase to read them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          {status.enabled && (
+            <div className="space-y-2">
+              <Label htmlFor="encryption-current">Current Passphrase</Label>
+              <Input
+                id="encryption-current"
+                type="password"
+                autoComplete="current-password"
+                value={current}
+                onChange={(e) => setCurrent(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="encryption-next">{status.enabled ? 'New Passphrase' : 'Passphrase'}</Label>
+              <Input
+                id="encryption-next"
+                type="password"
+                autoComplete="new-password"
+                value={next}
+                onChange={(e) => setNext(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="encryption-confirm">Confirm Passphrase</Label>
+              <Input
+                id="encryption-confirm"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            The passphrase is never stored and cannot be reset. If you forget it, encrypted data cannot be recovered.
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {status.enabled ? (
+              <>
+                <Button onClick={changePassphrase} disabled={isBusy || !current || !next}>
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  Change Passphrase
+                </Button>
+                <Button variant="outline" onClick={disable} disabled={isBusy || !current}>
+                  <LockOpen className="h-4 w-4 mr-2" />
+                  Disable Encryption
+                </Button>
+              </>
+            ) : (
+              <Button variant="local" onClick={enable} disabled={isBusy || !next}>
+                <Lock className="h-4 w-4 mr-2" />
+                {isBusy ? 'Encrypting...' : 'Enable Encryption'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <Label>Auto-Lock</Label>
+            <Select
+              value={String(status.autoLockMinutes)}
+              onValueChange={(v) => setAutoLock(Number(v))}
+              disabled={!status.enabled || isBusy}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTO_LOCK_OPTIONS.map(option => (
+                  <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="text-xs text-muted-foreground">Lock this tab after a period without interaction</div>
+          </div>
+          <Button variant="outline" onClick={() => localBackend.lock()} disabled={!status.enabled || isBusy}>
+            <Lock className="h-4 w-4 mr-2" />
+            Lock Now
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
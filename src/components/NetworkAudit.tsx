@@ -0,0 +1,222 @@
+import { Fragment, useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ChevronRight, Download, Search, ShieldCheck, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { localBackend, type CloudAuditEntry } from "@/lib/local-backend";
+import { LLM_PROVIDERS } from "@/lib/llm-providers";
+import { entryCost, formatUsd } from "@/lib/usage-budget";
+import { useToast } from "@/hooks/use-toast";
+
+const FEATURE_LABELS: Record<CloudAuditEntry['feature'], string> = {
+  chat: 'Chat',
+  'dataset-question': 'Dataset question',
+  enhance: 'Enhance result',
+};
+
+const STATUS_VARIANTS: Record<CloudAuditEntry['status'], "secondary" | "destructive" | "outline"> = {
+  success: 'secondary',
+  error: 'destructive',
+  aborted: 'outline',
+};
+
+// Searches everything a reviewer might look for, including the message text itself
+const matchesSearch = (entry: CloudAuditEntry, query: string) => {
+  const haystack = [
+    LLM_PROVIDERS[entry.provider]?.label ?? entry.provider,
+    entry.model,
+    FEATURE_LABELS[entry.feature],
+    entry.status,
+    entry.error ?? '',
+    entry.response,
+    ...entry.messages.map(m => m.content),
+  ].join('\n').toLowerCase();
+  return haystack.includes(query.toLowerCase());
+};
+
+export const NetworkAudit = () => {
+  const [entries, setEntries] = useState<CloudAuditEntry[]>([]);
+  const [search, setSearch] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [confirmPurge, setConfirmPurge] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const load = () => {
+      localBackend.getAuditLog()
+        .then(setEntries)
+        .catch(error => console.error('Failed to load audit log:', error));
+    };
+    load();
+    return localBackend.onAuditLogChange(load);
+  }, []);
+
+  const filtered = useMemo(
+    () => search.trim() ? entries.filter(entry => matchesSearch(entry, search.trim())) : entries,
+    [entries, search]
+  );
+
+  const exportLog = () => {
+    const blob = new Blob([JSON.stringify(filtered, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `network-audit-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const purgeLog = async () => {
+    try {
+      await localBackend.clearAuditLog();
+      setExpandedId(null);
+      toast({ title: "Audit log purged", description: "All recorded cloud requests were removed from this device. Spend towards your budgets still counts." });
+    } catch (error) {
+      toast({
+        title: "Purge failed",
+        description: error instanceof Error ? error.message : "Failed to clear the audit log.",
+        variant: "destructive",
+      });
+    } finally {
+      setConfirmPurge(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Network Audit
+        </CardTitle>
+        <CardDescription>
+          Every request sent to a cloud model, exactly as it left this device. The log is stored locally.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search provider, model, feature or message text..."
+              className="pl-8"
+            />
+          </div>
+          <Button variant="outline" onClick={exportLog} disabled={filtered.length === 0}>
+            <Download className="h-4 w-4 mr-1" />
+            Export{search.trim() ? ' matches' : ''}
+          </Button>
+          <Button variant="outline" onClick={() => setConfirmPurge(true)} disabled={entries.length === 0}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Purge
+          </Button>
+        </div>
+
+        {filtered.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            {entries.length === 0 ? 'No cloud requests have been made.' : 'No requests match your search.'}
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-6" />
+                  <TableHead>Time</TableHead>
+                  <TableHead>Feature</TableHead>
+                  <TableHead>Provider / Model</TableHead>
+                  <TableHead className="text-right">Tokens (in / out)</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Latency</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map(entry => {
+                  const expanded = expandedId === entry.id;
+                  return (
+                    <Fragment key={entry.id}>
+                      <TableRow className="cursor-pointer" onClick={() => setExpandedId(expanded ? null : entry.id)}>
+                        <TableCell className="px-2">
+                          <ChevronRight className={cn("h-4 w-4 transition-transform", expanded && "rotate-90")} />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{entry.timestamp.toLocaleString()}</TableCell>
+                        <TableCell>{FEATURE_LABELS[entry.feature]}</TableCell>
+                        <TableCell>
+                          <div>{LLM_PROVIDERS[entry.provider]?.label ?? entry.provider}</div>
+                          <div className="text-xs text-muted-foreground">{entry.model}</div>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap" title={entry.tokensEstimated ? 'Estimated; the provider reported no usage' : undefined}>
+                          {entry.tokensEstimated && '~'}{entry.inputTokens.toLocaleString()} / {entry.outputTokens.toLocaleString()}
+                        </TableCell>
+                        <TableCell
+                          className="text-right whitespace-nowrap"
+                          title={entry.estimatedCostUsd !== undefined ? `Estimated before sending: up to ${formatUsd(entry.estimatedCostUsd)}` : undefined}
+                        >
+                          {formatUsd(entryCost(entry))}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">{entry.latencyMs.toLocaleString()} ms</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[entry.status]} title={entry.error}>{entry.status}</Badge>
+                        </TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow className="hover:bg-transparent">
+                          <TableCell colSpan={8} className="space-y-2 bg-muted/30">
+                            {entry.error && <div className="text-sm text-destructive">{entry.error}</div>}
+                            <div className="text-xs font-medium">Sent</div>
+                            <pre className="max-h-72 overflow-auto rounded-md border bg-muted p-2 font-mono text-[11px] whitespace-pre-wrap break-all">
+                              {JSON.stringify(entry.messages, null, 2)}
+                            </pre>
+                            <div className="text-xs font-medium">Received</div>
+                            <pre className="max-h-48 overflow-auto rounded-md border bg-muted p-2 font-mono text-[11px] whitespace-pre-wrap">
+                              {entry.response || '(empty)'}
+                            </pre>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="text-xs text-muted-foreground">
+          {filtered.length} of {entries.length} request(s) shown
+        </div>
+      </CardContent>
+
+      <AlertDialog open={confirmPurge} onOpenChange={setConfirmPurge}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Purge the audit log?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {entries.length} recorded request(s) will be permanently removed. Export the log first if you need to keep a copy.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={purgeLog}>Purge</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
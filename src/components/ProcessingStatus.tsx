@@ -1,8 +1,9 @@
 import { cn } from "@/lib/utils";
-import { Cpu, Cloud, Wifi, WifiOff } from "lucide-react";
+import { Cpu, Cloud, Server, Wifi, WifiOff } from "lucide-react";
+import type { ProcessingType } from "@/lib/local-backend";
 
 interface ProcessingStatusProps {
-  type: 'local' | 'cloud' | 'offline';
+  type: ProcessingType | 'offline';
   isProcessing?: boolean;
   className?: string;
 }
@@ -12,6 +13,8 @@ export const ProcessingStatus = ({ type, isProcessing, className }: ProcessingSt
     switch (type) {
       case 'local':
         return <Cpu className="h-4 w-4" />;
+      case 'local-model':
+        return <Server className="h-4 w-4" />;
       case 'cloud':
         return <Cloud className="h-4 w-4" />;
       case 'offline':
@@ -25,6 +28,8 @@ export const ProcessingStatus = ({ type, isProcessing, className }: ProcessingSt
     switch (type) {
       case 'local':
         return 'bg-local/10 text-local border-local/20';
+      case 'local-model':
+        return 'bg-local/10 text-local border-local/40 border-dashed';
       case 'cloud':
         return 'bg-cloud/10 text-cloud border-cloud/20';
       case 'offline':
@@ -38,6 +43,8 @@ export const ProcessingStatus = ({ type, isProcessing, className }: ProcessingSt
     switch (type) {
       case 'local':
         return 'Local Processing';
+      case 'local-model':
+        return 'Local Model';
       case 'cloud':
         return 'Cloud Enhanced';
       case 'offline':
@@ -0,0 +1,60 @@
+import { Button } from "@/components/ui/button";
+import { Clock, RotateCw, Send, X } from "lucide-react";
+import type { QueuedCloudRequest } from "@/lib/local-backend";
+import { offlineQueue } from "@/lib/offline-queue";
+import { formatUsd } from "@/lib/usage-budget";
+import { useToast } from "@/hooks/use-toast";
+
+interface QueuedRequestStatusProps {
+  request: QueuedCloudRequest;
+}
+
+const STATUS_LABELS: Record<QueuedCloudRequest['status'], string> = {
+  pending: 'Queued for the cloud',
+  sending: 'Sending to the cloud...',
+  'awaiting-confirmation': 'Over your cloud budget',
+  failed: 'Cloud request failed',
+};
+
+// Shown under a local reply whose cloud answer is waiting in the offline queue
+export const QueuedRequestStatus = ({ request }: QueuedRequestStatusProps) => {
+  const { toast } = useToast();
+
+  const run = (action: () => Promise<void>) => {
+    action().catch(error => {
+      toast({
+        title: "Queue update failed",
+        description: error instanceof Error ? error.message : "Failed to update the offline queue.",
+        variant: "destructive",
+      });
+    });
+  };
+
+  const budget = request.budget;
+
+  return (
+    <span className="inline-flex items-center gap-1 text-muted-foreground" title={request.error}>
+      <Clock className="h-3 w-3" />
+      {STATUS_LABELS[request.status]}
+      {request.status === 'awaiting-confirmation' && budget && (
+        <>
+          {` (${formatUsd(budget.spentUsd)} of ${formatUsd(budget.limitUsd)} ${budget.period} spent, up to ${formatUsd(budget.estimatedUsd)} more). Send it anyway?`}
+          <Button variant="ghost" size="sm" className="h-5 px-1 text-xs" onClick={() => run(() => offlineQueue.approveOverBudget(request.id))}>
+            <Send className="h-3 w-3 mr-1" />
+            Send anyway
+          </Button>
+        </>
+      )}
+      {request.status === 'failed' && (
+        <Button variant="ghost" size="sm" className="h-5 px-1 text-xs" onClick={() => run(() => offlineQueue.retry(request.id))}>
+          <RotateCw className="h-3 w-3 mr-1" />
+          Retry
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" className="h-5 px-1 text-xs" onClick={() => run(() => offlineQueue.cancel(request.id))}>
+        <X className="h-3 w-3 mr-1" />
+        Cancel
+      </Button>
+    </span>
+  );
+};
@@ -0,0 +1,51 @@
+import { cn } from "@/lib/utils";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { TableResult } from "@/lib/data-operations";
+
+// Chat bubbles stay readable; the full result is one question away
+const MAX_VISIBLE_ROWS = 20;
+
+interface ResultTableProps {
+  table: TableResult;
+  className?: string;
+}
+
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  return String(value);
+};
+
+export const ResultTable = ({ table, className }: ResultTableProps) => {
+  const rows = table.rows.slice(0, MAX_VISIBLE_ROWS);
+
+  return (
+    <div className={cn("rounded-md border bg-background text-xs", className)}>
+      <div className="max-h-72 overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {table.columns.map(column => (
+                <TableHead key={column} className="h-8 px-2 whitespace-nowrap">{column}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, i) => (
+              <TableRow key={i}>
+                {table.columns.map(column => (
+                  <TableCell key={column} className="px-2 py-1 whitespace-nowrap">{formatCell(row[column])}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {table.rowCount > rows.length && (
+        <p className="border-t px-2 py-1 text-muted-foreground">
+          Showing {rows.length} of {table.rowCount.toLocaleString()} rows
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import { useState } from "react";
+import { ChevronRight, Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { LlmMessage } from "@/lib/llm-providers";
+import { findPlaceholders } from "@/lib/pii-redaction";
+
+interface SentPayloadProps {
+  messages: LlmMessage[];
+  className?: string;
+}
+
+// Shows the messages a cloud reply was generated from, exactly as they were sent
+export const SentPayload = ({ messages, className }: SentPayloadProps) => {
+  const [open, setOpen] = useState(false);
+  const text = JSON.stringify(messages, null, 2);
+  const size = new Blob([text]).size;
+  const redacted = findPlaceholders(text).length;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className={cn("text-xs", className)}>
+      <CollapsibleTrigger className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground">
+        <ChevronRight className={cn("h-3 w-3 transition-transform", open && "rotate-90")} />
+        <Upload className="h-3 w-3" />
+        Sent to the cloud ({size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`}
+        {redacted > 0 && `, ${redacted} value${redacted === 1 ? '' : 's'} redacted`})
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <pre className="mt-1 max-h-72 overflow-auto rounded-md border bg-muted p-2 font-mono text-[11px] whitespace-pre-wrap break-all">
+          {text}
+        </pre>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
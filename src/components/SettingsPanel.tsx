@@ -5,50 +5,188 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { Settings, Eye, EyeOff, Save, Trash2 } from "lucide-react";
-import { localBackend } from "@/lib/local-backend";
-import { cloudFallback } from "@/lib/cloud-fallback";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Settings, Eye, EyeOff, Save, Trash2, Activity } from "lucide-react";
+import { localBackend, DEFAULT_TRASH_RETENTION_DAYS } from "@/lib/local-backend";
+import {
+  DEFAULT_PYODIDE_SOURCE,
+  PYODIDE_SOURCE_LABELS,
+  clearPyodideCache,
+  type PyodideRuntimeInfo,
+  type PyodideSource,
+} from "@/lib/pyodide-runtime";
+import { cloudFallback, type LlmProviderSettings } from "@/lib/cloud-fallback";
+import { connectivity } from "@/lib/connectivity";
+import {
+  DEFAULT_LLM_PROVIDER,
+  LLM_PROVIDERS,
+  createLlmProvider,
+  defaultProviderConfig,
+  isLlmProviderId,
+  type LlmHealth,
+  type LlmModel,
+  type LlmProviderConfig,
+  type LlmProviderId,
+} from "@/lib/llm-providers";
+import { localModel, DEFAULT_LOCAL_MODEL_CONFIG, type LocalModelConfig } from "@/lib/local-model";
+import {
+  DEFAULT_PII_SENSITIVITY,
+  PII_SENSITIVITY_LABELS,
+  isPiiSensitivity,
+  type PiiSensitivity,
+} from "@/lib/pii-redaction";
+import { getBudgetSettings, type BudgetSettings } from "@/lib/usage-budget";
 import { useToast } from "@/hooks/use-toast";
 import { ProcessingStatus } from "./ProcessingStatus";
 
 export const SettingsPanel = () => {
   const [cloudEnabled, setCloudEnabled] = useState(false);
-  const [apiKey, setApiKey] = useState("");
+  const [provider, setProvider] = useState<LlmProviderId>(DEFAULT_LLM_PROVIDER);
+  const [providerConfigs, setProviderConfigs] = useState<LlmProviderSettings>({});
+  const [models, setModels] = useState<LlmModel[]>([]);
+  const [localModelConfig, setLocalModelConfig] = useState<LocalModelConfig>(DEFAULT_LOCAL_MODEL_CONFIG);
+  const [localModels, setLocalModels] = useState<LlmModel[]>([]);
+  const [localHealth, setLocalHealth] = useState<LlmHealth | null>(null);
+  const [isCheckingLocal, setIsCheckingLocal] = useState(false);
   const [showApiKey, setShowApiKey] = useState(false);
+  const [piiSensitivity, setPiiSensitivity] = useState<PiiSensitivity>(DEFAULT_PII_SENSITIVITY);
+  const [dailyBudget, setDailyBudget] = useState("");
+  const [monthlyBudget, setMonthlyBudget] = useState("");
+  const [onBudgetExceeded, setOnBudgetExceeded] = useState<BudgetSettings['onExceed']>('confirm');
+  const [trashRetentionDays, setTrashRetentionDays] = useState(String(DEFAULT_TRASH_RETENTION_DAYS));
+  const [pyodideSource, setPyodideSource] = useState<PyodideSource>(DEFAULT_PYODIDE_SOURCE);
+  const [savedPyodideSource, setSavedPyodideSource] = useState<PyodideSource>(DEFAULT_PYODIDE_SOURCE);
+  const [runtime, setRuntime] = useState<PyodideRuntimeInfo | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
     loadSettings();
+    // Settings saved in another tab replace what this one shows
+    return localBackend.onChange((_, remote) => {
+      if (remote) loadSettings();
+    }, ['setting-changed']);
+  }, []);
+
+  useEffect(() => {
+    return localBackend.onPyodideRuntimeChange(setRuntime);
   }, []);
 
   const loadSettings = async () => {
     try {
       const enabled = await localBackend.getSetting('cloudEnabled');
-      const key = await localBackend.getSetting('gptApiKey');
+      const savedProvider = await localBackend.getSetting('llmProvider');
+      const configs: LlmProviderSettings = (await localBackend.getSetting('llmProviders')) || {};
+      const savedLocalModel = await localBackend.getSetting('localModel');
+      const savedSensitivity = await localBackend.getSetting('piiSensitivity');
+      const budget = await getBudgetSettings();
+      const retention = await localBackend.getTrashRetentionDays();
+      const source = await localBackend.getPyodideSource();
       
       setCloudEnabled(enabled || false);
-      setApiKey(key || "");
+      setProvider(isLlmProviderId(savedProvider) ? savedProvider : DEFAULT_LLM_PROVIDER);
+      setProviderConfigs(configs);
+      setLocalModelConfig({ ...DEFAULT_LOCAL_MODEL_CONFIG, ...savedLocalModel });
+      setPiiSensitivity(isPiiSensitivity(savedSensitivity) ? savedSensitivity : DEFAULT_PII_SENSITIVITY);
+      setDailyBudget(budget.dailyUsd === null ? "" : String(budget.dailyUsd));
+      setMonthlyBudget(budget.monthlyUsd === null ? "" : String(budget.monthlyUsd));
+      setOnBudgetExceeded(budget.onExceed);
+      setTrashRetentionDays(String(retention));
+      setPyodideSource(source);
+      setSavedPyodideSource(source);
       
       cloudFallback.setEnabled(enabled || false);
-      if (key) {
-        cloudFallback.setApiKey(key);
+      cloudFallback.setProviderConfigs(configs);
+      if (isLlmProviderId(savedProvider)) {
+        cloudFallback.setProvider(savedProvider);
       }
+      localModel.setConfig(savedLocalModel);
     } catch (error) {
       console.error('Failed to load settings:', error);
     }
   };
 
+  const config: LlmProviderConfig = { ...defaultProviderConfig(provider), ...providerConfigs[provider] };
+  const providerInfo = LLM_PROVIDERS[provider];
+
+  const updateConfig = (changes: Partial<LlmProviderConfig>) => {
+    setProviderConfigs(current => ({ ...current, [provider]: { ...config, ...changes } }));
+  };
+
+  const selectProvider = (id: LlmProviderId) => {
+    setProvider(id);
+    setModels([]);
+  };
+
+  const updateLocalModel = (changes: Partial<LocalModelConfig>) => {
+    setLocalModelConfig(current => ({ ...current, ...changes }));
+    setLocalHealth(null);
+  };
+
+  const checkLocalModel = async () => {
+    setIsCheckingLocal(true);
+    try {
+      const health = await localModel.healthCheck(localModelConfig);
+      setLocalHealth(health);
+      setLocalModels(health.ok ? await localModel.listModels(localModelConfig) : []);
+    } catch (error) {
+      setLocalHealth({ ok: false, latencyMs: 0, error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsCheckingLocal(false);
+    }
+  };
+
   const saveSettings = async () => {
+    const retention = parseInt(trashRetentionDays, 10);
+    if (!Number.isFinite(retention) || retention < 1) {
+      toast({
+        title: "Invalid retention period",
+        description: "Trash retention must be at least 1 day.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // An empty field means no budget for that period
+    const parseBudget = (value: string) => value.trim() === "" ? null : Number(value);
+    const budget: BudgetSettings = {
+      dailyUsd: parseBudget(dailyBudget),
+      monthlyUsd: parseBudget(monthlyBudget),
+      onExceed: onBudgetExceeded,
+    };
+    if ([budget.dailyUsd, budget.monthlyUsd].some(limit => limit !== null && !(Number.isFinite(limit) && limit >= 0))) {
+      toast({
+        title: "Invalid budget",
+        description: "Budgets must be a dollar amount of 0 or more, or left empty.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoading(true);
     try {
       await localBackend.setSetting('cloudEnabled', cloudEnabled);
-      await localBackend.setSetting('gptApiKey', apiKey);
+      await localBackend.setSetting('cloudBudget', budget);
+      await localBackend.setSetting('llmProvider', provider);
+      await localBackend.setSetting('llmProviders', providerConfigs);
+      await localBackend.setSetting('localModel', localModelConfig);
+      await localBackend.setSetting('piiSensitivity', piiSensitivity);
+      await localBackend.setSetting('trashRetentionDays', retention);
+      await localBackend.purgeExpiredTrash();
+
+      if (pyodideSource !== savedPyodideSource) {
+        setSavedPyodideSource(pyodideSource);
+        // Reload in the background; the status badge follows along
+        localBackend.setPyodideSource(pyodideSource);
+      }
       
       cloudFallback.setEnabled(cloudEnabled);
-      if (apiKey) {
-        cloudFallback.setApiKey(apiKey);
-      }
+      cloudFallback.setProvider(provider);
+      cloudFallback.setProviderConfigs(providerConfigs);
+      localModel.setConfig(localModelConfig);
+      // Probing starts or stops with cloud processing
+      connectivity.check();
       
       toast({
         title: "Settings saved",
@@ -66,20 +204,21 @@ export const SettingsPanel = () => {
   };
 
   const clearApiKey = async () => {
-    setApiKey("");
-    await localBackend.setSetting('gptApiKey', "");
-    cloudFallback.setApiKey("");
+    const configs = { ...providerConfigs, [provider]: { ...config, apiKey: "" } };
+    setProviderConfigs(configs);
+    await localBackend.setSetting('llmProviders', configs);
+    cloudFallback.setProviderConfigs(configs);
     toast({
       title: "API key cleared",
-      description: "Your API key has been removed.",
+      description: `Your ${providerInfo.label} API key has been removed.`,
     });
   };
 
   const testConnection = async () => {
-    if (!apiKey || !cloudEnabled) {
+    if (!cloudEnabled) {
       toast({
         title: "Test failed",
-        description: "Please enable cloud processing and enter an API key first.",
+        description: "Please enable cloud processing first.",
         variant: "destructive",
       });
       return;
@@ -87,14 +226,16 @@ export const SettingsPanel = () => {
 
     setIsLoading(true);
     try {
-      cloudFallback.setApiKey(apiKey);
-      cloudFallback.setEnabled(true);
-      
-      await cloudFallback.chatWithGPT("Test message - please respond with 'Connection successful'");
-      
+      const client = createLlmProvider(provider, config);
+      const health = await client.healthCheck();
+      if (!health.ok) {
+        throw new Error(health.error);
+      }
+      setModels(await client.listModels());
+
       toast({
         title: "Connection successful",
-        description: "GPT API is working correctly.",
+        description: `${providerInfo.label} responded in ${health.latencyMs} ms.`,
       });
     } catch (error) {
       toast({
@@ -107,7 +248,16 @@ export const SettingsPanel = () => {
     }
   };
 
+  const clearRuntimeCache = async () => {
+    await clearPyodideCache();
+    toast({
+      title: "Runtime cache cleared",
+      description: "The Python runtime will be downloaded again on next use.",
+    });
+  };
+
   const status = cloudFallback.getStatus();
+  const localModelStatus = localModel.getStatus();
 
   return (
     <Card className="w-full max-w-2xl">
@@ -127,7 +277,10 @@ export const SettingsPanel = () => {
             <Label className="text-sm font-medium">Current Mode</Label>
             <div className="flex gap-2">
               <ProcessingStatus type="local" />
-              {status.hasApiKey && status.isEnabled && (
+              {localModelStatus.isConfigured && localModelStatus.isEnabled && (
+                <ProcessingStatus type="local-model" />
+              )}
+              {status.isConfigured && status.isEnabled && (
                 <ProcessingStatus type="cloud" />
               )}
             </div>
@@ -136,6 +289,75 @@ export const SettingsPanel = () => {
 
         <Separator />
 
+        {/* Local Model Server */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="local-model-toggle" className="text-base">
+              Use Local Model Server
+            </Label>
+            <div className="text-sm text-muted-foreground">
+              Ask an OpenAI-compatible server on this machine (Ollama, llama.cpp) before any cloud call
+            </div>
+          </div>
+          <Switch
+            id="local-model-toggle"
+            checked={localModelConfig.enabled}
+            onCheckedChange={(enabled) => updateLocalModel({ enabled })}
+          />
+        </div>
+
+        {localModelConfig.enabled && (
+          <div className="space-y-3">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="local-model-url">Server URL</Label>
+                <Input
+                  id="local-model-url"
+                  placeholder={DEFAULT_LOCAL_MODEL_CONFIG.baseUrl}
+                  value={localModelConfig.baseUrl}
+                  onChange={(e) => updateLocalModel({ baseUrl: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="local-model-name">Model</Label>
+                <Input
+                  id="local-model-name"
+                  list="local-models"
+                  placeholder="llama3.2"
+                  value={localModelConfig.model}
+                  onChange={(e) => updateLocalModel({ model: e.target.value })}
+                />
+                <datalist id="local-models">
+                  {localModels.map(model => (
+                    <option key={model.id} value={model.id}>{model.label}</option>
+                  ))}
+                </datalist>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="sm" onClick={checkLocalModel} disabled={isCheckingLocal || !localModelConfig.baseUrl.trim()}>
+                <Activity className="h-4 w-4 mr-2" />
+                {isCheckingLocal ? "Checking..." : "Check Server"}
+              </Button>
+              {localHealth && (
+                <Badge variant={localHealth.ok ? 'secondary' : 'destructive'}>
+                  {localHealth.ok
+                    ? `Reachable · ${localHealth.latencyMs} ms · ${localModels.length} model(s)`
+                    : 'Unreachable'}
+                </Badge>
+              )}
+            </div>
+            {localHealth?.error && (
+              <div className="text-xs text-muted-foreground">{localHealth.error}</div>
+            )}
+            <div className="text-xs text-muted-foreground">
+              The server must allow requests from this page's origin (for Ollama, set OLLAMA_ORIGINS)
+            </div>
+          </div>
+        )}
+
+        <Separator />
+
         {/* Cloud Processing Toggle */}
         <div className="flex items-center justify-between">
           <div className="space-y-0.5">
@@ -143,7 +365,7 @@ export const SettingsPanel = () => {
               Allow Cloud Processing
             </Label>
             <div className="text-sm text-muted-foreground">
-              Enable optional GPT API calls for enhanced capabilities
+              Enable optional cloud LLM calls for enhanced capabilities
             </div>
           </div>
           <Switch
@@ -153,45 +375,200 @@ export const SettingsPanel = () => {
           />
         </div>
 
-        {/* API Key Configuration */}
+        {/* Provider Configuration */}
         {cloudEnabled && (
-          <div className="space-y-3">
-            <Label htmlFor="api-key">OpenAI API Key</Label>
-            <div className="flex gap-2">
-              <div className="relative flex-1">
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Provider</Label>
+                <Select value={provider} onValueChange={(v) => selectProvider(v as LlmProviderId)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(LLM_PROVIDERS) as LlmProviderId[]).map(id => (
+                      <SelectItem key={id} value={id}>{LLM_PROVIDERS[id].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="llm-model">Model</Label>
                 <Input
-                  id="api-key"
-                  type={showApiKey ? "text" : "password"}
-                  placeholder="sk-..."
-                  value={apiKey}
-                  onChange={(e) => setApiKey(e.target.value)}
+                  id="llm-model"
+                  list="llm-models"
+                  placeholder={providerInfo.defaultModel || "model name"}
+                  value={config.model}
+                  onChange={(e) => updateConfig({ model: e.target.value })}
                 />
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="absolute right-1 top-1 h-8 w-8 p-0"
-                  onClick={() => setShowApiKey(!showApiKey)}
-                >
-                  {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                </Button>
+                <datalist id="llm-models">
+                  {models.map(model => (
+                    <option key={model.id} value={model.id}>{model.label}</option>
+                  ))}
+                </datalist>
               </div>
-              {apiKey && (
-                <Button
-                  variant="outline"
-                  size="icon"
-                  onClick={clearApiKey}
-                  className="shrink-0"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              )}
             </div>
-            <div className="text-xs text-muted-foreground">
-              Your API key is stored locally and never sent to our servers
+
+            {provider === 'openai-compatible' && (
+              <div className="space-y-2">
+                <Label htmlFor="llm-base-url">Base URL</Label>
+                <Input
+                  id="llm-base-url"
+                  placeholder="https://example.com/v1"
+                  value={config.baseUrl ?? ""}
+                  onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="api-key">{providerInfo.label} API Key</Label>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Input
+                    id="api-key"
+                    type={showApiKey ? "text" : "password"}
+                    placeholder={providerInfo.keyPlaceholder}
+                    value={config.apiKey}
+                    onChange={(e) => updateConfig({ apiKey: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="absolute right-1 top-1 h-8 w-8 p-0"
+                    onClick={() => setShowApiKey(!showApiKey)}
+                  >
+                    {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                </div>
+                {config.apiKey && (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={clearApiKey}
+                    className="shrink-0"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Each provider keeps its own key, stored locally and never sent to our servers
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>PII Redaction</Label>
+              <Select value={piiSensitivity} onValueChange={(v) => setPiiSensitivity(v as PiiSensitivity)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PII_SENSITIVITY_LABELS) as PiiSensitivity[]).map(level => (
+                    <SelectItem key={level} value={level}>{PII_SENSITIVITY_LABELS[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="text-xs text-muted-foreground">
+                Emails, phone numbers, IBANs, card numbers and IP addresses in chat messages are replaced with
+                placeholders before a cloud call and restored in the reply. Strict also hides names using a model
+                that runs in your browser. Datasets have their own setting.
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Spending Limits (USD)</Label>
+              <div className="grid gap-2 sm:grid-cols-3">
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Daily: no limit"
+                  value={dailyBudget}
+                  onChange={(e) => setDailyBudget(e.target.value)}
+                  aria-label="Daily budget"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Monthly: no limit"
+                  value={monthlyBudget}
+                  onChange={(e) => setMonthlyBudget(e.target.value)}
+                  aria-label="Monthly budget"
+                />
+                <Select value={onBudgetExceeded} onValueChange={(v) => setOnBudgetExceeded(v as BudgetSettings['onExceed'])}>
+                  <SelectTrigger aria-label="When a budget is exceeded">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="confirm">Ask before exceeding</SelectItem>
+                    <SelectItem value="block">Block when exceeded</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Each request is priced before it is sent, assuming the longest possible reply. Usage is shown in the
+                Network Audit tab.
+              </div>
             </div>
           </div>
         )}
 
+        <Separator />
+
+        {/* Python Runtime */}
+        <div className="space-y-3">
+          <Label>Python Runtime Source</Label>
+          <Select value={pyodideSource} onValueChange={(v) => setPyodideSource(v as PyodideSource)}>
+            <SelectTrigger className="w-full sm:w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PYODIDE_SOURCE_LABELS) as PyodideSource[]).map(source => (
+                <SelectItem key={source} value={source}>{PYODIDE_SOURCE_LABELS[source]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {runtime && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Active:</span>
+              <Badge variant={runtime.status === 'failed' ? 'destructive' : 'secondary'}>
+                {PYODIDE_SOURCE_LABELS[runtime.active]} · Pyodide {runtime.version} · {runtime.status}
+              </Badge>
+              {runtime.active === 'cached' && (
+                <Button variant="ghost" size="sm" onClick={clearRuntimeCache}>
+                  Clear cache
+                </Button>
+              )}
+            </div>
+          )}
+          {runtime?.fallbackReason && (
+            <div className="text-xs text-muted-foreground">{runtime.fallbackReason}</div>
+          )}
+          <div className="text-xs text-muted-foreground">
+            Bundled and cached runtimes work fully offline; the CDN needs a network connection every time
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Data Retention */}
+        <div className="space-y-3">
+          <Label htmlFor="trash-retention">Trash Retention (days)</Label>
+          <Input
+            id="trash-retention"
+            type="number"
+            min={1}
+            value={trashRetentionDays}
+            onChange={(e) => setTrashRetentionDays(e.target.value)}
+            className="w-32"
+          />
+          <div className="text-xs text-muted-foreground">
+            Deleted datasets can be restored from the trash until this period has passed
+          </div>
+        </div>
+
         {/* Action Buttons */}
         <div className="flex gap-2 pt-4">
           <Button
@@ -204,7 +581,7 @@ export const SettingsPanel = () => {
             Save Settings
           </Button>
           
-          {cloudEnabled && apiKey && (
+          {cloudEnabled && (config.apiKey || !providerInfo.requiresKey) && (
             <Button
               onClick={testConnection}
               disabled={isLoading}
@@ -221,8 +598,13 @@ export const SettingsPanel = () => {
             <div className="font-medium text-local mb-1">🔒 Privacy First</div>
             <ul className="text-muted-foreground space-y-1 text-xs">
               <li>• All data processing happens locally by default</li>
-              <li>• API keys are stored only in your browser</li>
+              <li>• API keys are stored only in your browser, encrypted if you set a passphrase below</li>
               <li>• Cloud calls are optional and user-controlled</li>
+              <li>• Dataset questions send only the schema and local aggregates, never rows</li>
+              <li>• Every cloud reply shows the exact payload that was sent</li>
+              <li>• Each cloud request is recorded in the Network Audit tab</li>
+              <li>• Questions asked offline are queued on this device and can be cancelled before they are sent</li>
+              <li>• Device sync is off by default and encrypts changes before they reach your relay</li>
               <li>• No data is sent to our servers</li>
             </ul>
           </div>
@@ -0,0 +1,244 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeftRight, Download, RefreshCw, Save, Upload } from "lucide-react";
+import { localBackend } from "@/lib/local-backend";
+import { syncEngine, type SyncSettings, type SyncStatus } from "@/lib/sync-engine";
+import type { RelayTransportKind } from "@/lib/sync-transports";
+import { useToast } from "@/hooks/use-toast";
+
+const TRANSPORT_LABELS: Record<RelayTransportKind, string> = {
+  http: 'HTTP relay',
+  websocket: 'WebSocket relay (live)',
+};
+
+const URL_PLACEHOLDERS: Record<RelayTransportKind, string> = {
+  http: 'http://192.168.1.10:8787',
+  websocket: 'ws://192.168.1.10:8787',
+};
+
+const describeStatus = (status: SyncStatus) => {
+  switch (status.state) {
+    case 'disabled':
+      return 'Off';
+    case 'syncing':
+      return 'Syncing...';
+    case 'error':
+      return 'Sync failed';
+    default:
+      return status.lastSynced ? `Synced ${status.lastSynced.toLocaleTimeString()}` : 'Not synced yet';
+  }
+};
+
+// Sync settings: which relay to use, plus manual sync and file export/import
+export const SyncPanel = () => {
+  const [settings, setSettings] = useState<SyncSettings>(syncEngine.getSettings());
+  const [status, setStatus] = useState<SyncStatus>(syncEngine.getStatus());
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    localBackend.getSyncDevice()
+      .then(device => setDeviceId(device.id))
+      .catch(error => console.error('Failed to load sync device:', error));
+    // Settings saved in another tab restart the engine; pick them up without discarding edits otherwise
+    let loaded = JSON.stringify(syncEngine.getSettings());
+    return syncEngine.onStatusChange(next => {
+      setStatus(next);
+      const current = JSON.stringify(syncEngine.getSettings());
+      if (current !== loaded) {
+        loaded = current;
+        setSettings(syncEngine.getSettings());
+      }
+    });
+  }, []);
+
+  const update = (changes: Partial<SyncSettings>) => setSettings(current => ({ ...current, ...changes }));
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const save = () => run(async () => {
+    if (settings.enabled && settings.url.trim() && !settings.passphrase) {
+      throw new Error("Set an encryption passphrase to sync through a relay.");
+    }
+    await syncEngine.saveSettings({ ...settings, url: settings.url.trim() });
+    toast({
+      title: "Sync settings saved",
+      description: settings.enabled ? "Conversations and settings will sync with the relay." : "Sync is off on this device.",
+    });
+  }, "Failed to save sync settings");
+
+  const syncNow = () => run(async () => {
+    await syncEngine.syncNow();
+    const { received } = syncEngine.getStatus();
+    toast({ title: "Sync complete", description: `${received ?? 0} change(s) received.` });
+  }, "Sync failed");
+
+  const exportFile = () => run(async () => {
+    const count = await syncEngine.exportFile();
+    toast({ title: "Sync file exported", description: `${count} change(s) written. Import the file on another device.` });
+  }, "Export failed");
+
+  const importFile = (file: File) => run(async () => {
+    const count = await syncEngine.importFile(file);
+    toast({ title: "Sync file imported", description: `${count} new change(s) merged.` });
+  }, "Import failed");
+
+  const saved = syncEngine.getSettings();
+
+  return (
+    <Card className="w-full max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="h-5 w-5" />
+          Device Sync
+        </CardTitle>
+        <CardDescription>
+          Sync conversations and settings between your devices through a relay you host. Datasets and API keys stay on each device.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="sync-toggle" className="text-base">
+              Enable Sync
+            </Label>
+            <div className="text-sm text-muted-foreground">
+              Record changes on this device so they can be merged with other devices
+            </div>
+          </div>
+          <Switch
+            id="sync-toggle"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => update({ enabled })}
+          />
+        </div>
+
+        {settings.enabled && (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Transport</Label>
+                <Select value={settings.transport} onValueChange={(v) => update({ transport: v as RelayTransportKind })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TRANSPORT_LABELS) as RelayTransportKind[]).map(kind => (
+                      <SelectItem key={kind} value={kind}>{TRANSPORT_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sync-url">Relay URL</Label>
+                <Input
+                  id="sync-url"
+                  placeholder={URL_PLACEHOLDERS[settings.transport]}
+                  value={settings.url}
+                  onChange={(e) => update({ url: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="sync-token">Access Token</Label>
+                <Input
+                  id="sync-token"
+                  type="password"
+                  value={settings.token}
+                  onChange={(e) => update({ token: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sync-passphrase">Encryption Passphrase</Label>
+                <Input
+                  id="sync-passphrase"
+                  type="password"
+                  value={settings.passphrase}
+                  onChange={(e) => update({ passphrase: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Changes are encrypted with the passphrase before they leave this device, so the relay cannot read them.
+              Use the same passphrase on every device. Leave the URL empty to sync by file only.
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button onClick={save} disabled={isBusy}>
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+          <Button variant="outline" onClick={syncNow} disabled={isBusy || !saved.enabled || !saved.url || !saved.passphrase}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Sync Now
+          </Button>
+          <Badge variant={status.state === 'error' ? 'destructive' : 'secondary'} title={status.error}>
+            {describeStatus(status)}
+          </Badge>
+        </div>
+        {status.state === 'error' && status.error && (
+          <div className="text-xs text-muted-foreground">{status.error}</div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label className="text-base">Sync by File</Label>
+          <div className="text-sm text-muted-foreground">
+            Export this device's changes and import them on another device, with no network needed. The file is not encrypted.
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={exportFile} disabled={isBusy}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={isBusy}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) importFile(file);
+              }}
+            />
+          </div>
+        </div>
+
+        {deviceId && (
+          <div className="text-xs text-muted-foreground">This device: {deviceId}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
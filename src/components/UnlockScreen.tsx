@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Lock, Unlock } from "lucide-react";
+import { localBackend } from "@/lib/local-backend";
+import { WrongPassphraseError } from "@/lib/vault";
+
+interface UnlockScreenProps {
+  onUnlocked: () => void;
+}
+
+// Shown in place of the app while local data is encrypted and locked
+export const UnlockScreen = ({ onUnlocked }: UnlockScreenProps) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await localBackend.unlock(passphrase);
+      onUnlocked();
+    } catch (error) {
+      setError(error instanceof WrongPassphraseError
+        ? "That passphrase is not correct."
+        : error instanceof Error ? error.message : String(error));
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-background/50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            Local Data Locked
+          </CardTitle>
+          <CardDescription>
+            Your datasets, conversations and API keys are encrypted on this device. Enter your passphrase to unlock them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={unlock} className="space-y-4">
+            <Input
+              type="password"
+              placeholder="Passphrase"
+              autoFocus
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            {error && <div className="text-sm text-destructive">{error}</div>}
+            <Button type="submit" variant="local" className="w-full" disabled={isUnlocking || !passphrase}>
+              <Unlock className="h-4 w-4 mr-2" />
+              {isUnlocking ? "Unlocking..." : "Unlock"}
+            </Button>
+            <div className="text-xs text-muted-foreground">
+              The passphrase is never stored. Without it, encrypted data cannot be recovered.
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
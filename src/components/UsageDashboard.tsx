@@ -0,0 +1,196 @@
+import { useState, useEffect, useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Coins } from "lucide-react";
+import { localBackend, type CloudAuditEntry } from "@/lib/local-backend";
+import { LLM_PROVIDERS, type LlmProviderId } from "@/lib/llm-providers";
+import {
+  DEFAULT_BUDGET_SETTINGS,
+  entryCost,
+  formatUsd,
+  getBudgetSettings,
+  getModelPricing,
+  getPeriodSpend,
+  startOfDay,
+  startOfMonth,
+  summarizeUsage,
+  type BudgetSettings,
+  type PeriodSpend,
+} from "@/lib/usage-budget";
+
+const CHART_DAYS = 30;
+
+const PROVIDER_COLORS: Record<LlmProviderId, string> = {
+  openai: 'hsl(var(--local))',
+  gemini: 'hsl(var(--primary))',
+  anthropic: 'hsl(var(--cloud))',
+  'openai-compatible': 'hsl(var(--muted-foreground))',
+};
+
+const PROVIDER_IDS = Object.keys(LLM_PROVIDERS) as LlmProviderId[];
+
+const chartConfig = Object.fromEntries(
+  PROVIDER_IDS.map(id => [id, { label: LLM_PROVIDERS[id].label, color: PROVIDER_COLORS[id] }])
+) satisfies ChartConfig;
+
+const dayKey = (date: Date) => startOfDay(date).toISOString();
+
+// One bar per day for the last CHART_DAYS days, stacked by provider
+function dailyCosts(entries: CloudAuditEntry[]) {
+  const today = startOfDay();
+  const days = Array.from({ length: CHART_DAYS }, (_, i) => {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (CHART_DAYS - 1 - i));
+    return {
+      key: dayKey(date),
+      label: date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      ...Object.fromEntries(PROVIDER_IDS.map(id => [id, 0])) as Record<LlmProviderId, number>,
+    };
+  });
+
+  const byKey = new Map(days.map(day => [day.key, day]));
+  for (const entry of entries) {
+    const day = byKey.get(dayKey(entry.timestamp));
+    if (day) day[entry.provider] += entryCost(entry);
+  }
+  return days;
+}
+
+function BudgetMeter({ label, spent, limit }: { label: string; spent: number; limit: number | null }) {
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="text-2xl font-semibold">{formatUsd(spent)}</div>
+      {limit === null ? (
+        <div className="text-xs text-muted-foreground">No budget set</div>
+      ) : (
+        <>
+          <Progress value={Math.min(100, limit > 0 ? (spent / limit) * 100 : 100)} className="h-2" />
+          <div className="text-xs text-muted-foreground">
+            {spent > limit ? 'Over' : 'of'} {formatUsd(limit)} budget
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export const UsageDashboard = () => {
+  const [entries, setEntries] = useState<CloudAuditEntry[]>([]);
+  const [budget, setBudget] = useState<BudgetSettings>(DEFAULT_BUDGET_SETTINGS);
+  // The meters read the budget ledger, which keeps counting after the audit log is purged
+  const [spend, setSpend] = useState<PeriodSpend>({ dailyUsd: 0, monthlyUsd: 0 });
+
+  useEffect(() => {
+    const load = () => {
+      Promise.all([localBackend.getAuditLog(), getBudgetSettings(), getPeriodSpend()])
+        .then(([log, settings, periodSpend]) => {
+          setEntries(log);
+          setBudget(settings);
+          setSpend(periodSpend);
+        })
+        .catch(error => console.error('Failed to load usage:', error));
+    };
+    load();
+    return localBackend.onAuditLogChange(load);
+  }, []);
+
+  const today = useMemo(() => summarizeUsage(entries, startOfDay()), [entries]);
+  const month = useMemo(() => summarizeUsage(entries, startOfMonth()), [entries]);
+  const chartData = useMemo(() => dailyCosts(entries), [entries]);
+
+  const byModel = useMemo(() => {
+    const groups = new Map<string, CloudAuditEntry[]>();
+    for (const entry of entries.filter(e => e.timestamp >= startOfMonth())) {
+      const key = `${entry.provider}\u0000${entry.model}`;
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+    return [...groups.values()]
+      .map(group => ({ provider: group[0].provider, model: group[0].model, ...summarizeUsage(group) }))
+      .sort((a, b) => b.costUsd - a.costUsd);
+  }, [entries]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="h-5 w-5" />
+          Cloud Usage
+        </CardTitle>
+        <CardDescription>
+          Tokens and estimated cost of cloud requests. Costs use list prices; self-hosted endpoints count as free.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <BudgetMeter label="Today" spent={spend.dailyUsd} limit={budget.dailyUsd} />
+          <BudgetMeter label="This month" spent={spend.monthlyUsd} limit={budget.monthlyUsd} />
+          <div className="space-y-1 rounded-lg border p-3">
+            <div className="text-sm text-muted-foreground">Tokens this month</div>
+            <div className="text-2xl font-semibold">{(month.inputTokens + month.outputTokens).toLocaleString()}</div>
+            <div className="text-xs text-muted-foreground">
+              {month.inputTokens.toLocaleString()} in • {month.outputTokens.toLocaleString()} out
+            </div>
+          </div>
+          <div className="space-y-1 rounded-lg border p-3">
+            <div className="text-sm text-muted-foreground">Requests this month</div>
+            <div className="text-2xl font-semibold">{month.requests.toLocaleString()}</div>
+            <div className="text-xs text-muted-foreground">{today.requests.toLocaleString()} today</div>
+          </div>
+        </div>
+
+        <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+          <BarChart data={chartData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+            <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={(value: number) => formatUsd(value)} />
+            <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => `${chartConfig[name as LlmProviderId]?.label ?? name}: ${formatUsd(Number(value))}`} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {PROVIDER_IDS.map(id => (
+              <Bar key={id} dataKey={id} stackId="cost" fill={`var(--color-${id})`} />
+            ))}
+          </BarChart>
+        </ChartContainer>
+
+        {byModel.length > 0 && (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model (this month)</TableHead>
+                  <TableHead className="text-right">Requests</TableHead>
+                  <TableHead className="text-right">Tokens (in / out)</TableHead>
+                  <TableHead className="text-right">Price per 1M (in / out)</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {byModel.map(row => {
+                  const pricing = getModelPricing(row.provider, row.model);
+                  return (
+                    <TableRow key={`${row.provider}-${row.model}`}>
+                      <TableCell>
+                        <div>{row.model}</div>
+                        <div className="text-xs text-muted-foreground">{LLM_PROVIDERS[row.provider].label}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{row.requests.toLocaleString()}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {row.inputTokens.toLocaleString()} / {row.outputTokens.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {pricing ? `$${pricing.input} / $${pricing.output}` : 'Unknown'}
+                      </TableCell>
+                      <TableCell className="text-right">{formatUsd(row.costUsd)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
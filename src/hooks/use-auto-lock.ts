@@ -0,0 +1,29 @@
+import * as React from "react"
+import { localBackend } from "@/lib/local-backend"
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const
+
+// Locks local data after the configured time without interaction in this tab. The delay
+// is read on every reset, so a change in settings applies from the next interaction.
+export function useAutoLock(active: boolean) {
+  React.useEffect(() => {
+    if (!active) return
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const reset = () => {
+      clearTimeout(timer)
+      const { enabled, locked, autoLockMinutes } = localBackend.getEncryptionStatus()
+      if (!enabled || locked || autoLockMinutes <= 0) return
+      timer = setTimeout(() => localBackend.lock(), autoLockMinutes * 60_000)
+    }
+
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, reset, { passive: true }))
+    const unsubscribe = localBackend.onChange(reset, ["encryption-changed"])
+    reset()
+    return () => {
+      clearTimeout(timer)
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, reset))
+      unsubscribe()
+    }
+  }, [active])
+}
@@ -0,0 +1,47 @@
+import * as React from "react"
+
+// Chromium's install prompt event, which is not in the DOM typings
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>
+  userChoice: Promise<{ outcome: "accepted" | "dismissed" }>
+}
+
+// Captured at load, because the browser may fire it before any component mounts
+let deferredPrompt: BeforeInstallPromptEvent | null = null
+const listeners = new Set<() => void>()
+
+const setDeferredPrompt = (event: BeforeInstallPromptEvent | null) => {
+  deferredPrompt = event
+  listeners.forEach((listener) => listener())
+}
+
+window.addEventListener("beforeinstallprompt", (event) => {
+  event.preventDefault()
+  setDeferredPrompt(event as BeforeInstallPromptEvent)
+})
+window.addEventListener("appinstalled", () => setDeferredPrompt(null))
+
+export function useInstallPrompt() {
+  const [canInstall, setCanInstall] = React.useState(!!deferredPrompt)
+
+  React.useEffect(() => {
+    const onChange = () => setCanInstall(!!deferredPrompt)
+    listeners.add(onChange)
+    onChange()
+    return () => {
+      listeners.delete(onChange)
+    }
+  }, [])
+
+  // The browser allows each prompt event to be shown once
+  const install = React.useCallback(async () => {
+    const prompt = deferredPrompt
+    if (!prompt) return false
+    setDeferredPrompt(null)
+    await prompt.prompt()
+    const { outcome } = await prompt.userChoice
+    return outcome === "accepted"
+  }, [])
+
+  return { canInstall, install }
+}
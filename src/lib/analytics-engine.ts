@@ -0,0 +1,195 @@
+// Pure TypeScript analytics used when Pyodide is unavailable
+//
+// The numerics follow what pandas and numpy do internally (pairwise summation for
+// describe(), Kahan summation for group aggregates, numpy's linear quantile
+// interpolation) so both backends produce the same numbers for the same rows.
+import type { DatasetRow } from './dataset-chunks';
+
+export type Dtype = 'int64' | 'float64' | 'bool' | 'object';
+
+export type ValueCount = {
+  value: unknown;
+  count: number;
+};
+
+export const DESCRIBE_PERCENTILES = [0.25, 0.5, 0.75];
+
+// numpy's pairwise summation block size
+const PAIRWISE_BLOCK = 128;
+
+export const isMissing = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'number' && isNaN(value));
+
+// Column order matches pandas: every key, in order of first appearance
+export const columnsOf = (rows: DatasetRow[]): string[] => {
+  const seen = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => seen.add(key)));
+  return [...seen];
+};
+
+export const columnValues = (rows: DatasetRow[], column: string): unknown[] =>
+  rows.map(row => (isMissing(row[column]) ? null : row[column]));
+
+// Mirrors how pandas infers a column dtype from a list of records
+export function inferDtype(values: unknown[]): Dtype {
+  const present = values.filter(v => !isMissing(v));
+  const hasMissing = present.length < values.length;
+
+  if (present.length === 0) {
+    return values.some(v => typeof v === 'number') ? 'float64' : 'object';
+  }
+  if (present.every(v => typeof v === 'number')) {
+    return !hasMissing && present.every(v => Number.isInteger(v)) ? 'int64' : 'float64';
+  }
+  if (present.every(v => typeof v === 'boolean')) {
+    return hasMissing ? 'object' : 'bool';
+  }
+  return 'object';
+}
+
+export const isNumericDtype = (dtype: Dtype) => dtype === 'int64' || dtype === 'float64';
+
+export function dtypes(rows: DatasetRow[], columns = columnsOf(rows)): Record<string, Dtype> {
+  return Object.fromEntries(columns.map(c => [c, inferDtype(rows.map(row => row[c]))]));
+}
+
+export function nullCounts(rows: DatasetRow[], columns = columnsOf(rows)): Record<string, number> {
+  return Object.fromEntries(columns.map(c => [c, rows.filter(row => isMissing(row[c])).length]));
+}
+
+// numpy's pairwise_sum: eight accumulators per block, halves above the block size
+export function pairwiseSum(values: number[], start = 0, length = values.length): number {
+  if (length < 8) {
+    let sum = 0;
+    for (let i = start; i < start + length; i++) sum += values[i];
+    return sum;
+  }
+
+  if (length <= PAIRWISE_BLOCK) {
+    const r = values.slice(start, start + 8);
+    let i = 8;
+    for (; i < length - (length % 8); i += 8) {
+      for (let j = 0; j < 8; j++) r[j] += values[start + i + j];
+    }
+    let sum = ((r[0] + r[1]) + (r[2] + r[3])) + ((r[4] + r[5]) + (r[6] + r[7]));
+    for (; i < length; i++) sum += values[start + i];
+    return sum;
+  }
+
+  let half = Math.floor(length / 2);
+  half -= half % 8;
+  return pairwiseSum(values, start, half) + pairwiseSum(values, start + half, length - half);
+}
+
+// Compensated summation used by pandas' groupby sum and mean
+export function kahanSum(values: number[]): number {
+  let sum = 0;
+  let compensation = 0;
+  for (const value of values) {
+    const y = value - compensation;
+    const t = sum + y;
+    compensation = t - sum - y;
+    sum = t;
+  }
+  return sum;
+}
+
+// Missing entries count as zero in the sum but not in the count, as in pandas' nanops
+const filledNumbers = (values: unknown[]) => values.map(v => (typeof v === 'number' && !isNaN(v) ? v : 0));
+const numbersOnly = (values: unknown[]) => values.filter((v): v is number => typeof v === 'number' && !isNaN(v));
+
+export function mean(values: unknown[]): number | null {
+  const count = numbersOnly(values).length;
+  return count ? pairwiseSum(filledNumbers(values)) / count : null;
+}
+
+// Sample standard deviation (ddof = 1), computed the way pandas' nanvar does
+export function std(values: unknown[]): number | null {
+  const count = numbersOnly(values).length;
+  if (count <= 1) return null;
+
+  const filled = filledNumbers(values);
+  const avg = pairwiseSum(filled) / count;
+  const squares = values.map((v, i) => {
+    if (typeof v !== 'number' || isNaN(v)) return 0;
+    const diff = avg - filled[i];
+    return diff * diff;
+  });
+  return Math.sqrt(pairwiseSum(squares) / (count - 1));
+}
+
+// numpy's "linear" method, including its two-sided lerp for numerical stability
+export function quantile(values: unknown[], q: number): number | null {
+  const sorted = numbersOnly(values).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+
+  // pandas hands numpy percentiles, which numpy divides back down
+  const position = (sorted.length - 1) * ((q * 100) / 100);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  const t = position - lower;
+  const a = sorted[lower];
+  const b = sorted[upper];
+  const diff = b - a;
+
+  return t >= 0.5 ? b - diff * (1 - t) : a + diff * t;
+}
+
+export function median(values: unknown[]): number | null {
+  const numbers = numbersOnly(values).sort((a, b) => a - b);
+  if (numbers.length === 0) return null;
+  const mid = Math.floor(numbers.length / 2);
+  return numbers.length % 2 ? numbers[mid] : (numbers[mid - 1] + numbers[mid]) / 2;
+}
+
+// Distinct values in order of first appearance, most frequent first; ties keep that order
+export function valueCounts(values: unknown[], dropna = true): ValueCount[] {
+  const counts = new Map<string, ValueCount>();
+  for (const raw of values) {
+    const value = isMissing(raw) ? null : raw;
+    if (value === null && dropna) continue;
+    const key = JSON.stringify(value);
+    const entry = counts.get(key) ?? { value, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+}
+
+const describeNumeric = (values: unknown[]): Record<string, number | null> => {
+  const numbers = numbersOnly(values);
+  const stats: Record<string, number | null> = {
+    count: numbers.length,
+    mean: mean(values),
+    std: std(values),
+    min: numbers.length ? numbers.reduce((a, b) => Math.min(a, b)) : null,
+  };
+  DESCRIBE_PERCENTILES.forEach(p => {
+    stats[`${p * 100}%`] = quantile(values, p);
+  });
+  stats.max = numbers.length ? numbers.reduce((a, b) => Math.max(a, b)) : null;
+  return stats;
+};
+
+const describeCategorical = (values: unknown[]): Record<string, unknown> => {
+  const counts = valueCounts(values);
+  return {
+    count: values.filter(v => !isMissing(v)).length,
+    unique: counts.length,
+    top: counts[0]?.value ?? null,
+    freq: counts[0]?.count ?? null,
+  };
+};
+
+// Same shape as pandas' df.describe().to_dict(): numeric columns when there are any,
+// otherwise count/unique/top/freq for every column
+export function describe(rows: DatasetRow[]): Record<string, Record<string, unknown>> {
+  const columns = columnsOf(rows);
+  const types = dtypes(rows, columns);
+  const numeric = columns.filter(c => isNumericDtype(types[c]));
+
+  if (numeric.length > 0) {
+    return Object.fromEntries(numeric.map(c => [c, describeNumeric(rows.map(row => row[c]))]));
+  }
+  return Object.fromEntries(columns.map(c => [c, describeCategorical(rows.map(row => row[c]))]));
+}
@@ -0,0 +1,61 @@
+// Typed change notifications for local data, shared with every open tab over BroadcastChannel
+//
+// IndexedDB is shared between tabs but says nothing when another tab writes to it, so each
+// write in LocalBackend announces itself here and views reload what they show.
+export type ChangeEvent =
+  | { type: 'dataset-added'; id: string }
+  | { type: 'dataset-updated'; id: string }
+  // Moved to the trash; purging from the trash is a 'trash-changed'
+  | { type: 'dataset-removed'; id: string }
+  | { type: 'trash-changed' }
+  | { type: 'conversation-updated'; id: string }
+  | { type: 'conversation-removed'; id: string }
+  | { type: 'setting-changed'; key: string }
+  | { type: 'audit-log-changed' }
+  | { type: 'cloud-queue-changed' }
+  // New local edits were added to the sync operation log
+  | { type: 'operations-recorded' }
+  // Passphrase encryption was turned on or off, or the passphrase changed
+  | { type: 'encryption-changed' };
+
+export type ChangeEventType = ChangeEvent['type'];
+
+// `remote` is set for changes made in another tab or synced in from another device
+export type ChangeListener = (event: ChangeEvent, remote: boolean) => void;
+
+const CHANNEL_NAME = 'local-first-ai-changes';
+
+export class ChangeFeed {
+  private listeners = new Set<ChangeListener>();
+  private channel: BroadcastChannel | null = null;
+
+  constructor() {
+    // Without BroadcastChannel each tab still hears its own changes
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.addEventListener('message', (event: MessageEvent<ChangeEvent>) => this.notify(event.data, true));
+    }
+  }
+
+  subscribe(listener: ChangeListener, types?: ChangeEventType[]): () => void {
+    const filtered: ChangeListener = types
+      ? (event, remote) => {
+          if (types.includes(event.type)) listener(event, remote);
+        }
+      : listener;
+    this.listeners.add(filtered);
+    return () => {
+      this.listeners.delete(filtered);
+    };
+  }
+
+  // Synced changes are remote for this tab too, so its views reload them like another tab's
+  emit(event: ChangeEvent, remote = false) {
+    this.notify(event, remote);
+    this.channel?.postMessage(event);
+  }
+
+  private notify(event: ChangeEvent, remote: boolean) {
+    this.listeners.forEach(listener => listener(event, remote));
+  }
+}
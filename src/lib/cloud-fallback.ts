@@ -1,116 +1,275 @@
 // Cloud fallback implementation
-interface GPTMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+import {
+  DEFAULT_LLM_PROVIDER,
+  DEFAULT_MAX_TOKENS,
+  LLM_PROVIDERS,
+  createLlmProvider,
+  defaultProviderConfig,
+  estimateTokens,
+  isLlmProviderId,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmProviderConfig,
+  type LlmProviderId,
+  type LlmError,
+  type LlmUsage,
+} from './llm-providers';
+import { CircuitBreaker, retryDelay, sleep, type CircuitStatus } from './cloud-resilience';
+import type { HybridRequest } from './hybrid-analysis';
+import { localBackend, type CloudAuditEntry, type CloudFeature } from './local-backend';
+import {
+  BudgetExceededError,
+  checkBudget,
+  costOf,
+  estimateRequest,
+  getModelPricing,
+  recordSpend,
+  type BudgetCheck,
+} from './usage-budget';
+
+interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  // Recorded in the audit log; defaults to 'chat'
+  feature?: CloudFeature;
+  // Asked when a budget is set to "confirm" and this request would exceed it; without it the request is blocked
+  confirmOverBudget?: (check: BudgetCheck) => Promise<boolean>;
+  // Told before each retry of a transient failure
+  onRetry?: (error: LlmError, delayMs: number, attempt: number) => void;
 }
 
-interface GPTResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
+// What a single request produced, gathered while it runs and written to the audit log at the end
+interface RequestOutcome {
+  estimatedCostUsd: number;
+  response: string;
+  usage: LlmUsage | null;
+  status: CloudAuditEntry['status'];
+  error?: string;
 }
 
+export type LlmProviderSettings = Partial<Record<LlmProviderId, LlmProviderConfig>>;
+
 class CloudFallback {
-  private apiKey: string | null = null;
+  private providerId: LlmProviderId = DEFAULT_LLM_PROVIDER;
+  private providerConfigs: LlmProviderSettings = {};
   private isEnabled: boolean = false;
+  private breaker = new CircuitBreaker();
+
+  // Picks up the saved provider settings so chat works before the settings tab is opened
+  async loadSettings() {
+    const provider = await localBackend.getSetting('llmProvider');
+    this.setEnabled(!!(await localBackend.getSetting('cloudEnabled')));
+    this.setProviderConfigs((await localBackend.getSetting('llmProviders')) || {});
+    if (isLlmProviderId(provider)) {
+      this.setProvider(provider);
+    }
+  }
+
+  setProvider(id: LlmProviderId) {
+    this.providerId = id;
+  }
 
-  setApiKey(key: string) {
-    this.apiKey = key;
+  setProviderConfigs(configs: LlmProviderSettings) {
+    this.providerConfigs = { ...configs };
   }
 
   setEnabled(enabled: boolean) {
     this.isEnabled = enabled;
   }
 
+  getConfig(id: LlmProviderId = this.providerId): LlmProviderConfig {
+    return { ...defaultProviderConfig(id), ...this.providerConfigs[id] };
+  }
+
+  getProvider(id: LlmProviderId = this.providerId): LlmProvider {
+    return createLlmProvider(id, this.getConfig(id));
+  }
+
+  isConfigured(id: LlmProviderId = this.providerId): boolean {
+    const config = this.getConfig(id);
+    if (!config.model) return false;
+    if (id === 'openai-compatible') return !!config.baseUrl;
+    return !LLM_PROVIDERS[id].requiresKey || !!config.apiKey;
+  }
+
   getStatus() {
+    const circuit = this.breaker.getStatus();
     return {
-      hasApiKey: !!this.apiKey,
-      isEnabled: this.isEnabled
+      isConfigured: this.isConfigured(),
+      isEnabled: this.isEnabled,
+      // False while the circuit breaker has the app local-only
+      isAvailable: circuit.state !== 'open',
+      circuit,
+      provider: this.providerId,
+      model: this.getConfig().model,
     };
   }
 
-  async processWithGPT(
-    messages: GPTMessage[], 
-    options: { temperature?: number; maxTokens?: number } = {}
-  ): Promise<string> {
+  // Where requests to the current provider go; connectivity probes are sent here
+  getEndpoint(): string | null {
+    const origin = LLM_PROVIDERS[this.providerId].origin;
+    return origin ?? (this.getConfig().baseUrl?.trim() || null);
+  }
+
+  onCircuitChange(listener: (status: CircuitStatus) => void): () => void {
+    return this.breaker.onChange(listener);
+  }
+
+  // Lets cloud calls through again before the cool-down is over
+  resetCircuit() {
+    this.breaker.reset();
+  }
+
+  private assertReady() {
     if (!this.isEnabled) {
       throw new Error('Cloud processing is disabled');
     }
 
-    if (!this.apiKey) {
-      throw new Error('GPT API key not provided');
+    if (!this.isConfigured()) {
+      throw new Error(`${LLM_PROVIDERS[this.providerId].label} is not configured`);
     }
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4.1-2025-04-14',
+    this.breaker.assertClosed();
+  }
+
+  // Every request is logged, including failed and stopped ones; a broken log never fails the request
+  private async audit(messages: LlmMessage[], feature: CloudFeature, started: number, outcome: RequestOutcome) {
+    const input = messages.map(m => m.content).join('\n');
+    const { model } = this.getConfig();
+    const inputTokens = outcome.usage?.inputTokens ?? estimateTokens(input);
+    const outputTokens = outcome.usage?.outputTokens ?? estimateTokens(outcome.response);
+    const costUsd = costOf(getModelPricing(this.providerId, model), inputTokens, outputTokens);
+    // Spent before it is logged, so a ledger started from the log doesn't count it twice
+    try {
+      await recordSpend(costUsd);
+    } catch (error) {
+      console.error('Failed to record cloud spend:', error);
+    }
+    try {
+      await localBackend.addAuditEntry({
+        id: crypto.randomUUID(),
+        timestamp: new Date(),
+        provider: this.providerId,
+        model,
+        feature,
         messages,
-        temperature: options.temperature || 0.7,
-        max_tokens: options.maxTokens || 1000,
-      }),
-    });
+        response: outcome.response,
+        inputTokens,
+        outputTokens,
+        tokensEstimated: !outcome.usage,
+        costUsd,
+        estimatedCostUsd: outcome.estimatedCostUsd,
+        latencyMs: Math.round(performance.now() - started),
+        status: outcome.status,
+        error: outcome.error,
+      });
+    } catch (error) {
+      console.error('Failed to write audit log entry:', error);
+    }
+  }
+
+  private static failure(error: unknown, signal?: AbortSignal): Pick<RequestOutcome, 'status' | 'error'> {
+    if (signal?.aborted) return { status: 'aborted' };
+    return { status: 'error', error: error instanceof Error ? error.message : String(error) };
+  }
 
-    if (!response.ok) {
-      throw new Error(`GPT API error: ${response.status} ${response.statusText}`);
+  // Estimates the request's cost and stops it before anything is sent if that breaks a budget
+  private async checkBudget(messages: LlmMessage[], options: CompletionOptions): Promise<number> {
+    const estimate = estimateRequest(this.providerId, this.getConfig().model, messages, options.maxTokens ?? DEFAULT_MAX_TOKENS);
+    const check = await checkBudget(estimate.costUsd);
+    if (check) {
+      const approved = check.onExceed === 'confirm' && !!options.confirmOverBudget && await options.confirmOverBudget(check);
+      if (!approved) throw new BudgetExceededError(check);
     }
+    return estimate.costUsd;
+  }
 
-    const data: GPTResponse = await response.json();
-    return data.choices[0]?.message.content || '';
-  }
-
-  async analyzeDataWithGPT(data: any, question: string): Promise<string> {
-    const dataString = JSON.stringify(data).slice(0, 8000); // Limit data size
-    
-    const messages: GPTMessage[] = [
-      {
-        role: 'system',
-        content: 'You are a data analyst. Analyze the provided data and answer the user\'s question concisely.'
-      },
-      {
-        role: 'user',
-        content: `Data: ${dataString}\n\nQuestion: ${question}`
-      }
-    ];
+  // Decides what happens after a failed attempt: wait and retry (returns the delay), or give up
+  // (returns null and counts the failure towards the circuit breaker)
+  private afterFailure(error: unknown, attempt: number, options: CompletionOptions): number | null {
+    if (options.signal?.aborted) return null;
 
-    return this.processWithGPT(messages);
+    const delay = retryDelay(error, attempt);
+    if (delay === null) {
+      this.breaker.recordFailure(error);
+    } else {
+      options.onRetry?.(error as LlmError, delay, attempt + 1);
+    }
+    return delay;
   }
 
-  async chatWithGPT(userMessage: string, conversationHistory: GPTMessage[] = []): Promise<string> {
-    const messages: GPTMessage[] = [
-      {
-        role: 'system',
-        content: 'You are a helpful AI assistant for a local-first data analysis app. Be concise and practical.'
-      },
-      ...conversationHistory.slice(-5), // Keep last 5 messages for context
-      {
-        role: 'user',
-        content: userMessage
-      }
-    ];
+  // Each attempt is a separate request, so each one gets its own audit entry
+  async complete(messages: LlmMessage[], options: CompletionOptions = {}): Promise<string> {
+    this.assertReady();
+    const { feature = 'chat', confirmOverBudget, onRetry, ...request } = options;
+    const estimatedCostUsd = await this.checkBudget(messages, options);
+
+    for (let attempt = 0; ; attempt++) {
+      const outcome: RequestOutcome = { estimatedCostUsd, response: '', usage: null, status: 'success' };
+      const started = performance.now();
+      let delay: number | null = null;
 
-    return this.processWithGPT(messages);
+      try {
+        outcome.response = await this.getProvider().chat(messages, {
+          ...request,
+          model: this.getConfig().model,
+          onUsage: usage => { outcome.usage = usage; },
+        });
+        this.breaker.recordSuccess();
+        return outcome.response;
+      } catch (error) {
+        Object.assign(outcome, CloudFallback.failure(error, request.signal));
+        delay = this.afterFailure(error, attempt, options);
+        if (delay === null) throw error;
+      } finally {
+        await this.audit(messages, feature, started, outcome);
+      }
+      await sleep(delay, request.signal);
+    }
   }
 
-  async enhanceLocalResult(localResult: any, originalQuery: string): Promise<string> {
-    const messages: GPTMessage[] = [
-      {
-        role: 'system',
-        content: 'You are helping to enhance a local AI result. Provide additional insights and context.'
-      },
-      {
-        role: 'user',
-        content: `Local analysis result: ${JSON.stringify(localResult)}\n\nOriginal query: ${originalQuery}\n\nProvide enhanced insights:`
+  // Yields text as the provider produces it; aborting the signal ends the iteration with an AbortError.
+  // Only failures before the first token are retried, so a reply is never repeated.
+  async *completeStream(messages: LlmMessage[], options: CompletionOptions = {}): AsyncIterable<string> {
+    this.assertReady();
+    const { feature = 'chat', confirmOverBudget, onRetry, ...request } = options;
+    const estimatedCostUsd = await this.checkBudget(messages, options);
+
+    for (let attempt = 0; ; attempt++) {
+      // Stays 'aborted' if the caller stops iterating before the stream ends
+      const outcome: RequestOutcome = { estimatedCostUsd, response: '', usage: null, status: 'aborted' };
+      const started = performance.now();
+      let delay: number | null = null;
+
+      try {
+        const stream = this.getProvider().stream(messages, {
+          ...request,
+          model: this.getConfig().model,
+          onUsage: usage => { outcome.usage = usage; },
+        });
+        for await (const token of stream) {
+          outcome.response += token;
+          yield token;
+        }
+        outcome.status = 'success';
+        this.breaker.recordSuccess();
+        return;
+      } catch (error) {
+        Object.assign(outcome, CloudFallback.failure(error, request.signal));
+        delay = outcome.response ? null : this.afterFailure(error, attempt, options);
+        if (outcome.response && !request.signal?.aborted) this.breaker.recordFailure(error);
+        if (delay === null) throw error;
+      } finally {
+        await this.audit(messages, feature, started, outcome);
       }
-    ];
+      await sleep(delay, request.signal);
+    }
+  }
 
-    return this.processWithGPT(messages, { temperature: 0.3 });
+  // Only the locally computed schema and aggregates in `request` are sent; rows stay on the device
+  analyzeStream(request: HybridRequest, options: Pick<CompletionOptions, 'signal' | 'confirmOverBudget' | 'onRetry'> = {}): AsyncIterable<string> {
+    return this.completeStream(request.messages, { ...options, temperature: 0.3, feature: 'dataset-question' });
   }
 }
 
@@ -0,0 +1,134 @@
+// Retry timing and a circuit breaker for cloud requests
+//
+// Transient failures are retried with exponential backoff (or the provider's Retry-After).
+// Requests that still fail count towards the breaker, which sends the app local-only for a
+// cool-down after too many in a row and then lets requests through again as trials.
+import { LlmError } from './llm-providers';
+
+export const RETRY_POLICY = {
+  maxAttempts: 3,
+  baseDelayMs: 1_000,
+  // A Retry-After longer than this fails fast instead of leaving the chat hanging
+  maxDelayMs: 20_000,
+};
+
+export const CIRCUIT_POLICY = {
+  failureThreshold: 3,
+  cooldownMs: 60_000,
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  failures: number;
+  // When an open circuit allows a trial request again
+  retryAt?: Date;
+  lastError?: string;
+}
+
+export class CloudUnavailableError extends Error {
+  constructor(readonly retryAt: Date, readonly lastError?: string) {
+    super(`Cloud calls are paused after repeated failures until ${retryAt.toLocaleTimeString()}; answering locally`);
+    this.name = 'CloudUnavailableError';
+  }
+}
+
+// Milliseconds to wait before the next attempt, or null when the error should not be retried
+export function retryDelay(error: unknown, attempt: number): number | null {
+  if (!(error instanceof LlmError) || !error.isTransient) return null;
+  if (attempt + 1 >= RETRY_POLICY.maxAttempts) return null;
+
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= RETRY_POLICY.maxDelayMs ? error.retryAfterMs : null;
+  }
+  // Full jitter keeps several tabs from retrying in lockstep
+  const ceiling = Math.min(RETRY_POLICY.maxDelayMs, RETRY_POLICY.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private lastError?: string;
+  private listeners = new Set<(status: CircuitStatus) => void>();
+
+  onChange(listener: (status: CircuitStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): CircuitStatus {
+    if (this.state === 'open' && Date.now() - this.openedAt >= CIRCUIT_POLICY.cooldownMs) {
+      this.state = 'half-open';
+      this.notify();
+    }
+    return this.snapshot();
+  }
+
+  // Throws while open; once the cool-down is over requests go through again as trials
+  assertClosed() {
+    const status = this.getStatus();
+    if (status.state === 'open') {
+      throw new CloudUnavailableError(status.retryAt!, status.lastError);
+    }
+  }
+
+  recordSuccess() {
+    if (this.state === 'closed' && this.failures === 0) return;
+    this.state = 'closed';
+    this.failures = 0;
+    this.lastError = undefined;
+    this.notify();
+  }
+
+  recordFailure(error: unknown) {
+    this.failures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    if (this.state === 'half-open' || this.failures >= CIRCUIT_POLICY.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+    this.notify();
+  }
+
+  reset() {
+    this.state = 'closed';
+    this.failures = 0;
+    this.lastError = undefined;
+    this.notify();
+  }
+
+  private snapshot(): CircuitStatus {
+    return {
+      state: this.state,
+      failures: this.failures,
+      retryAt: this.state === 'open' ? new Date(this.openedAt + CIRCUIT_POLICY.cooldownMs) : undefined,
+      lastError: this.lastError,
+    };
+  }
+
+  private notify() {
+    const status = this.snapshot();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
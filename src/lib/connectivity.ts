@@ -0,0 +1,90 @@
+// Online/offline detection for cloud requests
+//
+// navigator.onLine only knows whether there is a network interface, so a reported
+// connection is confirmed by probing the cloud provider before the app counts as online.
+// The provider is only probed while cloud processing is enabled and configured; otherwise
+// nothing is sent and navigator.onLine with its online/offline events decides.
+import { cloudFallback } from './cloud-fallback';
+
+const PROBE_TIMEOUT_MS = 5_000;
+// How often an offline app checks whether the connection is back
+const OFFLINE_POLL_MS = 30_000;
+
+class Connectivity {
+  private online = typeof navigator === 'undefined' || navigator.onLine;
+  private listeners = new Set<(online: boolean) => void>();
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private checking: Promise<boolean> | null = null;
+  private started = false;
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+    window.addEventListener('online', () => this.check());
+    window.addEventListener('offline', () => this.setOnline(false));
+    this.check();
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  onChange(listener: (online: boolean) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.online);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Re-tests the connection, e.g. after a cloud request failed without a response
+  check(): Promise<boolean> {
+    this.checking ??= this.probe()
+      .then(online => {
+        this.setOnline(online);
+        return online;
+      })
+      .finally(() => {
+        this.checking = null;
+      });
+    return this.checking;
+  }
+
+  private async probe(): Promise<boolean> {
+    if (!navigator.onLine) return false;
+    if (!this.canProbe()) return true;
+
+    const endpoint = cloudFallback.getEndpoint();
+    if (!endpoint) return true;
+
+    try {
+      // Any response at all, even an opaque or error one, means the provider is reachable
+      await fetch(endpoint, {
+        method: 'HEAD',
+        mode: 'no-cors',
+        cache: 'no-store',
+        signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private canProbe(): boolean {
+    const { isEnabled, isConfigured } = cloudFallback.getStatus();
+    return isEnabled && isConfigured;
+  }
+
+  private setOnline(online: boolean) {
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    // Without probes the online event is the only news there can be
+    this.pollTimer = online || !this.canProbe() ? null : setTimeout(() => this.check(), OFFLINE_POLL_MS);
+
+    if (online === this.online) return;
+    this.online = online;
+    this.listeners.forEach(listener => listener(online));
+  }
+}
+
+export const connectivity = new Connectivity();
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { convertValue, CsvParser, detectDelimiter, inferColumnType, normalizeHeaders, parseCsv, streamCsv } from './csv-parser';
+import type { DatasetRow } from './dataset-chunks';
+
+describe('parseCsv', () => {
+  it('keeps delimiters inside quoted fields', () => {
+    expect(parseCsv('name,city\n"Smith, Jo","Paris, FR"\n')).toEqual([['name', 'city'], ['Smith, Jo', 'Paris, FR']]);
+  });
+
+  it('keeps line breaks inside quoted fields', () => {
+    expect(parseCsv('id,note\r\n1,"first line\r\nsecond line"\r\n2,plain')).toEqual([
+      ['id', 'note'],
+      ['1', 'first line\r\nsecond line'],
+      ['2', 'plain'],
+    ]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(parseCsv('quote\n"She said ""hi"""\n""""')).toEqual([['quote'], ['She said "hi"'], ['"']]);
+  });
+
+  it('drops a leading byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('skips blank lines but keeps a record that is one quoted empty field', () => {
+    expect(parseCsv('a\n\n""\n\r\n""')).toEqual([['a'], [''], ['']]);
+  });
+
+  it('parses the same records however the input is split', () => {
+    const text = 'a;b\r\n"x;\r\ny";"say ""z"""\r\n3;4';
+    const parser = new CsvParser(';');
+    const records = [...text].flatMap(char => parser.push(char));
+    expect([...records, ...parser.flush()]).toEqual(parseCsv(text, ';'));
+    expect(parseCsv(text, ';')).toEqual([['a', 'b'], ['x;\r\ny', 'say "z"'], ['3', '4']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it.each([
+    [',', 'a,b,c\n1,2,3\n4,5,6'],
+    [';', 'a;b;c\n1,5;2;3\n4;5,5;6'],
+    ['\t', 'a\tb\tc\n1\t"x, y"\t3'],
+    ['|', 'a|b\n1|2'],
+  ])('detects "%s"', (delimiter, sample) => {
+    expect(detectDelimiter(sample)).toBe(delimiter);
+  });
+});
+
+describe('column types', () => {
+  it('infers numbers only when every value is a number literal', () => {
+    expect(inferColumnType(['1', '2.5', '-3e2', '', ' 4 '])).toBe('number');
+    expect(inferColumnType(['12', '12abc'])).toBe('string');
+    expect(inferColumnType(['1,5'])).toBe('string');
+  });
+
+  it('infers booleans and dates', () => {
+    expect(inferColumnType(['true', 'FALSE'])).toBe('boolean');
+    expect(inferColumnType(['2024-01-31', '2024-02-01T10:30:00Z'])).toBe('date');
+    expect(inferColumnType(['2024-13-45'])).toBe('string');
+  });
+
+  it('keeps values that do not fit the chosen type as text', () => {
+    expect(convertValue('12abc', 'number')).toBe('12abc');
+    expect(convertValue(' 42 ', 'number')).toBe(42);
+    expect(convertValue('', 'number')).toBeNull();
+    expect(convertValue('True', 'boolean')).toBe(true);
+  });
+
+  it('names blank and repeated headers', () => {
+    expect(normalizeHeaders(['id', '', 'id'], 4)).toEqual(['id', 'column_2', 'id_2', 'column_4']);
+  });
+});
+
+describe('streamCsv', () => {
+  it('imports rows and counts those wider than the header', async () => {
+    const file = new File(['id,amount\n1,2.5\n2,3,extra\n3,\n'], 'data.csv');
+    const rows: DatasetRow[] = [];
+    const result = await streamCsv(
+      file,
+      { delimiter: ',', encoding: 'utf-8', headerRow: 0, columnTypes: { id: 'number', amount: 'number' } },
+      ['id', 'amount'],
+      async batch => {
+        rows.push(...batch);
+      }
+    );
+
+    expect(result).toEqual({ rowCount: 3, widerRows: 1 });
+    expect(rows).toEqual([{ id: 1, amount: 2.5 }, { id: 2, amount: 3 }, { id: 3, amount: null }]);
+  });
+});
@@ -0,0 +1,278 @@
+// Streaming RFC 4180 CSV parser
+import type { DatasetRow } from './dataset-chunks';
+
+export type CsvColumnType = 'string' | 'number' | 'boolean' | 'date';
+
+export interface CsvImportOptions {
+  delimiter: string;
+  encoding: string;
+  // Index of the header row; rows above it are skipped. -1 means the file has no header.
+  headerRow: number;
+  columnTypes: Record<string, CsvColumnType>;
+}
+
+export interface CsvPreview {
+  headers: string[];
+  rows: string[][];
+  inferredTypes: Record<string, CsvColumnType>;
+}
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+export const CSV_ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-15'];
+
+const PREVIEW_BYTES = 64 * 1024;
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Incremental state machine: feed text in any slicing, get back completed records.
+// Quoted fields may contain delimiters, line breaks and doubled quotes.
+export class CsvParser {
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  // Whether any field of the current record was quoted, so `""` is not mistaken for a blank line
+  private quoted = false;
+  private quotePending = false;
+  private skipLineFeed = false;
+  private atStart = true;
+
+  constructor(private delimiter: string = ',') {}
+
+  push(text: string): string[][] {
+    const records: string[][] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.atStart) {
+        this.atStart = false;
+        if (char === '\uFEFF') continue;
+      }
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        // The previous quote closed the field; handle this char as unquoted
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.quotePending = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && this.field.length === 0) {
+        this.inQuotes = true;
+        this.quoted = true;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\r' || char === '\n') {
+        this.skipLineFeed = char === '\r';
+        records.push(...this.endRecord());
+      } else {
+        this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  // Emits the final record when the input does not end with a line break
+  flush(): string[][] {
+    if (this.quotePending) {
+      this.quotePending = false;
+      this.inQuotes = false;
+    }
+    if (this.field.length > 0 || this.record.length > 0 || this.quoted) {
+      return this.endRecord();
+    }
+    return [];
+  }
+
+  private endField() {
+    this.record.push(this.field);
+    this.field = '';
+  }
+
+  private endRecord(): string[][] {
+    this.endField();
+    const record = this.record;
+    const quoted = this.quoted;
+    this.record = [];
+    this.quoted = false;
+    // Blank lines are not records
+    return record.length === 1 && record[0] === '' && !quoted ? [] : [record];
+  }
+}
+
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const parser = new CsvParser(delimiter);
+  return [...parser.push(text), ...parser.flush()];
+}
+
+// Picks the candidate that splits the sample into the most consistent, widest rows
+export function detectDelimiter(sample: string): string {
+  let best = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const records = new CsvParser(delimiter).push(sample).slice(0, 20);
+    if (records.length === 0) continue;
+
+    const width = records[0].length;
+    if (width < 2) continue;
+
+    const consistent = records.filter(record => record.length === width).length / records.length;
+    const score = consistent * width;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// Fills blanks and de-duplicates header names so every column has a unique key
+export function normalizeHeaders(headers: string[], width: number): string[] {
+  const seen = new Map<string, number>();
+  const result: string[] = [];
+
+  for (let i = 0; i < width; i++) {
+    const base = headers[i]?.trim() || `column_${i + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    result.push(count === 0 ? base : `${base}_${count + 1}`);
+  }
+
+  return result;
+}
+
+export function inferColumnType(values: string[]): CsvColumnType {
+  const present = values.map(v => v.trim()).filter(v => v !== '');
+  if (present.length === 0) return 'string';
+  if (present.every(v => NUMBER_PATTERN.test(v))) return 'number';
+  if (present.every(v => BOOLEAN_PATTERN.test(v))) return 'boolean';
+  if (present.every(v => DATE_PATTERN.test(v) && !isNaN(Date.parse(v)))) return 'date';
+  return 'string';
+}
+
+// Empty cells become null; values that do not fit the chosen type are kept as text
+export function convertValue(raw: string, type: CsvColumnType): unknown {
+  const value = raw.trim();
+  if (value === '') return null;
+
+  switch (type) {
+    case 'number':
+      return NUMBER_PATTERN.test(value) ? Number(value) : raw;
+    case 'boolean':
+      return BOOLEAN_PATTERN.test(value) ? value.toLowerCase() === 'true' : raw;
+    case 'date': {
+      const time = Date.parse(value);
+      return isNaN(time) ? raw : new Date(time).toISOString();
+    }
+    default:
+      return raw;
+  }
+}
+
+export function toRow(record: string[], headers: string[], columnTypes: Record<string, CsvColumnType>): DatasetRow {
+  const row: DatasetRow = {};
+  headers.forEach((header, index) => {
+    row[header] = convertValue(record[index] ?? '', columnTypes[header] ?? 'string');
+  });
+  return row;
+}
+
+async function readPreviewText(file: File, encoding: string): Promise<string> {
+  const buffer = await file.slice(0, PREVIEW_BYTES).arrayBuffer();
+  return new TextDecoder(encoding).decode(buffer);
+}
+
+export async function sniffDelimiter(file: File, encoding = 'utf-8'): Promise<string> {
+  return detectDelimiter(await readPreviewText(file, encoding));
+}
+
+export async function previewCsv(
+  file: File,
+  options: Pick<CsvImportOptions, 'delimiter' | 'encoding' | 'headerRow'>,
+  maxRows = 10
+): Promise<CsvPreview> {
+  const text = await readPreviewText(file, options.encoding);
+  const parser = new CsvParser(options.delimiter);
+  // Only drop the trailing partial record when the preview did not reach the end of the file
+  const records = file.size <= PREVIEW_BYTES ? [...parser.push(text), ...parser.flush()] : parser.push(text);
+
+  const headerRecord = options.headerRow >= 0 ? records[options.headerRow] ?? [] : [];
+  const dataRecords = records.slice(options.headerRow + 1);
+  const width = Math.max(headerRecord.length, ...dataRecords.map(record => record.length), 0);
+  const headers = normalizeHeaders(headerRecord, width);
+
+  const inferredTypes: Record<string, CsvColumnType> = {};
+  headers.forEach((header, index) => {
+    inferredTypes[header] = inferColumnType(dataRecords.map(record => record[index] ?? ''));
+  });
+
+  return { headers, rows: dataRecords.slice(0, maxRows), inferredTypes };
+}
+
+export interface CsvImportResult {
+  rowCount: number;
+  // Rows with more fields than there are headers; the extra fields are not imported
+  widerRows: number;
+}
+
+// Decodes and parses the file incrementally, handing rows over batch by batch
+export async function streamCsv(
+  file: File,
+  options: CsvImportOptions,
+  headers: string[],
+  onRows: (rows: DatasetRow[]) => Promise<void>,
+  onProgress?: (bytesRead: number) => void
+): Promise<CsvImportResult> {
+  const decoder = new TextDecoder(options.encoding);
+  const parser = new CsvParser(options.delimiter);
+  const reader = file.stream().getReader();
+  let recordIndex = 0;
+  let rowCount = 0;
+  let widerRows = 0;
+  let bytesRead = 0;
+
+  const emit = async (records: string[][]) => {
+    const rows: DatasetRow[] = [];
+    for (const record of records) {
+      if (recordIndex++ > options.headerRow) {
+        if (record.length > headers.length) widerRows++;
+        rows.push(toRow(record, headers, options.columnTypes));
+      }
+    }
+    if (rows.length > 0) {
+      rowCount += rows.length;
+      await onRows(rows);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    await emit(parser.push(decoder.decode(value, { stream: true })));
+    onProgress?.(bytesRead);
+  }
+  await emit([...parser.push(decoder.decode()), ...parser.flush()]);
+
+  return { rowCount, widerRows };
+}
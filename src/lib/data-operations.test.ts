@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnTypeError, dataOperations, resolveOperation, type DataOperationName } from './data-operations';
+import type { DatasetRow } from './dataset-chunks';
+import fixture from './__fixtures__/data-operations-parity.json';
+
+// Expected results come from running the same operations' Python with pandas; regenerate
+// them with `npm run fixtures:parity` after changing an operation or adding a case.
+interface ParityCase {
+  name: string;
+  dataset: string;
+  operation: DataOperationName;
+  params: unknown;
+  expected: { result?: unknown; error?: string; message?: string };
+}
+
+const datasets = fixture.datasets as Record<string, DatasetRow[]>;
+const cases = fixture.cases as ParityCase[];
+
+describe('JavaScript fallbacks match pandas', () => {
+  it.each(cases.filter(c => !c.expected.error).map(c => [c.name, c]))('%s', (_, c: ParityCase) => {
+    const result = resolveOperation(c.operation, c.params).fallback(datasets[c.dataset]);
+    // Round-trips like the worker's result, so -0 and 0 compare equal and keys match up
+    expect(JSON.parse(JSON.stringify(result))).toEqual(c.expected.result);
+  });
+
+  it.each(cases.filter(c => c.expected.error === 'TypeError').map(c => [c.name, c]))('%s raises ColumnTypeError', (_, c: ParityCase) => {
+    expect(() => resolveOperation(c.operation, c.params).fallback(datasets[c.dataset])).toThrow(ColumnTypeError);
+  });
+
+  it.each(cases.filter(c => c.expected.error === 'KeyError').map(c => [c.name, c]))('%s raises', (_, c: ParityCase) => {
+    expect(() => resolveOperation(c.operation, c.params).fallback(datasets[c.dataset])).toThrow(/not found/);
+  });
+
+  it('covers every registered operation', () => {
+    const covered = new Set(cases.map(c => c.operation));
+    expect(Object.keys(dataOperations).filter(name => !covered.has(name as DataOperationName))).toEqual([]);
+  });
+});
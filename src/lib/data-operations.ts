@@ -0,0 +1,637 @@
+// Registry of named data operations
+//
+// Each operation declares its parameters with zod, a Python implementation that runs in
+// the Pyodide worker, and a JavaScript fallback with the same output shape. The Python
+// source is static: the rows arrive as the `data` global and the validated parameters
+// as `params`, so user input is never spliced into code.
+import { z } from 'zod';
+import type { DatasetRow } from './dataset-chunks';
+import {
+  columnsOf,
+  columnValues,
+  describe,
+  dtypes,
+  isMissing,
+  isNumericDtype,
+  kahanSum,
+  mean,
+  median,
+  nullCounts,
+  pairwiseSum,
+  quantile,
+  valueCounts,
+} from './analytics-engine';
+
+export interface TableResult {
+  columns: string[];
+  rows: DatasetRow[];
+  // Rows matched before any limit was applied
+  rowCount: number;
+}
+
+interface DataOperation<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  description: string;
+  params: S;
+  python: string;
+  fallback: (rows: DatasetRow[], params: z.output<S>) => unknown;
+}
+
+const defineOperation = <S extends z.ZodTypeAny>(operation: DataOperation<S>) => operation;
+
+const column = z.string().min(1, 'Column name is required');
+const scalar = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+const aggregateFn = z.enum(['count', 'sum', 'mean', 'min', 'max', 'median', 'nunique']);
+
+export type AggregateFn = z.infer<typeof aggregateFn>;
+
+const filterCondition = z.object({
+  column,
+  op: z.enum(['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'contains', 'in', 'isnull', 'notnull']),
+  value: z.union([scalar, z.array(scalar)]).optional(),
+});
+
+export type FilterCondition = z.infer<typeof filterCondition>;
+
+// Raised by the JavaScript fallbacks wherever pandas raises a TypeError: ordering text
+// against numbers, or a numeric aggregate over text
+export class ColumnTypeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ColumnTypeError';
+  }
+}
+
+// Shared by every Python operation: builds `df` and the table helper
+const PYTHON_PRELUDE = `
+import math
+import pandas as pd
+import numpy as np
+
+if isinstance(data, list) and len(data) > 0:
+    df = pd.DataFrame(data)
+elif isinstance(data, dict):
+    df = pd.DataFrame([data])
+else:
+    df = pd.DataFrame()
+
+def _table(frame, total=None):
+    frame = frame.astype(object).where(pd.notnull(frame), None)
+    return {
+        "columns": [str(c) for c in frame.columns],
+        "rows": frame.to_dict("records"),
+        "rowCount": len(frame) if total is None else total,
+    }
+
+def _mask(conditions):
+    mask = pd.Series(True, index=df.index)
+    for cond in conditions:
+        _require(cond["column"])
+        col = df[cond["column"]]
+        op = cond["op"]
+        value = cond.get("value")
+        if op == "isnull":
+            mask &= col.isnull()
+        elif op == "notnull":
+            mask &= col.notnull()
+        elif op == "in":
+            mask &= col.isin(value if isinstance(value, list) else [value])
+        elif op == "contains":
+            needle = str(value if value is not None else "").lower()
+            mask &= col.map(lambda v: v is not None and not (isinstance(v, float) and math.isnan(v)) and needle in str(v).lower())
+        elif value is None or isinstance(value, list):
+            mask &= pd.Series(op == "ne", index=df.index)
+        else:
+            present = col.notnull()
+            if op == "eq":
+                mask &= present & (col == value)
+            elif op == "ne":
+                mask &= ~present | (col != value)
+            elif op == "gt":
+                mask &= present & (col > value)
+            elif op == "gte":
+                mask &= present & (col >= value)
+            elif op == "lt":
+                mask &= present & (col < value)
+            elif op == "lte":
+                mask &= present & (col <= value)
+    return mask
+
+def _require(*names):
+    for name in names:
+        if name not in df.columns:
+            raise KeyError(f'Column "{name}" not found')
+`;
+
+// --- JavaScript helpers --------------------------------------------------
+
+const requireColumns = (rows: DatasetRow[], ...names: string[]) => {
+  const columns = new Set(columnsOf(rows));
+  for (const name of names) {
+    if (!columns.has(name)) throw new Error(`Column "${name}" not found`);
+  }
+};
+
+const toTable = (rows: DatasetRow[], columns: string[], rowCount = rows.length): TableResult => ({
+  columns,
+  rows: rows.map(row => Object.fromEntries(columns.map(c => [c, isMissing(row[c]) ? null : row[c]]))),
+  rowCount,
+});
+
+// Python's ordering: numbers and booleans compare with each other, text only with text
+export const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  if (typeof a === 'string' || typeof b === 'string') {
+    throw new ColumnTypeError(`Cannot compare ${typeof a === 'string' ? 'text' : typeof a} with ${typeof b === 'string' ? 'text' : typeof b}`);
+  }
+  return Number(a) - Number(b);
+};
+
+// Booleans count as 0 and 1, as they do in numpy
+const toNumbers = (values: unknown[], fn: AggregateFn): number[] =>
+  values.map(v => {
+    if (typeof v === 'number') return v;
+    if (typeof v === 'boolean') return Number(v);
+    throw new ColumnTypeError(`Cannot compute ${fn} of non-numeric values`);
+  });
+
+// pandas sums text by concatenating it
+const isText = (present: unknown[]) => present.length > 0 && present.every(v => typeof v === 'string');
+
+export const aggregate = (values: unknown[], fn: AggregateFn): unknown => {
+  const present = values.filter(v => !isMissing(v));
+
+  switch (fn) {
+    case 'count':
+      return present.length;
+    case 'sum':
+      return isText(present) ? present.join('') : kahanSum(toNumbers(present, fn));
+    case 'mean': {
+      const numbers = toNumbers(present, fn);
+      return numbers.length ? kahanSum(numbers) / numbers.length : null;
+    }
+    case 'median':
+      return median(toNumbers(present, fn));
+    case 'min':
+      return present.length ? [...present].sort(compareValues)[0] : null;
+    case 'max':
+      return present.length ? [...present].sort(compareValues)[present.length - 1] : null;
+    case 'nunique':
+      return new Set(present.map(v => JSON.stringify(v))).size;
+  }
+};
+
+const matchesCondition = (row: DatasetRow, condition: FilterCondition): boolean => {
+  const value = row[condition.column];
+  const target = condition.value;
+
+  switch (condition.op) {
+    case 'isnull':
+      return isMissing(value);
+    case 'notnull':
+      return !isMissing(value);
+    case 'in':
+      return !isMissing(value) && (Array.isArray(target) ? target : [target]).some(t => t === value);
+    case 'contains':
+      return !isMissing(value) && String(value).toLowerCase().includes(String(target ?? '').toLowerCase());
+  }
+
+  if (isMissing(value) || isMissing(target) || Array.isArray(target)) {
+    return condition.op === 'ne';
+  }
+
+  switch (condition.op) {
+    case 'eq':
+      return value === target;
+    case 'ne':
+      return value !== target;
+    case 'gt':
+      return compareValues(value, target) > 0;
+    case 'gte':
+      return compareValues(value, target) >= 0;
+    case 'lt':
+      return compareValues(value, target) < 0;
+    case 'lte':
+      return compareValues(value, target) <= 0;
+  }
+};
+
+const matchesAll = (rows: DatasetRow[], conditions: FilterCondition[]) => {
+  conditions.forEach(c => requireColumns(rows, c.column));
+  return rows.filter(row => conditions.every(c => matchesCondition(row, c)));
+};
+
+const groupKey = (row: DatasetRow, by: string[]) => JSON.stringify(by.map(c => row[c]));
+
+// Deterministic PRNG shared with the Python `sample` implementation
+const mulberry32 = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1) >>> 0;
+    t = ((t + (Math.imul(t ^ (t >>> 7), t | 61) >>> 0)) >>> 0 ^ t) >>> 0;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const sampleIndices = (length: number, n: number, seed: number): number[] => {
+  const random = mulberry32(seed);
+  const indices = Array.from({ length }, (_, i) => i);
+  const count = Math.min(n, length);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (length - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, count);
+};
+
+// --- Operations ----------------------------------------------------------
+
+export const dataOperations = {
+  summary: defineOperation({
+    description: 'Shape, columns, dtypes, missing values and a sample of rows',
+    params: z.object({}).strict(),
+    python: `
+result = {
+    "shape": df.shape,
+    "columns": list(df.columns) if len(df.columns) > 0 else [],
+    "dtypes": df.dtypes.to_dict() if len(df.columns) > 0 else {},
+    "missing": df.isnull().sum().to_dict() if len(df.columns) > 0 else {},
+    "sample": df.head().to_dict('records') if len(df) > 0 else []
+}
+`,
+    fallback: (rows) => {
+      const columns = columnsOf(rows);
+      return {
+        shape: [rows.length, columns.length],
+        columns,
+        dtypes: dtypes(rows, columns),
+        missing: nullCounts(rows, columns),
+        sample: toTable(rows.slice(0, 5), columns).rows,
+      };
+    },
+  }),
+
+  stats: defineOperation({
+    description: 'Descriptive statistics for numeric columns',
+    params: z.object({}).strict(),
+    python: `
+result = df.describe().to_dict() if len(df.columns) > 0 else {}
+`,
+    fallback: (rows) => describe(rows),
+  }),
+
+  quantiles: defineOperation({
+    description: 'Quantiles of numeric columns',
+    params: z.object({
+      columns: z.array(column).optional(),
+      q: z.array(z.number().min(0).max(1)).min(1).default([0.25, 0.5, 0.75]),
+    }),
+    python: `
+numeric = list(df.select_dtypes(include="number").columns)
+cols = params.get("columns") or numeric
+_require(*cols)
+for name in cols:
+    if name not in numeric:
+        raise TypeError(f'Column "{name}" is not numeric')
+out = df[cols].quantile(params["q"]).reset_index(drop=True)
+out.insert(0, "quantile", params["q"])
+result = _table(out)
+`,
+    fallback: (rows, params) => {
+      const types = dtypes(rows);
+      const numeric = Object.keys(types).filter(c => isNumericDtype(types[c]));
+      const columns = params.columns?.length ? params.columns : numeric;
+      requireColumns(rows, ...columns);
+      for (const name of columns) {
+        if (!numeric.includes(name)) throw new ColumnTypeError(`Column "${name}" is not numeric`);
+      }
+
+      const values = Object.fromEntries(columns.map(c => [c, columnValues(rows, c)]));
+      const out = params.q.map(q => {
+        const row: DatasetRow = { quantile: q };
+        columns.forEach(c => {
+          row[c] = quantile(values[c], q);
+        });
+        return row;
+      });
+      return toTable(out, ['quantile', ...columns]);
+    },
+  }),
+
+  filter: defineOperation({
+    description: 'Rows matching all conditions',
+    params: z.object({
+      conditions: z.array(filterCondition).default([]),
+      limit: z.number().int().positive().max(10_000).default(1000),
+    }),
+    python: `
+matched = df[_mask(params["conditions"])]
+result = _table(matched.head(params["limit"]), len(matched))
+`,
+    fallback: (rows, params) => {
+      const matched = matchesAll(rows, params.conditions);
+      return toTable(matched.slice(0, params.limit), columnsOf(rows), matched.length);
+    },
+  }),
+
+  sort: defineOperation({
+    description: 'Rows ordered by one or more columns',
+    params: z.object({
+      by: z.array(z.object({ column, ascending: z.boolean().default(true) })).min(1),
+      limit: z.number().int().positive().max(10_000).default(1000),
+    }),
+    python: `
+_require(*[s["column"] for s in params["by"]])
+ordered = df.sort_values(
+    [s["column"] for s in params["by"]],
+    ascending=[s["ascending"] for s in params["by"]],
+    kind="stable",
+    na_position="last",
+)
+result = _table(ordered.head(params["limit"]), len(ordered))
+`,
+    fallback: (rows, params) => {
+      requireColumns(rows, ...params.by.map(s => s.column));
+      const ordered = [...rows].sort((a, b) => {
+        for (const { column: key, ascending } of params.by) {
+          const av = a[key];
+          const bv = b[key];
+          if (isMissing(av) || isMissing(bv)) {
+            if (isMissing(av) && isMissing(bv)) continue;
+            return isMissing(av) ? 1 : -1;
+          }
+          const order = compareValues(av, bv);
+          if (order !== 0) return ascending ? order : -order;
+        }
+        return 0;
+      });
+      return toTable(ordered.slice(0, params.limit), columnsOf(rows), ordered.length);
+    },
+  }),
+
+  aggregate: defineOperation({
+    description: 'Whole-column aggregates over the rows matching all conditions',
+    params: z.object({
+      aggregations: z.array(z.object({ column, fn: aggregateFn })).min(1),
+      conditions: z.array(filterCondition).default([]),
+    }),
+    python: `
+_require(*[a["column"] for a in params["aggregations"]])
+matched = df[_mask(params["conditions"])]
+out = {f'{a["fn"]}_{a["column"]}': matched[a["column"]].agg(a["fn"]) for a in params["aggregations"]}
+result = _table(pd.DataFrame([out]), len(matched))
+`,
+    fallback: (rows, params) => {
+      requireColumns(rows, ...params.aggregations.map(a => a.column));
+      const matched = matchesAll(rows, params.conditions);
+      const row: DatasetRow = {};
+      for (const a of params.aggregations) {
+        const values = columnValues(matched, a.column);
+        const present = values.filter(v => !isMissing(v));
+        // Series reductions use numpy's pairwise sums, unlike the Kahan sums of groupby.
+        // Missing values stay in place as zeros, since that changes how the sum is split.
+        const filled = () => {
+          const numbers = toNumbers(present, a.fn);
+          let next = 0;
+          return values.map(v => (isMissing(v) ? 0 : numbers[next++]));
+        };
+        if (a.fn === 'sum') {
+          row[`sum_${a.column}`] = isText(present) ? present.join('') : pairwiseSum(filled());
+        } else if (a.fn === 'mean') {
+          row[`mean_${a.column}`] = present.length ? pairwiseSum(filled()) / present.length : null;
+        } else {
+          row[`${a.fn}_${a.column}`] = aggregate(values, a.fn);
+        }
+      }
+      return toTable([row], Object.keys(row), matched.length);
+    },
+  }),
+
+  groupBy: defineOperation({
+    description: 'Aggregates per group of key columns',
+    params: z.object({
+      by: z.array(column).min(1),
+      aggregations: z.array(z.object({ column, fn: aggregateFn })).default([]),
+      conditions: z.array(filterCondition).default([]),
+    }),
+    python: `
+_require(*params["by"], *[a["column"] for a in params["aggregations"]])
+grouped = df[_mask(params["conditions"])].groupby(params["by"], sort=True, dropna=True)
+if len(params["aggregations"]) == 0:
+    out = grouped.size().reset_index(name="count")
+else:
+    out = pd.DataFrame({
+        f'{a["fn"]}_{a["column"]}': grouped[a["column"]].agg(a["fn"])
+        for a in params["aggregations"]
+    }).reset_index()
+result = _table(out)
+`,
+    fallback: (rows, params) => {
+      requireColumns(rows, ...params.by, ...params.aggregations.map(a => a.column));
+      const groups = new Map<string, DatasetRow[]>();
+      for (const row of matchesAll(rows, params.conditions)) {
+        if (params.by.some(key => isMissing(row[key]))) continue;
+        const key = groupKey(row, params.by);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key).push(row);
+      }
+
+      const keys = [...groups.values()].map(group => group[0]).sort((a, b) => {
+        for (const key of params.by) {
+          const order = compareValues(a[key], b[key]);
+          if (order !== 0) return order;
+        }
+        return 0;
+      });
+
+      const aggregations = params.aggregations;
+      const columns = aggregations.length
+        ? [...params.by, ...aggregations.map(a => `${a.fn}_${a.column}`)]
+        : [...params.by, 'count'];
+
+      const out = keys.map(first => {
+        const group = groups.get(groupKey(first, params.by));
+        const row: DatasetRow = Object.fromEntries(params.by.map(key => [key, first[key]]));
+        if (aggregations.length === 0) {
+          row.count = group.length;
+        }
+        for (const a of aggregations) {
+          row[`${a.fn}_${a.column}`] = aggregate(group.map(r => r[a.column]), a.fn);
+        }
+        return row;
+      });
+
+      return toTable(out, columns);
+    },
+  }),
+
+  valueCounts: defineOperation({
+    description: 'Frequency of each distinct value in a column',
+    params: z.object({
+      column,
+      limit: z.number().int().positive().max(10_000).default(20),
+      dropna: z.boolean().default(true),
+    }),
+    python: `
+_require(params["column"])
+counts = df[params["column"]].value_counts(dropna=params["dropna"], sort=False)
+out = pd.DataFrame({"value": counts.index, "count": counts.values})
+out = out.sort_values("count", ascending=False, kind="stable")
+result = _table(out.head(params["limit"]).reset_index(drop=True), len(out))
+`,
+    fallback: (rows, params) => {
+      requireColumns(rows, params.column);
+      const out = valueCounts(columnValues(rows, params.column), params.dropna);
+      return toTable(out.slice(0, params.limit), ['value', 'count'], out.length);
+    },
+  }),
+
+  pivot: defineOperation({
+    description: 'Cross-tabulates one column against another',
+    params: z.object({
+      index: column,
+      columns: column,
+      values: column,
+      fn: aggregateFn.default('sum'),
+    }),
+    python: `
+_require(params["index"], params["columns"], params["values"])
+out = df.pivot_table(
+    index=params["index"],
+    columns=params["columns"],
+    values=params["values"],
+    aggfunc=params["fn"],
+    sort=True,
+)
+out.columns = [str(c) for c in out.columns]
+result = _table(out.reset_index())
+`,
+    fallback: (rows, params) => {
+      requireColumns(rows, params.index, params.columns, params.values);
+      const groups = new Map<string, { indexValue: unknown; columnValue: unknown; values: unknown[] }>();
+      for (const row of rows) {
+        const indexValue = row[params.index];
+        const columnValue = row[params.columns];
+        if (isMissing(indexValue) || isMissing(columnValue)) continue;
+
+        const key = JSON.stringify([indexValue, String(columnValue)]);
+        if (!groups.has(key)) groups.set(key, { indexValue, columnValue, values: [] });
+        groups.get(key).values.push(row[params.values]);
+      }
+
+      // Like pivot_table's dropna, cells that aggregate to nothing are dropped, and with
+      // them any row or column left empty
+      const cells = new Map<string, Map<string, unknown>>();
+      const indexValues = new Map<string, unknown>();
+      const columnValues = new Map<string, unknown>();
+      for (const { indexValue, columnValue, values } of groups.values()) {
+        const value = aggregate(values, params.fn);
+        if (isMissing(value)) continue;
+
+        const indexKey = JSON.stringify(indexValue);
+        const columnKey = String(columnValue);
+        indexValues.set(indexKey, indexValue);
+        columnValues.set(columnKey, columnValue);
+        if (!cells.has(indexKey)) cells.set(indexKey, new Map());
+        cells.get(indexKey).set(columnKey, value);
+      }
+
+      const columnKeys = [...columnValues.entries()]
+        .sort(([, a], [, b]) => compareValues(a, b))
+        .map(([key]) => key);
+      const out = [...indexValues.entries()]
+        .sort(([, a], [, b]) => compareValues(a, b))
+        .map(([indexKey, indexValue]) => {
+          const row: DatasetRow = { [params.index]: indexValue };
+          for (const columnKey of columnKeys) {
+            row[columnKey] = cells.get(indexKey).get(columnKey) ?? null;
+          }
+          return row;
+        });
+
+      return toTable(out, [params.index, ...columnKeys]);
+    },
+  }),
+
+  sample: defineOperation({
+    description: 'A reproducible random sample of rows',
+    params: z.object({
+      n: z.number().int().positive().max(10_000).default(5),
+      seed: z.number().int().nonnegative().default(42),
+    }),
+    python: `
+def _mulberry32(seed):
+    state = seed & 0xFFFFFFFF
+    def next_value():
+        nonlocal state
+        state = (state + 0x6D2B79F5) & 0xFFFFFFFF
+        t = ((state ^ (state >> 15)) * (state | 1)) & 0xFFFFFFFF
+        t = ((t + (((t ^ (t >> 7)) * (t | 61)) & 0xFFFFFFFF)) & 0xFFFFFFFF) ^ t
+        return ((t ^ (t >> 14)) & 0xFFFFFFFF) / 4294967296
+    return next_value
+
+random = _mulberry32(params["seed"])
+indices = list(range(len(df)))
+count = min(params["n"], len(df))
+for i in range(count):
+    j = i + int(random() * (len(df) - i))
+    indices[i], indices[j] = indices[j], indices[i]
+result = _table(df.iloc[indices[:count]], len(df))
+`,
+    fallback: (rows, params) => {
+      const picked = sampleIndices(rows.length, params.n, params.seed).map(i => rows[i]);
+      return toTable(picked, columnsOf(rows), rows.length);
+    },
+  }),
+
+  topN: defineOperation({
+    description: 'Rows with the highest (or lowest) values in a column',
+    params: z.object({
+      column,
+      n: z.number().int().positive().max(10_000).default(10),
+      ascending: z.boolean().default(false),
+    }),
+    python: `
+_require(params["column"])
+ordered = df[df[params["column"]].notnull()].sort_values(
+    params["column"], ascending=params["ascending"], kind="stable"
+)
+result = _table(ordered.head(params["n"]), len(ordered))
+`,
+    fallback: (rows, params) => {
+      requireColumns(rows, params.column);
+      const present = rows.filter(row => !isMissing(row[params.column]));
+      const ordered = [...present].sort((a, b) => {
+        const order = compareValues(a[params.column], b[params.column]);
+        return params.ascending ? order : -order;
+      });
+      return toTable(ordered.slice(0, params.n), columnsOf(rows), ordered.length);
+    },
+  }),
+};
+
+export type DataOperationName = keyof typeof dataOperations;
+export type DataOperationParams<N extends DataOperationName> = z.input<(typeof dataOperations)[N]['params']>;
+
+export function isDataOperation(name: string): name is DataOperationName {
+  return Object.prototype.hasOwnProperty.call(dataOperations, name);
+}
+
+export function resolveOperation(name: string, params: unknown = {}) {
+  if (!isDataOperation(name)) {
+    throw new Error(`Unknown data operation "${name}"`);
+  }
+
+  const operation: DataOperation = dataOperations[name];
+  const parsed = operation.params.safeParse(params ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'params'}: ${issue.message}`);
+    throw new Error(`Invalid parameters for "${name}": ${issues.join('; ')}`);
+  }
+
+  return {
+    params: parsed.data,
+    python: `${PYTHON_PRELUDE}\n${operation.python}\nresult`,
+    fallback: (rows: DatasetRow[]) => operation.fallback(rows, parsed.data),
+  };
+}
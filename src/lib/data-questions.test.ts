@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { parseDataQuestion, type DataQuestionParse } from './data-questions';
+import type { DatasetRecord } from './local-backend';
+
+const sales = {
+  id: 'sales',
+  name: 'sales.csv',
+  manifest: { rowCount: 4, columns: ['region', 'revenue', 'status'], chunkSize: 1000, chunkCount: 1 },
+} as DatasetRecord;
+
+const byRegion = {
+  columns: ['region', 'sum_revenue'],
+  rows: [
+    { region: 'East', sum_revenue: 120 },
+    { region: 'North', sum_revenue: 340 },
+    { region: 'West', sum_revenue: 90 },
+  ],
+  rowCount: 3,
+};
+
+const parse = (question: string) => parseDataQuestion(question, [sales]);
+
+const planOf = (parsed: DataQuestionParse) => {
+  if (!('plan' in parsed)) throw new Error(`Expected a plan, got "${parsed.ambiguous}"`);
+  return parsed.plan;
+};
+
+describe('parseDataQuestion', () => {
+  it('ranks groups by their total for "which X has the highest Y"', () => {
+    const plan = planOf(parse('Which region has the highest revenue?'));
+    expect(plan.operation).toBe('groupBy');
+    expect(plan.params).toEqual({ by: ['region'], aggregations: [{ column: 'revenue', fn: 'sum' }], conditions: [] });
+    expect(plan.describe(byRegion)).toBe('North has the highest total of revenue in "sales.csv" (340), out of 3 values of region.');
+  });
+
+  it('uses the aggregate named alongside the superlative', () => {
+    const plan = planOf(parse('which region has the lowest average revenue'));
+    expect(plan.params).toMatchObject({ by: ['region'], aggregations: [{ column: 'revenue', fn: 'mean' }] });
+    expect(plan.describe({
+      columns: ['region', 'mean_revenue'],
+      rows: [{ region: 'East', mean_revenue: 40 }, { region: 'North', mean_revenue: null }, { region: 'West', mean_revenue: 30 }],
+      rowCount: 3,
+    })).toBe('West has the lowest average of revenue in "sales.csv" (30), out of 3 values of region.');
+  });
+
+  it('keeps conditions when ranking groups', () => {
+    const plan = planOf(parse('which region has the most revenue where status = paid'));
+    expect(plan.params).toMatchObject({ conditions: [{ column: 'status', op: 'eq', value: 'paid' }] });
+  });
+
+  it('counts rows per group when the ranked thing is not a column', () => {
+    const plan = planOf(parse('which region has the most orders'));
+    expect(plan.params).toEqual({ by: ['region'], conditions: [] });
+    expect(plan.describe({
+      columns: ['region', 'count'],
+      rows: [{ region: 'East', count: 2 }, { region: 'North', count: 5 }],
+      rowCount: 2,
+    })).toBe('North has the most rows in "sales.csv" (5), out of 2 values of region.');
+  });
+
+  it('asks for a column rather than taking the maximum of a category', () => {
+    expect(parse('which region has the highest value')).toMatchObject({ ambiguous: expect.stringContaining('Which column') });
+  });
+
+  it('still takes the maximum of a single column', () => {
+    const plan = planOf(parse('what is the highest revenue'));
+    expect(plan.operation).toBe('aggregate');
+    expect(plan.params).toEqual({ aggregations: [{ column: 'revenue', fn: 'max' }], conditions: [] });
+  });
+
+  it('aggregates a metric by a group', () => {
+    const plan = planOf(parse('average revenue by region'));
+    expect(plan.operation).toBe('groupBy');
+    expect(plan.params).toEqual({ by: ['region'], aggregations: [{ column: 'revenue', fn: 'mean' }], conditions: [] });
+  });
+
+  it('filters rows on a condition', () => {
+    const plan = planOf(parse('how many rows have status = failed'));
+    expect(plan.operation).toBe('filter');
+    expect(plan.params).toEqual({ conditions: [{ column: 'status', op: 'eq', value: 'failed' }], limit: 50 });
+  });
+
+  it('returns the top rows by a column', () => {
+    const plan = planOf(parse('top 3 by revenue'));
+    expect(plan.operation).toBe('topN');
+    expect(plan.params).toEqual({ column: 'revenue', n: 3, ascending: false });
+  });
+
+  it('reports questions it cannot turn into a calculation', () => {
+    expect(parse('tell me a joke')).toEqual({ ambiguous: 'I couldn\'t turn that into a calculation on "sales.csv".', dataset: sales });
+  });
+});
@@ -0,0 +1,361 @@
+// Answers plain-language questions about datasets with local computation
+//
+// A question is parsed into one registered data operation, run through
+// processDataLocally, and described back as a sentence plus a result table.
+// Anything the parser cannot pin down is reported as ambiguous instead of guessed.
+import type { AggregateFn, DataOperationName, DataOperationParams, FilterCondition, TableResult } from './data-operations';
+import { localBackend, type DatasetRecord } from './local-backend';
+
+export interface DataQuestionPlan {
+  dataset: DatasetRecord;
+  operation: DataOperationName;
+  params: DataOperationParams<DataOperationName>;
+  describe: (result: TableResult) => string;
+}
+
+// `dataset` is set when the dataset was identified but the question itself was not understood
+export type DataQuestionParse = { plan: DataQuestionPlan } | { ambiguous: string; dataset?: DatasetRecord };
+
+export interface DataQuestionOptions {
+  // Only accept questions that name a dataset or one of its columns; used when the
+  // intent classifier did not think the message was about data at all
+  strict?: boolean;
+}
+
+export interface DataAnswer {
+  sentence: string;
+  table: TableResult;
+}
+
+interface ColumnMention {
+  column: string;
+  start: number;
+  end: number;
+}
+
+const AGGREGATE_WORDS: Array<{ fn: AggregateFn; pattern: RegExp; label: string }> = [
+  { fn: 'mean', pattern: /\b(average|avg|mean)\b/, label: 'average' },
+  { fn: 'median', pattern: /\bmedian\b/, label: 'median' },
+  { fn: 'sum', pattern: /\b(sum|total)\b/, label: 'total' },
+  { fn: 'min', pattern: /\b(minimum|min|lowest|smallest)\b/, label: 'minimum' },
+  { fn: 'max', pattern: /\b(maximum|max|highest|largest|biggest)\b/, label: 'maximum' },
+  { fn: 'nunique', pattern: /\b(unique|distinct)\b/, label: 'number of distinct values' },
+  { fn: 'count', pattern: /\b(count|number of|how many)\b/, label: 'count' },
+];
+
+const COMPARATORS: Array<{ op: FilterCondition['op']; pattern: string; label: string }> = [
+  { op: 'gte', pattern: '>=|at least|greater than or equal to', label: '≥' },
+  { op: 'lte', pattern: '<=|at most|less than or equal to', label: '≤' },
+  { op: 'ne', pattern: '!=|<>|is not|not equal to|isn\'t', label: '≠' },
+  { op: 'gt', pattern: '>|greater than|more than|over|above', label: '>' },
+  { op: 'lt', pattern: '<|less than|fewer than|under|below', label: '<' },
+  { op: 'contains', pattern: 'contains|containing|includes', label: 'contains' },
+  { op: 'eq', pattern: '==|=|equals|equal to|is', label: '=' },
+];
+
+const GROUP_WORDS = /\b(by|per|for each|grouped by|across)\b/;
+const SUPERLATIVE = /\b(highest|most|largest|biggest|greatest|top|lowest|least|smallest|fewest|bottom)\b/;
+const ASCENDING_SUPERLATIVE = /^(lowest|least|smallest|fewest|bottom)$/;
+const WHICH = /\b(which|what)\s+$/;
+const TOP_N = /\b(top|highest|largest|biggest|bottom|lowest|smallest)\s+(\d+)\b/;
+const VALUE_COUNTS = /\b(distribution|breakdown|value counts|most common|frequency|frequencies|how often)\b/;
+const STATS = /\b(describe|statistics|stats|summary statistics)\b/;
+const SORT = /\b(sort|sorted|order|ordered)\s+(the rows\s+)?by\b/;
+const SAMPLE = /\b(sample|random rows?)\b/;
+const SHOW_ROWS = /\b(show|list|find|which|what)\b.*\brows?\b/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const columnVariants = (column: string) => {
+  const lower = column.toLowerCase();
+  return [...new Set([lower, lower.replace(/[_-]+/g, ' ')])];
+};
+
+const datasetVariants = (name: string) => {
+  const lower = name.toLowerCase();
+  return [...new Set([lower, lower.replace(/\.[a-z0-9]+$/, '')])].filter(Boolean);
+};
+
+const formatValue = (value: unknown) => {
+  if (typeof value === 'number') {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  }
+  return value === null || value === undefined ? 'n/a' : String(value);
+};
+
+// Longest column names win when mentions overlap ("order date" over "date")
+function findColumns(text: string, columns: string[]): ColumnMention[] {
+  const candidates: ColumnMention[] = [];
+  for (const column of columns) {
+    for (const variant of columnVariants(column)) {
+      const pattern = new RegExp(`(^|[^a-z0-9_])(${escapeRegExp(variant)})(?=$|[^a-z0-9_])`, 'g');
+      for (const match of text.matchAll(pattern)) {
+        const start = match.index + match[1].length;
+        candidates.push({ column, start, end: start + variant.length });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => (b.end - b.start) - (a.end - a.start));
+  const mentions: ColumnMention[] = [];
+  for (const candidate of candidates) {
+    if (!mentions.some(m => candidate.start < m.end && m.start < candidate.end)) {
+      mentions.push(candidate);
+    }
+  }
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+function resolveDataset(text: string, datasets: DatasetRecord[]): DatasetRecord | string {
+  const named = datasets
+    .map(dataset => ({
+      dataset,
+      match: datasetVariants(dataset.name).filter(variant => text.includes(variant)).sort((a, b) => b.length - a.length)[0],
+    }))
+    .filter(entry => entry.match)
+    .sort((a, b) => b.match.length - a.match.length);
+
+  if (named.length > 0) return named[0].dataset;
+  if (datasets.length === 1) return datasets[0];
+  if (datasets.length === 0) return 'There are no datasets yet. Upload one first.';
+  return `Which dataset do you mean? I have ${datasets.map(d => `"${d.name}"`).join(', ')}.`;
+}
+
+function parseValue(raw: string): FilterCondition['value'] {
+  const value = raw.trim().replace(/^["'](.*)["']$/, '$1');
+  if (/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(value)) return Number(value);
+  if (/^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+  return value;
+}
+
+// Pulls "<column> <comparator> <value>" clauses out of the question and blanks them, so the
+// remaining text can be searched for metric and grouping columns without tripping over them
+function extractConditions(text: string, columns: string[]): { conditions: FilterCondition[]; rest: string } {
+  const conditions: FilterCondition[] = [];
+  let rest = text;
+  const comparators = COMPARATORS.map(c => c.pattern).join('|');
+
+  for (const column of [...columns].sort((a, b) => b.length - a.length)) {
+    for (const variant of columnVariants(column)) {
+      const pattern = new RegExp(
+        `(^|[^a-z0-9_])${escapeRegExp(variant)}\\s*(${comparators})\\s*("[^"]*"|'[^']*'|[^\\s,?;]+(\\s+(?!and\\b|or\\b|by\\b|per\\b|in\\b)[^\\s,?;]+)*)`,
+        'g'
+      );
+      for (const match of [...rest.matchAll(pattern)]) {
+        const comparator = COMPARATORS.find(c => new RegExp(`^(${c.pattern})$`).test(match[2]));
+        const value = match[3];
+        if (/^(null|empty|missing|blank)$/.test(value)) {
+          conditions.push({ column, op: comparator.op === 'ne' ? 'notnull' : 'isnull' });
+        } else {
+          conditions.push({ column, op: comparator.op, value: parseValue(value) });
+        }
+        const start = match.index + match[1].length;
+        rest = rest.slice(0, start) + ' '.repeat(match[0].length - match[1].length) + rest.slice(start + match[0].length - match[1].length);
+      }
+    }
+  }
+
+  return { conditions, rest };
+}
+
+const describeConditions = (conditions: FilterCondition[]) =>
+  conditions
+    .map(c => {
+      if (c.op === 'isnull') return `${c.column} is empty`;
+      if (c.op === 'notnull') return `${c.column} is not empty`;
+      const label = COMPARATORS.find(comparator => comparator.op === c.op)?.label ?? c.op;
+      return `${c.column} ${label} ${formatValue(c.value)}`;
+    })
+    .join(' and ');
+
+export function parseDataQuestion(question: string, datasets: DatasetRecord[], { strict = false }: DataQuestionOptions = {}): DataQuestionParse {
+  const text = question.toLowerCase().replace(/\s+/g, ' ').trim();
+  const dataset = resolveDataset(text, datasets);
+  if (typeof dataset === 'string') return { ambiguous: dataset };
+
+  const columns = dataset.manifest.columns;
+  const { conditions, rest } = extractConditions(text, columns);
+  const mentions = findColumns(rest, columns);
+  if (strict && conditions.length === 0 && mentions.length === 0
+    && !datasetVariants(dataset.name).some(variant => text.includes(variant))) {
+    return { ambiguous: 'The question does not mention a dataset or column.', dataset };
+  }
+  const where = conditions.length ? ` where ${describeConditions(conditions)}` : '';
+  const name = `"${dataset.name}"`;
+  const plan = (operation: DataOperationName, params: DataOperationParams<DataOperationName>, describe: DataQuestionPlan['describe']) =>
+    ({ plan: { dataset, operation, params, describe } });
+  const needColumn = () => ({
+    ambiguous: `Which column do you mean? ${name} has ${columns.map(c => `"${c}"`).join(', ')}.`,
+    dataset,
+  });
+
+  const topN = rest.match(TOP_N);
+  if (topN) {
+    const column = mentions[0]?.column;
+    if (!column) return needColumn();
+    const n = Math.min(parseInt(topN[2], 10), 1000);
+    const ascending = /bottom|lowest|smallest/.test(topN[1]);
+    return plan('topN', { column, n, ascending }, () =>
+      `${ascending ? 'Bottom' : 'Top'} ${n} rows of ${name} by ${column}.`);
+  }
+
+  if (VALUE_COUNTS.test(rest)) {
+    const column = mentions[mentions.length - 1]?.column;
+    if (!column) return needColumn();
+    return plan('valueCounts', { column }, result => {
+      const [top] = result.rows;
+      return top
+        ? `${column} has ${result.rowCount.toLocaleString()} distinct values in ${name}; the most common is ${formatValue(top.value)} (${formatValue(top.count)} rows).`
+        : `${column} has no values in ${name}.`;
+    });
+  }
+
+  // "which region has the highest revenue" ranks the regions by their total revenue; it
+  // is not asking for the maximum of region
+  const superlative = rest.match(SUPERLATIVE);
+  const which = superlative && mentions.find(m => WHICH.test(rest.slice(0, m.start)));
+  const ranked = which && mentions.find(m => m.column !== which.column && m.start > superlative.index)?.column;
+  if (which) {
+    const groupColumn = which.column;
+    const ascending = ASCENDING_SUPERLATIVE.test(superlative[1]);
+    const extreme = ascending ? 'lowest' : 'highest';
+    // Any other aggregate word says how to combine the metric; totals otherwise
+    const other = AGGREGATE_WORDS.find(word => word.pattern.test(rest.replace(SUPERLATIVE, ' ')));
+    const pick = (result: TableResult, key: string) => {
+      const ordered = result.rows
+        .filter(row => typeof row[key] === 'number')
+        .sort((a, b) => (a[key] as number) - (b[key] as number));
+      return ascending ? ordered[0] : ordered[ordered.length - 1];
+    };
+
+    if (!ranked) {
+      if (!/^(most|least|fewest)$/.test(superlative[1]) && other?.fn !== 'count') return needColumn();
+      return plan('groupBy', { by: [groupColumn], conditions }, result => {
+        const best = pick(result, 'count');
+        return best
+          ? `${formatValue(best[groupColumn])} has the ${ascending ? 'fewest' : 'most'} rows in ${name}${where} (${formatValue(best.count)}), out of ${result.rowCount.toLocaleString()} values of ${groupColumn}.`
+          : `${name} has no rows with a ${groupColumn}${where}.`;
+      });
+    }
+
+    const fn = other?.fn ?? 'sum';
+    const label = other?.label ?? 'total';
+    const key = `${fn}_${ranked}`;
+    return plan('groupBy', { by: [groupColumn], aggregations: [{ column: ranked, fn }], conditions }, result => {
+      const best = pick(result, key);
+      return best
+        ? `${formatValue(best[groupColumn])} has the ${extreme} ${label} of ${ranked} in ${name}${where} (${formatValue(best[key])}), out of ${result.rowCount.toLocaleString()} values of ${groupColumn}.`
+        : `No ${groupColumn} in ${name}${where} has a numeric ${label} of ${ranked}.`;
+    });
+  }
+
+  const aggregate = AGGREGATE_WORDS.find(word => word.pattern.test(rest));
+  const groupMatch = rest.match(GROUP_WORDS);
+  const groupAt = groupMatch ? groupMatch.index : -1;
+  const groupColumn = groupAt >= 0 ? mentions.find(m => m.start > groupAt)?.column : undefined;
+  const metricColumn = mentions.find(m => groupAt < 0 || m.start < groupAt)?.column;
+
+  if (aggregate && groupColumn) {
+    // "how many orders per region" counts rows; "average revenue by region" aggregates a column
+    if (aggregate.fn === 'count' && (!metricColumn || metricColumn === groupColumn)) {
+      return plan('groupBy', { by: [groupColumn], conditions }, result =>
+        `Row counts by ${groupColumn} in ${name}${where} (${result.rowCount.toLocaleString()} groups).`);
+    }
+    if (!metricColumn) return needColumn();
+
+    const key = `${aggregate.fn}_${metricColumn}`;
+    return plan('groupBy', { by: [groupColumn], aggregations: [{ column: metricColumn, fn: aggregate.fn }], conditions }, result => {
+      const best = [...result.rows].sort((a, b) => Number(b[key] ?? -Infinity) - Number(a[key] ?? -Infinity))[0];
+      const highest = best ? `; highest is ${formatValue(best[groupColumn])} (${formatValue(best[key])})` : '';
+      return `The ${aggregate.label} of ${metricColumn} by ${groupColumn} in ${name}${where} across ${result.rowCount.toLocaleString()} groups${highest}.`;
+    });
+  }
+
+  if (groupMatch && !groupColumn && aggregate) {
+    return needColumn();
+  }
+
+  if (aggregate && metricColumn && !/\brows?\b/.test(rest)) {
+    const key = `${aggregate.fn}_${metricColumn}`;
+    return plan('aggregate', { aggregations: [{ column: metricColumn, fn: aggregate.fn }], conditions }, result =>
+      `The ${aggregate.label} of ${metricColumn} in ${name}${where} is ${formatValue(result.rows[0]?.[key])} (over ${result.rowCount.toLocaleString()} rows).`);
+  }
+
+  if ((aggregate?.fn === 'count' || SHOW_ROWS.test(rest)) && conditions.length > 0) {
+    return plan('filter', { conditions, limit: 50 }, result =>
+      `${result.rowCount.toLocaleString()} rows in ${name} have ${describeConditions(conditions)}.`);
+  }
+
+  if (aggregate?.fn === 'count' && /\brows?\b/.test(rest)) {
+    return plan('filter', { conditions: [], limit: 5 }, result =>
+      `${name} has ${result.rowCount.toLocaleString()} rows.`);
+  }
+
+  if (SORT.test(rest)) {
+    const sortAt = rest.search(SORT);
+    const column = mentions.find(m => m.start > sortAt)?.column;
+    if (!column) return needColumn();
+    const ascending = !/\b(desc|descending|largest first|highest first)\b/.test(rest);
+    return plan('sort', { by: [{ column, ascending }], limit: 50 }, () =>
+      `Rows of ${name} sorted by ${column} (${ascending ? 'ascending' : 'descending'}).`);
+  }
+
+  if (STATS.test(rest)) {
+    return plan('stats', {}, () => `Descriptive statistics for ${name}.`);
+  }
+
+  if (SAMPLE.test(rest)) {
+    const n = Math.min(parseInt(rest.match(/\b(\d+)\b/)?.[1] ?? '5', 10), 1000);
+    return plan('sample', { n }, () => `${n} random rows from ${name}.`);
+  }
+
+  return { ambiguous: `I couldn't turn that into a calculation on ${name}.`, dataset };
+}
+
+// describe() comes back as { column: { statistic: value } }; show it as one row per statistic
+function toTable(operation: DataOperationName, result: Record<string, unknown>): TableResult {
+  if (operation !== 'stats') {
+    return { columns: result.columns as string[], rows: result.rows as TableResult['rows'], rowCount: result.rowCount as number };
+  }
+
+  const stats = Object.entries(result).filter(([key]) => !['analyzedRows', 'totalRows', 'sampled'].includes(key)) as Array<[string, Record<string, unknown>]>;
+  const labels = [...new Set(stats.flatMap(([, values]) => Object.keys(values)))];
+  return {
+    columns: ['statistic', ...stats.map(([column]) => column)],
+    rows: labels.map(label => ({ statistic: label, ...Object.fromEntries(stats.map(([column, values]) => [column, values[label] ?? null])) })),
+    rowCount: labels.length,
+  };
+}
+
+// Text comparisons are exact, so match the user's casing to a value that actually occurs
+async function matchValueCasing(dataset: DatasetRecord, conditions: FilterCondition[]): Promise<FilterCondition[]> {
+  return Promise.all(conditions.map(async condition => {
+    if (typeof condition.value !== 'string' || !['eq', 'ne'].includes(condition.op)) return condition;
+
+    const wanted = condition.value.toLowerCase();
+    const values = await localBackend.getColumn(dataset.id, condition.column);
+    const actual = values.find(v => typeof v === 'string' && v.toLowerCase() === wanted);
+    return actual === undefined ? condition : { ...condition, value: actual as string };
+  }));
+}
+
+export async function runDataQuestion(plan: DataQuestionPlan): Promise<DataAnswer> {
+  const { dataset, operation, describe } = plan;
+  const params = { ...plan.params } as Record<string, unknown>;
+  if (Array.isArray(params.conditions)) {
+    params.conditions = await matchValueCasing(dataset, params.conditions as FilterCondition[]);
+  }
+
+  const result = await localBackend.analyzeDataset(dataset.id, operation, params as DataOperationParams<DataOperationName>);
+  const table = toTable(operation, result);
+  const note = result.sampled
+    ? ` (computed on the first ${Number(result.analyzedRows).toLocaleString()} of ${Number(result.totalRows).toLocaleString()} rows)`
+    : '';
+
+  return { sentence: describe(table).replace(/\.$/, `${note}.`), table };
+}
+
+export async function answerDataQuestion(question: string, options?: DataQuestionOptions): Promise<DataAnswer | { ambiguous: string }> {
+  const parsed = parseDataQuestion(question, await localBackend.getDatasets(), options);
+  return 'plan' in parsed ? runDataQuestion(parsed.plan) : parsed;
+}
@@ -0,0 +1,87 @@
+// Columnar chunk layout for stored datasets
+//
+// A dataset is split into row groups of DATASET_CHUNK_SIZE rows. Each chunk keeps
+// one array per column, so reading a single column never materializes whole rows.
+
+export const DATASET_CHUNK_SIZE = 5000;
+
+export type DatasetRow = Record<string, unknown>;
+
+export interface DatasetManifest {
+  rowCount: number;
+  columns: string[];
+  chunkSize: number;
+  chunkCount: number;
+}
+
+export interface DatasetChunk {
+  datasetId: string;
+  index: number;
+  rowOffset: number;
+  rowCount: number;
+  columns: Record<string, unknown[]>;
+  size: number;
+}
+
+// Adds any columns not seen yet, preserving first-seen order
+export function collectColumns(rows: DatasetRow[], columns: string[]): string[] {
+  const known = new Set(columns);
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!known.has(key)) {
+        known.add(key);
+        columns.push(key);
+      }
+    }
+  }
+  return columns;
+}
+
+export function buildChunk(
+  datasetId: string,
+  index: number,
+  rowOffset: number,
+  rows: DatasetRow[],
+  columns: string[]
+): DatasetChunk {
+  const columnData: Record<string, unknown[]> = {};
+  for (const column of columns) {
+    columnData[column] = rows.map(row => row[column] ?? null);
+  }
+
+  return {
+    datasetId,
+    index,
+    rowOffset,
+    rowCount: rows.length,
+    columns: columnData,
+    size: JSON.stringify(columnData).length,
+  };
+}
+
+// Columns added after this chunk was written come back as null
+export function chunkToRows(chunk: DatasetChunk, columns: string[], start = 0, end = chunk.rowCount): DatasetRow[] {
+  const rows: DatasetRow[] = [];
+  for (let i = start; i < end; i++) {
+    const row: DatasetRow = {};
+    for (const column of columns) {
+      row[column] = chunk.columns[column]?.[i] ?? null;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function normalizeRows(data: unknown): DatasetRow[] {
+  if (Array.isArray(data)) {
+    return data.map(item => (item !== null && typeof item === 'object' ? item as DatasetRow : { value: item }));
+  }
+  if (data !== null && typeof data === 'object') {
+    return [data as DatasetRow];
+  }
+  return [];
+}
+
+export function chunkKeyRange(datasetId: string, fromIndex = 0, toIndex = Infinity): IDBKeyRange {
+  return IDBKeyRange.bound([datasetId, fromIndex], [datasetId, toIndex]);
+}
@@ -0,0 +1,106 @@
+// Hybrid answers: statistics are computed locally, and a cloud model only narrates them
+//
+// The request built here is the complete payload for a dataset question. It carries the
+// schema and aggregate results, never rows, so the chat can show exactly what was sent.
+import type { DataOperationName, TableResult } from './data-operations';
+import { parseDataQuestion, runDataQuestion } from './data-questions';
+import type { LlmMessage } from './llm-providers';
+import { localBackend, type DatasetRecord } from './local-backend';
+import { DEFAULT_PII_SENSITIVITY, type PiiSensitivity } from './pii-redaction';
+
+// Operations whose results summarise many rows; the rest list rows and are reduced to counts
+const AGGREGATE_OPERATIONS: DataOperationName[] = ['aggregate', 'groupBy', 'valueCounts', 'stats', 'quantiles', 'pivot'];
+
+// Large group-bys are cut down so the payload stays small and readable
+const MAX_AGGREGATE_ROWS = 50;
+
+export interface HybridPayload {
+  question: string;
+  dataset: {
+    name: string;
+    rowCount: number;
+    analyzedRows: number;
+    columns: Array<{ name: string; dtype: string; missing: number }>;
+  };
+  aggregates: Array<{
+    description: string;
+    operation: DataOperationName;
+    params: unknown;
+    result: Pick<TableResult, 'columns' | 'rows'> & { totalRows: number } | { matchingRows: number };
+  }>;
+}
+
+export interface HybridRequest {
+  payload: HybridPayload;
+  // The dataset's redaction level; aggregates can still carry values such as group keys
+  sensitivity: PiiSensitivity;
+  // Exactly what the provider receives
+  messages: LlmMessage[];
+}
+
+const SYSTEM_PROMPT = `You are a data analyst. You are given a dataset schema and statistics that were computed on the user's device; you cannot see individual rows.
+Answer the question from these figures only, quote the numbers you rely on, and say plainly when they are not enough to answer.`;
+
+async function describeSchema(dataset: DatasetRecord): Promise<HybridPayload['dataset']> {
+  const summary = await localBackend.analyzeDataset(dataset.id, 'summary');
+  const dtypes = (summary.dtypes ?? {}) as Record<string, unknown>;
+  const missing = (summary.missing ?? {}) as Record<string, number>;
+
+  return {
+    name: dataset.name,
+    rowCount: dataset.manifest.rowCount,
+    analyzedRows: Number(summary.analyzedRows),
+    // summary also returns sample rows; only the per-column facts are kept
+    columns: dataset.manifest.columns.map(name => ({
+      name,
+      dtype: String(dtypes[name] ?? 'object'),
+      missing: Number(missing[name] ?? 0),
+    })),
+  };
+}
+
+// Returns null when the question cannot be tied to one dataset
+export async function buildHybridRequest(question: string): Promise<HybridRequest | null> {
+  const parsed = parseDataQuestion(question, await localBackend.getDatasets());
+  const dataset = 'plan' in parsed ? parsed.plan.dataset : parsed.dataset;
+  if (!dataset) return null;
+
+  const aggregates: HybridPayload['aggregates'] = [];
+  if ('plan' in parsed) {
+    const { plan } = parsed;
+    const answer = await runDataQuestion(plan);
+    aggregates.push({
+      description: answer.sentence,
+      operation: plan.operation,
+      params: plan.params,
+      result: AGGREGATE_OPERATIONS.includes(plan.operation)
+        ? { columns: answer.table.columns, rows: answer.table.rows.slice(0, MAX_AGGREGATE_ROWS), totalRows: answer.table.rowCount }
+        : { matchingRows: answer.table.rowCount },
+    });
+  }
+
+  if (!aggregates.some(aggregate => aggregate.operation === 'stats')) {
+    const stats = await runDataQuestion({
+      dataset,
+      operation: 'stats',
+      params: {},
+      describe: () => `Descriptive statistics for "${dataset.name}".`,
+    });
+    aggregates.push({
+      description: stats.sentence,
+      operation: 'stats',
+      params: {},
+      result: { columns: stats.table.columns, rows: stats.table.rows, totalRows: stats.table.rowCount },
+    });
+  }
+
+  const payload: HybridPayload = { question, dataset: await describeSchema(dataset), aggregates };
+  return {
+    payload,
+    sensitivity: dataset.sensitivity ?? DEFAULT_PII_SENSITIVITY,
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: `Question: ${question}\n\nSchema and local statistics:\n${JSON.stringify({ dataset: payload.dataset, aggregates: payload.aggregates }, null, 2)}` },
+    ],
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { intentClassifier, LOCAL_CONFIDENCE_THRESHOLD } from './intent-classifier';
+
+const classify = (text: string) => intentClassifier.classifyWithRules(text);
+
+describe('classifyWithRules', () => {
+  it.each([
+    ['what is the sentiment of this review', 'sentiment'],
+    ['extract the keywords from this paragraph', 'keywords'],
+    ['summarize: the meeting ran long and nothing was decided', 'summarize'],
+    ['analyze my data', 'dataset'],
+    ['hello!', 'greeting'],
+  ])('is confident about the command phrase in "%s"', (text, intent) => {
+    const result = classify(text);
+    expect(result.intent).toBe(intent);
+    expect(result.confidence).toBeGreaterThanOrEqual(LOCAL_CONFIDENCE_THRESHOLD);
+  });
+
+  it.each([
+    ['how do emotions shape memory', 'sentiment'],
+    ['why do search engines care about keywords', 'keywords'],
+    ['is data science a good career', 'dataset'],
+  ])('treats a lone keyword in "%s" as a guess', (text, intent) => {
+    const result = classify(text);
+    expect(result.intent).toBe(intent);
+    expect(result.confidence).toBeLessThan(LOCAL_CONFIDENCE_THRESHOLD);
+  });
+
+  it('treats words from several intents as a guess', () => {
+    expect(classify('what is the sentiment of my data').confidence).toBeLessThan(LOCAL_CONFIDENCE_THRESHOLD);
+  });
+
+  it('falls back to open-ended below the threshold', () => {
+    expect(classify('write a poem about the sea')).toMatchObject({ intent: 'open-ended', method: 'rules' });
+    expect(classify('write a poem about the sea').confidence).toBeLessThan(LOCAL_CONFIDENCE_THRESHOLD);
+  });
+});
@@ -0,0 +1,223 @@
+// In-browser intent classification for chat messages
+//
+// Messages are embedded with a small sentence-transformer running on WASM and compared
+// against example phrases for each intent. Until the model has loaded (or if it cannot
+// be fetched) whole-word rules answer instead. Only an explicit command phrase makes a rule
+// confident; a lone keyword is a guess that a better model may take over.
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+
+export type Intent = 'dataset' | 'sentiment' | 'keywords' | 'summarize' | 'greeting' | 'help' | 'open-ended';
+
+export interface IntentResult {
+  intent: Intent;
+  // 0..1; below LOCAL_CONFIDENCE_THRESHOLD the local answer is treated as a guess
+  confidence: number;
+  scores: Record<Intent, number>;
+  method: 'embedding' | 'rules';
+}
+
+export type IntentClassifierStatus = 'idle' | 'loading' | 'ready' | 'failed';
+
+const MODEL_ID = 'Xenova/all-MiniLM-L6-v2';
+
+// Best similarity a local intent needs before it beats "open-ended"
+const INTENT_SIMILARITY_THRESHOLD = 0.45;
+
+export const LOCAL_CONFIDENCE_THRESHOLD = 0.55;
+
+// A rule's confidence when its command phrase matches, and when only a keyword does, words
+// from several intents match, or nothing matches at all
+const STRONG_RULE_CONFIDENCE = 0.75;
+const WEAK_RULE_CONFIDENCE = 0.4;
+
+const INTENT_EXAMPLES: Record<Intent, string[]> = {
+  dataset: [
+    'analyze my data',
+    'what is in my dataset',
+    'show me statistics for the uploaded file',
+    'how many rows are in the table',
+    'what is the average of this column',
+    'summarize the csv I uploaded',
+    'average price by category',
+    'how many orders have status shipped',
+    'top 10 customers by revenue',
+  ],
+  sentiment: [
+    'what is the sentiment of this text',
+    'is this review positive or negative',
+    'how does this message feel',
+    'detect the emotion in this sentence',
+  ],
+  keywords: [
+    'extract the keywords from this text',
+    'what are the important words here',
+    'list the main topics of this paragraph',
+  ],
+  summarize: [
+    'summarize this text',
+    'give me a short summary of this paragraph',
+    'tl;dr of the following',
+  ],
+  greeting: ['hello', 'hi there', 'hey', 'good morning', 'how are you'],
+  help: [
+    'what can you do',
+    'help',
+    'how do I use this app',
+    'what features are available',
+  ],
+  'open-ended': [
+    'explain how neural networks work',
+    'write a poem about the sea',
+    'what is the capital of france',
+    'give me a detailed plan for learning python',
+    'compare these two approaches in depth',
+  ],
+};
+
+const INTENT_RULES: Array<{ intent: Intent; strong: RegExp; weak: RegExp }> = [
+  {
+    intent: 'dataset',
+    strong: /\b(analy[sz]e|describe|summari[sz]e) (my|the|this) (data|dataset|csv|file|table)\b|\bhow many rows\b/i,
+    weak: /\b(data|dataset|datasets|analy[sz]e|csv|columns?|rows?|statistics)\b/i,
+  },
+  {
+    intent: 'sentiment',
+    strong: /\b(sentiment|positive or negative)\b/i,
+    weak: /\b(feeling|feelings|emotion|emotions)\b/i,
+  },
+  {
+    intent: 'keywords',
+    strong: /\b(extract|list|find) (the )?(keywords?|important words|key terms)\b/i,
+    weak: /\b(keywords?|important words|key terms)\b/i,
+  },
+  {
+    intent: 'summarize',
+    strong: /^\s*(summari[sz]e|tl;?dr)\b/i,
+    weak: /\b(summari[sz]e|summary|tl;?dr)\b/i,
+  },
+  {
+    intent: 'help',
+    strong: /^\s*(help|what can you do)\s*[?!.]*\s*$/i,
+    weak: /\b(help|what can you do)\b/i,
+  },
+  {
+    intent: 'greeting',
+    strong: /^\s*(hi|hello|hey|good (morning|afternoon|evening))\s*[!.]*\s*$/i,
+    weak: /^\s*(hi|hello|hey|good (morning|afternoon|evening))\b/i,
+  },
+];
+
+const INTENTS = Object.keys(INTENT_EXAMPLES) as Intent[];
+
+const emptyScores = (): Record<Intent, number> =>
+  Object.fromEntries(INTENTS.map(intent => [intent, 0])) as Record<Intent, number>;
+
+class IntentClassifier {
+  private extractor: FeatureExtractionPipeline | null = null;
+  private examples: Array<{ intent: Intent; vector: number[] }> = [];
+  private loading: Promise<boolean> | null = null;
+  private status: IntentClassifierStatus = 'idle';
+  private listeners = new Set<(status: IntentClassifierStatus) => void>();
+
+  onStatusChange(listener: (status: IntentClassifierStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): IntentClassifierStatus {
+    return this.status;
+  }
+
+  private setStatus(status: IntentClassifierStatus) {
+    this.status = status;
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  // Downloads the model once (the browser cache keeps it for offline use) and embeds the examples
+  load(): Promise<boolean> {
+    if (!this.loading) {
+      this.setStatus('loading');
+      this.loading = (async () => {
+        try {
+          const { pipeline } = await import('@huggingface/transformers');
+          const extractor = await pipeline('feature-extraction', MODEL_ID, { dtype: 'q8', device: 'wasm' });
+
+          const entries = INTENTS.flatMap(intent => INTENT_EXAMPLES[intent].map(text => ({ intent, text })));
+          const vectors = await this.embed(extractor, entries.map(entry => entry.text));
+          this.examples = entries.map((entry, i) => ({ intent: entry.intent, vector: vectors[i] }));
+          this.extractor = extractor;
+          this.setStatus('ready');
+          return true;
+        } catch (error) {
+          console.warn('⚠️ Intent model failed to load, using rule-based routing:', error);
+          this.loading = null;
+          this.setStatus('failed');
+          return false;
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  private async embed(extractor: FeatureExtractionPipeline, texts: string[]): Promise<number[][]> {
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist() as number[][];
+  }
+
+  async classify(text: string): Promise<IntentResult> {
+    if (!this.extractor) {
+      // Start loading for next time without holding up this message
+      if (this.status === 'idle') this.load();
+      return this.classifyWithRules(text);
+    }
+
+    try {
+      const [vector] = await this.embed(this.extractor, [text]);
+      return this.scoreEmbedding(vector);
+    } catch (error) {
+      console.warn('Intent classification failed, using rules:', error);
+      return this.classifyWithRules(text);
+    }
+  }
+
+  private scoreEmbedding(vector: number[]): IntentResult {
+    const scores = emptyScores();
+    for (const example of this.examples) {
+      // Vectors are normalized, so the dot product is the cosine similarity
+      const similarity = example.vector.reduce((sum, value, i) => sum + value * vector[i], 0);
+      scores[example.intent] = Math.max(scores[example.intent], similarity);
+    }
+
+    const [best] = INTENTS.filter(intent => intent !== 'open-ended')
+      .sort((a, b) => scores[b] - scores[a]);
+
+    if (scores[best] >= INTENT_SIMILARITY_THRESHOLD && scores[best] > scores['open-ended']) {
+      return { intent: best, confidence: scores[best], scores, method: 'embedding' };
+    }
+    return {
+      intent: 'open-ended',
+      confidence: Math.max(scores['open-ended'], 1 - scores[best]),
+      scores,
+      method: 'embedding',
+    };
+  }
+
+  // Whole-word matching, so "hi" no longer matches "this" or "which"
+  classifyWithRules(text: string): IntentResult {
+    const scores = emptyScores();
+    const matches = INTENT_RULES.filter(rule => rule.strong.test(text) || rule.weak.test(text));
+    for (const rule of matches) {
+      scores[rule.intent] = rule.strong.test(text) ? STRONG_RULE_CONFIDENCE : WEAK_RULE_CONFIDENCE;
+    }
+
+    const intent = matches[0]?.intent ?? 'open-ended';
+    const confidence = matches.length === 1 ? scores[intent] : WEAK_RULE_CONFIDENCE;
+    scores[intent] = confidence;
+    return { intent, confidence, scores, method: 'rules' };
+  }
+}
+
+export const intentClassifier = new IntentClassifier();
@@ -0,0 +1,37 @@
+// Picks one tab to do work that should not run once per open tab
+//
+// Leadership is a Web Lock held for the life of the tab. When the leader closes, the
+// browser grants the lock to the next tab waiting for it.
+const LOCK_NAME = 'local-first-ai-leader';
+
+let leader = false;
+let election: Promise<void> | null = null;
+
+export function isLeader(): boolean {
+  return leader;
+}
+
+// Resolves once this tab is the leader, which may be never while another tab stays open
+export function whenLeader(): Promise<void> {
+  election ??= new Promise(resolve => {
+    // Browsers without Web Locks run every tab as its own leader
+    if (!navigator.locks) {
+      leader = true;
+      resolve();
+      return;
+    }
+
+    navigator.locks.request(LOCK_NAME, () => {
+      leader = true;
+      resolve();
+      // Never settles, so the lock is only released when the tab goes away
+      return new Promise<never>(() => {});
+    }).catch(error => {
+      // Doing the work in every tab beats not doing it at all
+      console.warn('⚠️ Leader election failed, acting as leader:', error);
+      leader = true;
+      resolve();
+    });
+  });
+  return election;
+}
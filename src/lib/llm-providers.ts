@@ -0,0 +1,514 @@
+// Cloud LLM providers behind one interface
+export type LlmProviderId = 'openai' | 'gemini' | 'anthropic' | 'openai-compatible';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmRequestOptions {
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  // Called once with the token counts the provider reported, if it reported any
+  onUsage?: (usage: LlmUsage) => void;
+}
+
+export interface LlmModel {
+  id: string;
+  label: string;
+}
+
+export interface LlmHealth {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface LlmProviderConfig {
+  apiKey: string;
+  model: string;
+  // Only used by the OpenAI-compatible provider
+  baseUrl?: string;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  chat(messages: LlmMessage[], options: LlmRequestOptions): Promise<string>;
+  stream(messages: LlmMessage[], options: LlmRequestOptions): AsyncIterable<string>;
+  listModels(signal?: AbortSignal): Promise<LlmModel[]>;
+  healthCheck(): Promise<LlmHealth>;
+}
+
+// auth: key rejected; quota: out of credit; rate-limit: too many requests for now;
+// network: no response at all; server: the provider failed; request: anything else it refused
+export type LlmErrorKind = 'auth' | 'quota' | 'rate-limit' | 'network' | 'server' | 'request';
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly kind: LlmErrorKind,
+    readonly provider: LlmProviderId,
+    readonly status?: number,
+    // From Retry-After (or retry-after-ms) when the provider sent one
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+
+  // Worth trying again after a pause; the other kinds need the user to change something
+  get isTransient(): boolean {
+    return this.kind === 'rate-limit' || this.kind === 'network' || this.kind === 'server';
+  }
+}
+
+export const LLM_PROVIDERS: Record<LlmProviderId, {
+  label: string;
+  defaultModel: string;
+  keyPlaceholder: string;
+  requiresKey: boolean;
+  // Unset when the user supplies the endpoint
+  origin?: string;
+}> = {
+  openai: { label: 'OpenAI', defaultModel: 'gpt-4.1-2025-04-14', keyPlaceholder: 'sk-...', requiresKey: true, origin: 'https://api.openai.com' },
+  gemini: { label: 'Google Gemini', defaultModel: 'gemini-2.5-flash', keyPlaceholder: 'AIza...', requiresKey: true, origin: 'https://generativelanguage.googleapis.com' },
+  anthropic: { label: 'Anthropic', defaultModel: 'claude-sonnet-4-20250514', keyPlaceholder: 'sk-ant-...', requiresKey: true, origin: 'https://api.anthropic.com' },
+  'openai-compatible': { label: 'OpenAI-compatible', defaultModel: '', keyPlaceholder: 'Optional', requiresKey: false },
+};
+
+export const DEFAULT_LLM_PROVIDER: LlmProviderId = 'openai';
+
+const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 1000;
+
+export function isLlmProviderId(value: unknown): value is LlmProviderId {
+  return typeof value === 'string' && Object.hasOwn(LLM_PROVIDERS, value);
+}
+
+// Rough count for providers that don't report usage: about four characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function defaultProviderConfig(id: LlmProviderId): LlmProviderConfig {
+  return { apiKey: '', model: LLM_PROVIDERS[id].defaultModel, baseUrl: '' };
+}
+
+// Yields the data payload of each server-sent event in a streamed response body
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let data: string[] = [];
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let newline: number;
+      while ((newline = buffer.search(/\r?\n/)) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(buffer[newline] === '\r' ? newline + 2 : newline + 1);
+
+        if (line === '') {
+          if (data.length > 0) yield data.join('\n');
+          data = [];
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+    }
+    if (data.length > 0) yield data.join('\n');
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+abstract class HttpLlmProvider implements LlmProvider {
+  abstract readonly id: LlmProviderId;
+
+  constructor(protected config: LlmProviderConfig) {}
+
+  abstract chat(messages: LlmMessage[], options: LlmRequestOptions): Promise<string>;
+  abstract stream(messages: LlmMessage[], options: LlmRequestOptions): AsyncIterable<string>;
+  abstract listModels(signal?: AbortSignal): Promise<LlmModel[]>;
+
+  async healthCheck(): Promise<LlmHealth> {
+    const started = performance.now();
+    try {
+      await this.listModels(AbortSignal.timeout(10_000));
+      return { ok: true, latencyMs: Math.round(performance.now() - started) };
+    } catch (error) {
+      return {
+        ok: false,
+        latencyMs: Math.round(performance.now() - started),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  protected async request(url: string, init: RequestInit): Promise<Response> {
+    const label = LLM_PROVIDERS[this.id].label;
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      throw new LlmError(`Couldn't reach ${label}. Check your connection or the provider's status.`, 'network', this.id);
+    }
+    if (!response.ok) {
+      throw await toLlmError(this.id, response);
+    }
+    return response;
+  }
+}
+
+function parseRetryAfter(headers: Headers): number | undefined {
+  const ms = Number(headers.get('retry-after-ms'));
+  if (ms > 0) return ms;
+
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Providers disagree on status codes for running out of credit (429, 402, 403), so the body decides
+const QUOTA_PATTERN = /insufficient_quota|quota|billing|credit balance|exceeded your current/i;
+
+async function toLlmError(provider: LlmProviderId, response: Response): Promise<LlmError> {
+  const label = LLM_PROVIDERS[provider].label;
+  const body = await response.text().catch(() => '');
+  let detail = '';
+  try {
+    const parsed = JSON.parse(body);
+    detail = parsed?.error?.message ?? parsed?.message ?? '';
+  } catch {
+    detail = body.slice(0, 200);
+  }
+  const suffix = detail ? ` (${response.status}: ${detail})` : ` (${response.status})`;
+  const retryAfterMs = parseRetryAfter(response.headers);
+  const fail = (kind: LlmErrorKind, message: string) =>
+    new LlmError(message + suffix, kind, provider, response.status, retryAfterMs);
+
+  if (response.status === 402 || ((response.status === 429 || response.status === 403) && QUOTA_PATTERN.test(body))) {
+    return fail('quota', `${label} reports the account is out of quota or credit. Check billing with the provider.`);
+  }
+  if (response.status === 401 || response.status === 403) {
+    return fail('auth', `${label} rejected the API key. Check it in settings.`);
+  }
+  if (response.status === 429) {
+    return fail('rate-limit', `${label} is rate limiting requests.`);
+  }
+  if (response.status === 408 || response.status >= 500) {
+    return fail('server', `${label} had a server problem.`);
+  }
+  return fail('request', `${label} refused the request.`);
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+interface OpenAIChatResponse {
+  choices: Array<{ message: { content: string } }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIStreamChunk {
+  choices: Array<{ delta: { content?: string } }>;
+  usage?: OpenAIUsage | null;
+}
+
+class OpenAIProvider extends HttpLlmProvider {
+  readonly id: LlmProviderId = 'openai';
+
+  protected get baseUrl() {
+    return 'https://api.openai.com/v1';
+  }
+
+  protected headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  private body(messages: LlmMessage[], options: LlmRequestOptions, stream: boolean) {
+    return JSON.stringify({
+      model: options.model,
+      messages,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream,
+      // The final streamed chunk then carries the token counts
+      ...(stream && { stream_options: { include_usage: true } }),
+    });
+  }
+
+  async chat(messages: LlmMessage[], options: LlmRequestOptions): Promise<string> {
+    const response = await this.request(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.body(messages, options, false),
+      signal: options.signal,
+    });
+    const data: OpenAIChatResponse = await response.json();
+    if (data.usage) {
+      options.onUsage?.({ inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens });
+    }
+    return data.choices[0]?.message.content || '';
+  }
+
+  async *stream(messages: LlmMessage[], options: LlmRequestOptions): AsyncIterable<string> {
+    const response = await this.request(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.body(messages, options, true),
+      signal: options.signal,
+    });
+
+    for await (const data of readServerSentEvents(response)) {
+      if (data === '[DONE]') return;
+      const chunk: OpenAIStreamChunk = JSON.parse(data);
+      if (chunk.usage) {
+        options.onUsage?.({ inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens });
+      }
+      const text = chunk.choices[0]?.delta.content;
+      if (text) yield text;
+    }
+  }
+
+  async listModels(signal?: AbortSignal): Promise<LlmModel[]> {
+    const response = await this.request(`${this.baseUrl}/models`, { headers: this.headers(), signal });
+    const data: { data: Array<{ id: string }> } = await response.json();
+    return data.data.map(model => ({ id: model.id, label: model.id })).sort((a, b) => a.id.localeCompare(b.id));
+  }
+}
+
+// Same wire format as OpenAI against a user-supplied base URL
+class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly id: LlmProviderId = 'openai-compatible';
+
+  protected get baseUrl() {
+    const url = this.config.baseUrl?.trim().replace(/\/+$/, '');
+    if (!url) throw new Error('A base URL is required for OpenAI-compatible providers');
+    return url;
+  }
+}
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+class GeminiProvider extends HttpLlmProvider {
+  readonly id: LlmProviderId = 'gemini';
+
+  private readonly baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+
+  private headers(): Record<string, string> {
+    return { 'Content-Type': 'application/json', 'x-goog-api-key': this.config.apiKey };
+  }
+
+  // Gemini takes the system prompt separately and calls the assistant "model"
+  private body(messages: LlmMessage[], options: LlmRequestOptions) {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    return JSON.stringify({
+      contents: messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+      ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+      generationConfig: {
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      },
+    });
+  }
+
+  private static usage(response: GeminiResponse): LlmUsage | null {
+    const usage = response.usageMetadata;
+    return usage ? { inputTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 } : null;
+  }
+
+  private static text(response: GeminiResponse): string {
+    return response.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+  }
+
+  private modelPath(model: string) {
+    return `${this.baseUrl}/models/${encodeURIComponent(model.replace(/^models\//, ''))}`;
+  }
+
+  async chat(messages: LlmMessage[], options: LlmRequestOptions): Promise<string> {
+    const response = await this.request(`${this.modelPath(options.model)}:generateContent`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.body(messages, options),
+      signal: options.signal,
+    });
+    const data: GeminiResponse = await response.json();
+    const usage = GeminiProvider.usage(data);
+    if (usage) options.onUsage?.(usage);
+    return GeminiProvider.text(data);
+  }
+
+  async *stream(messages: LlmMessage[], options: LlmRequestOptions): AsyncIterable<string> {
+    const response = await this.request(`${this.modelPath(options.model)}:streamGenerateContent?alt=sse`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.body(messages, options),
+      signal: options.signal,
+    });
+
+    // Every chunk repeats the running totals, so only the last one counts
+    let usage: LlmUsage | null = null;
+    for await (const data of readServerSentEvents(response)) {
+      const chunk: GeminiResponse = JSON.parse(data);
+      usage = GeminiProvider.usage(chunk) ?? usage;
+      const text = GeminiProvider.text(chunk);
+      if (text) yield text;
+    }
+    if (usage) options.onUsage?.(usage);
+  }
+
+  async listModels(signal?: AbortSignal): Promise<LlmModel[]> {
+    const response = await this.request(`${this.baseUrl}/models?pageSize=1000`, { headers: this.headers(), signal });
+    const data: {
+      models?: Array<{ name: string; displayName?: string; supportedGenerationMethods?: string[] }>;
+    } = await response.json();
+
+    return (data.models ?? [])
+      .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+      .map(model => {
+        const id = model.name.replace(/^models\//, '');
+        return { id, label: model.displayName ?? id };
+      });
+  }
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicResponse {
+  content: Array<{ type: string; text?: string }>;
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  message?: { usage?: AnthropicUsage };
+  usage?: AnthropicUsage;
+}
+
+class AnthropicProvider extends HttpLlmProvider {
+  readonly id: LlmProviderId = 'anthropic';
+
+  private readonly baseUrl = 'https://api.anthropic.com/v1';
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.config.apiKey,
+      'anthropic-version': '2023-06-01',
+      // Required for calls made straight from the browser with the user's own key
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+
+  private body(messages: LlmMessage[], options: LlmRequestOptions, stream: boolean) {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    return JSON.stringify({
+      model: options.model,
+      ...(system && { system }),
+      messages: messages.filter(m => m.role !== 'system'),
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream,
+    });
+  }
+
+  async chat(messages: LlmMessage[], options: LlmRequestOptions): Promise<string> {
+    const response = await this.request(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.body(messages, options, false),
+      signal: options.signal,
+    });
+    const data: AnthropicResponse = await response.json();
+    if (data.usage) {
+      options.onUsage?.({ inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 });
+    }
+    return data.content.filter(block => block.type === 'text').map(block => block.text ?? '').join('');
+  }
+
+  async *stream(messages: LlmMessage[], options: LlmRequestOptions): AsyncIterable<string> {
+    const response = await this.request(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.body(messages, options, true),
+      signal: options.signal,
+    });
+
+    // Input tokens arrive with message_start, the output total with the last message_delta
+    let inputTokens = 0;
+    let outputTokens = 0;
+    for await (const data of readServerSentEvents(response)) {
+      const event: AnthropicStreamEvent = JSON.parse(data);
+      if (event.type === 'message_start') {
+        inputTokens = event.message?.usage?.input_tokens ?? 0;
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage?.output_tokens ?? outputTokens;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        yield event.delta.text;
+      }
+    }
+    options.onUsage?.({ inputTokens, outputTokens });
+  }
+
+  async listModels(signal?: AbortSignal): Promise<LlmModel[]> {
+    const response = await this.request(`${this.baseUrl}/models?limit=1000`, { headers: this.headers(), signal });
+    const data: { data: Array<{ id: string; display_name?: string }> } = await response.json();
+    return data.data.map(model => ({ id: model.id, label: model.display_name ?? model.id }));
+  }
+}
+
+const CHAT_SYSTEM_PROMPT = 'You are a helpful AI assistant for a local-first data analysis app. Be concise and practical.';
+
+// Chat prompt shared by the local model tier and the cloud fallback
+export function buildChatMessages(userMessage: string, conversationHistory: LlmMessage[] = []): LlmMessage[] {
+  return [
+    { role: 'system', content: CHAT_SYSTEM_PROMPT },
+    ...conversationHistory.slice(-5), // Keep last 5 messages for context
+    { role: 'user', content: userMessage },
+  ];
+}
+
+export function createLlmProvider(id: LlmProviderId, config: LlmProviderConfig): LlmProvider {
+  switch (id) {
+    case 'openai':
+      return new OpenAIProvider(config);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config);
+    case 'gemini':
+      return new GeminiProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
+  }
+}
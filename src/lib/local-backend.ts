@@ -1,5 +1,54 @@
 // Local-first backend implementation
-import { openDB, type IDBPDatabase } from 'idb';
+import { type IDBPDatabase, type IDBPObjectStore, type StoreNames } from 'idb';
+import { deleteMigrationBackups, openLocalDatabase, type MigrationProgress } from './migrations';
+import { ChangeFeed, type ChangeEvent, type ChangeEventType, type ChangeListener } from './change-events';
+import { whenLeader } from './leader-election';
+import { DEFAULT_AUTO_LOCK_MINUTES, Vault, type EncryptionMeta } from './vault';
+import { pyodideClient, PyodideTerminatedError } from './pyodide-client';
+import type { PyodideProgress } from './pyodide-protocol';
+import { resolveOperation, type DataOperationName, type DataOperationParams, type TableResult } from './data-operations';
+import type { LlmMessage, LlmProviderId } from './llm-providers';
+import type { PiiSensitivity } from './pii-redaction';
+import type { HybridRequest } from './hybrid-analysis';
+import type { BudgetCheck } from './usage-budget';
+import {
+  HybridClock,
+  diffConversation,
+  isSyncedSetting,
+  materializeConversation,
+  materializeSetting,
+  recordOf,
+  settingChanged,
+  SYNCED_SETTINGS,
+  type SyncDevice,
+  type SyncOperation,
+  type SyncPayload,
+  type VersionVector,
+} from './sync-oplog';
+import {
+  DEFAULT_PYODIDE_SOURCE,
+  isPyodideSource,
+  resolvePyodideRuntime,
+  type PyodideRuntimeInfo,
+  type PyodideSource,
+} from './pyodide-runtime';
+import {
+  DATASET_CHUNK_SIZE,
+  buildChunk,
+  chunkKeyRange,
+  chunkToRows,
+  collectColumns,
+  normalizeRows,
+  type DatasetChunk,
+  type DatasetManifest,
+  type DatasetRow,
+} from './dataset-chunks';
+
+// Where a reply was produced: in-browser, on a model server on this machine, or in the cloud
+export type ProcessingType = 'local' | 'local-model' | 'cloud';
+
+// Which part of the app made a cloud request, for the audit log; 'enhance' only appears in older entries
+export type CloudFeature = 'chat' | 'dataset-question' | 'enhance';
 
 export interface LocalDatabase {
   datasets: {
@@ -7,22 +56,39 @@ export interface LocalDatabase {
     value: {
       id: string;
       name: string;
-      data: any;
+      manifest: DatasetManifest;
       created: Date;
       size: number;
+      // How much PII redaction its values get before a cloud call; unset means the default
+      sensitivity?: PiiSensitivity;
     };
   };
+  datasetChunks: {
+    key: [string, number];
+    value: DatasetChunk;
+  };
   conversations: {
     key: string;
     value: {
       id: string;
+      title: string;
       messages: Array<{
+        id: string;
         role: 'user' | 'assistant' | 'system';
         content: string;
         timestamp: Date;
-        processingType: 'local' | 'cloud';
+        processingType: ProcessingType;
+        // Set when a streamed reply ended early; the partial text is kept
+        status?: 'stopped' | 'failed';
+        // Result of a dataset question answered locally
+        table?: TableResult;
+        // The messages a cloud reply was generated from, exactly as sent
+        sentPayload?: LlmMessage[];
+        // Set while a cloud answer to this reply waits in the offline queue
+        queuedId?: string;
       }>;
       created: Date;
+      updated: Date;
     };
   };
   settings: {
@@ -32,134 +98,315 @@ export interface LocalDatabase {
       value: any;
     };
   };
+  trash: {
+    key: string;
+    value: {
+      id: string;
+      dataset: LocalDatabase['datasets']['value'];
+      deletedAt: Date;
+    };
+  };
+  auditLog: {
+    key: string;
+    value: {
+      id: string;
+      timestamp: Date;
+      provider: LlmProviderId;
+      model: string;
+      feature: CloudFeature;
+      // Exactly what was sent, after redaction
+      messages: LlmMessage[];
+      response: string;
+      inputTokens: number;
+      outputTokens: number;
+      // Set when the provider reported no usage and the counts are estimates
+      tokensEstimated: boolean;
+      // Priced when the request was made; absent on entries from before pricing was tracked
+      costUsd?: number;
+      // What the budget check expected before sending
+      estimatedCostUsd?: number;
+      latencyMs: number;
+      status: 'success' | 'error' | 'aborted';
+      error?: string;
+    };
+  };
+  cloudQueue: {
+    key: string;
+    value: {
+      id: string;
+      conversationId: string;
+      // The local reply the cloud answer is inserted after
+      replyId: string;
+      question: string;
+      // Stored before redaction; PII is redacted when the request is finally sent
+      messages: LlmMessage[];
+      sensitivity: PiiSensitivity;
+      // Set for dataset questions, which are sent as locally computed aggregates
+      hybrid?: HybridRequest;
+      created: Date;
+      // awaiting-confirmation: held back by a budget until the user says to send it anyway
+      status: 'pending' | 'sending' | 'awaiting-confirmation' | 'failed';
+      error?: string;
+      // The budget it would exceed, while it awaits confirmation
+      budget?: BudgetCheck;
+      // The user chose to send it even though it is over budget
+      budgetApproved?: boolean;
+    };
+  };
+  oplog: {
+    key: string;
+    value: SyncOperation;
+  };
+}
+
+export type DatasetRecord = LocalDatabase['datasets']['value'];
+export type TrashedDataset = LocalDatabase['trash']['value'];
+export type CloudAuditEntry = LocalDatabase['auditLog']['value'];
+export type QueuedCloudRequest = LocalDatabase['cloudQueue']['value'];
+export type ConversationRecord = LocalDatabase['conversations']['value'];
+export type ConversationMessage = ConversationRecord['messages'][number];
+
+export interface SentimentAnalysis {
+  sentiment: 'positive' | 'negative' | 'neutral';
+  confidence: number;
+  positive: number;
+  negative: number;
+}
+
+export interface KeywordCount {
+  word: string;
+  count: number;
+}
+
+export interface KeywordAnalysis {
+  keywords: KeywordCount[];
+  totalWords: number;
+}
+
+export interface SummaryAnalysis {
+  summary: string;
+  originalLength: number;
+  summaryLength: number;
+}
+
+export interface TextAnalyses {
+  sentiment: SentimentAnalysis;
+  keywords: KeywordAnalysis;
+  summary: SummaryAnalysis;
+}
+
+export type TextAnalysis = TextAnalyses[keyof TextAnalyses];
+
+// An operation's result, along with how much of the dataset it saw
+export type DatasetAnalysis = Record<string, unknown> & {
+  analyzedRows: number;
+  totalRows: number;
+  sampled: boolean;
+};
+
+export interface DatasetWriter {
+  append(rows: DatasetRow[]): Promise<void>;
+  finish(): Promise<string>;
+  abort(): Promise<void>;
+}
+
+// Analysis runs on at most this many rows so huge datasets never load in full
+export const MAX_ANALYSIS_ROWS = 100_000;
+
+// Keep in sync with PACKAGES in scripts/bundle-pyodide.mjs
+const PYODIDE_PACKAGES = ['numpy', 'pandas', 'micropip'];
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+const TITLE_MAX_WORDS = 6;
+const TITLE_FILLER_PREFIX = /^(hi|hello|hey|please|can you|could you|would you|i want to|i need to|help me)\b[\s,]*/i;
+
+// Deleted datasets stay restorable for this many days unless overridden in settings
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Settings entry holding this device's sync identity; written without a change event
+const SYNC_DEVICE_KEY = 'syncDevice';
+
+// Settings entry describing passphrase encryption, if it is on
+const ENCRYPTION_KEY = 'encryption';
+// Read before unlocking or inside transactions, so never encrypted; neither holds user data
+const CLEAR_SETTINGS = [ENCRYPTION_KEY, SYNC_DEVICE_KEY];
+
+// What an encrypted record leaves readable: its key and the fields indexes and
+// transactions need. Everything else is sealed. Every index in migrations.ts must be
+// covered, or sealed records drop out of it.
+const CLEAR_FIELDS: { [S in keyof LocalDatabase]: readonly (keyof LocalDatabase[S]['value'])[] } = {
+  datasets: ['id', 'created'],
+  datasetChunks: ['datasetId', 'index'],
+  conversations: ['id', 'created', 'updated'],
+  settings: ['key'],
+  trash: ['id', 'deletedAt'],
+  auditLog: ['id', 'timestamp'],
+  cloudQueue: ['id', 'created'],
+  oplog: ['id', 'device', 'seq', 'hlc', 'record'],
+};
+
+type EncryptedStore = keyof typeof CLEAR_FIELDS;
+
+export interface EncryptionStatus {
+  enabled: boolean;
+  locked: boolean;
+  autoLockMinutes: number;
 }
 
 class LocalBackend {
   private db: IDBPDatabase<LocalDatabase> | null = null;
-  private pyodide: any = null;
+  private pyodideReady: Promise<boolean> | null = null;
+  private pyodideRuntime: PyodideRuntimeInfo | null = null;
+  private runtimeListeners = new Set<(info: PyodideRuntimeInfo) => void>();
   private isInitialized = false;
+  private migrationProgress: MigrationProgress | null = null;
+  private migrationListeners = new Set<(progress: MigrationProgress) => void>();
+  private changes = new ChangeFeed();
+  // Set while sync is enabled; edits made with it off are picked up by reconcileOperationLog
+  private recordingOperations = false;
+  private vault = new Vault();
+  private unlockWaiters: Array<() => void> = [];
+  private lockListeners = new Set<() => void>();
+
+  onMigrationProgress(listener: (progress: MigrationProgress) => void): () => void {
+    this.migrationListeners.add(listener);
+    if (this.migrationProgress) listener(this.migrationProgress);
+    return () => {
+      this.migrationListeners.delete(listener);
+    };
+  }
 
   async initialize() {
     if (this.isInitialized) return;
 
-    // Initialize IndexedDB
-    this.db = await openDB<LocalDatabase>('LocalFirstDB', 1, {
-      upgrade(db) {
-        if (!db.objectStoreNames.contains('datasets')) {
-          db.createObjectStore('datasets', { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains('conversations')) {
-          db.createObjectStore('conversations', { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains('settings')) {
-          db.createObjectStore('settings', { keyPath: 'key' });
-        }
-      },
+    // Initialize IndexedDB, running any pending schema migrations
+    this.db = await openLocalDatabase(progress => {
+      // The connection is closed; fail with a clear error rather than InvalidStateError
+      if (progress.phase === 'superseded') this.db = null;
+      this.migrationProgress = progress;
+      this.migrationListeners.forEach(listener => listener(progress));
     });
+    this.vault.configure((await this.db.get('settings', ENCRYPTION_KEY))?.value ?? null);
 
-    // Initialize Pyodide for Python data processing
-    try {
-      const { loadPyodide } = await import('pyodide');
-      this.pyodide = await loadPyodide({
-        indexURL: 'https://cdn.jsdelivr.net/pyodide/v0.25.0/full/'
-      });
-      
-      // Install basic data science packages
-      await this.pyodide.loadPackage(['numpy', 'pandas', 'micropip']);
-      
-      console.log('✅ Local backend initialized with Pyodide');
-    } catch (error) {
-      console.warn('⚠️ Pyodide failed to load, using fallback processing:', error);
-    }
+    // Housekeeping runs in one tab only; other tabs load Pyodide when they first need it
+    whenLeader().then(() => this.whenUnlocked()).then(async () => {
+      // Drop anything that has outlived its stay in the trash
+      try {
+        await this.purgeExpiredTrash();
+      } catch (error) {
+        console.warn('⚠️ Failed to purge expired trash:', error);
+      }
+
+      // Warm up Pyodide in its worker; analysis waits for it only when needed
+      this.ensurePyodide();
+    });
 
     this.isInitialized = true;
   }
 
-  // Data processing methods
-  async processDataLocally(data: any, operation: string): Promise<any> {
-    if (!this.pyodide) {
-      return this.fallbackDataProcessing(data, operation);
-    }
+  // Hears changes from this tab and, with `remote` set, from the app's other tabs
+  onChange(listener: ChangeListener, types?: ChangeEventType[]): () => void {
+    return this.changes.subscribe(listener, types);
+  }
 
-    try {
-      // Convert JS data to Python
-      this.pyodide.globals.set('data', data);
-      
-      // Execute Python operations
-      const result = await this.pyodide.runPython(`
-import pandas as pd
-import numpy as np
-
-# Convert data to DataFrame
-if isinstance(data, list) and len(data) > 0:
-    df = pd.DataFrame(data)
-elif isinstance(data, dict):
-    df = pd.DataFrame([data])
-else:
-    df = pd.DataFrame()
-
-# Perform basic analysis based on operation
-if "${operation}" == "summary":
-    result = {
-        "shape": df.shape,
-        "columns": list(df.columns) if len(df.columns) > 0 else [],
-        "dtypes": df.dtypes.to_dict() if len(df.columns) > 0 else {},
-        "missing": df.isnull().sum().to_dict() if len(df.columns) > 0 else {},
-        "sample": df.head().to_dict('records') if len(df) > 0 else []
-    }
-elif "${operation}" == "stats":
-    result = df.describe().to_dict() if len(df.columns) > 0 else {}
-else:
-    result = {"processed": True, "rows": len(df)}
-
-result
-      `);
-
-      return result.toJs();
-    } catch (error) {
-      console.warn('Pyodide processing failed, using fallback:', error);
-      return this.fallbackDataProcessing(data, operation);
+  onPyodideProgress(listener: (progress: PyodideProgress) => void): () => void {
+    return pyodideClient.onProgress(listener);
+  }
+
+  onPyodideRuntimeChange(listener: (info: PyodideRuntimeInfo) => void): () => void {
+    this.runtimeListeners.add(listener);
+    if (this.pyodideRuntime) listener(this.pyodideRuntime);
+    return () => {
+      this.runtimeListeners.delete(listener);
+    };
+  }
+
+  getPyodideRuntime(): PyodideRuntimeInfo | null {
+    return this.pyodideRuntime;
+  }
+
+  async getPyodideSource(): Promise<PyodideSource> {
+    const source = await this.getSetting('pyodideSource');
+    return isPyodideSource(source) ? source : DEFAULT_PYODIDE_SOURCE;
+  }
+
+  // Switching sources restarts the worker so the new runtime is picked up
+  async setPyodideSource(source: PyodideSource): Promise<void> {
+    await this.setSetting('pyodideSource', source);
+    this.cancelDataProcessing();
+    await this.ensurePyodide();
+  }
+
+  private updatePyodideRuntime(info: PyodideRuntimeInfo) {
+    this.pyodideRuntime = info;
+    this.runtimeListeners.forEach(listener => listener(info));
+  }
+
+  private ensurePyodide(): Promise<boolean> {
+    if (!this.pyodideReady) {
+      const ready: Promise<boolean> = (async () => {
+        const runtime = await resolvePyodideRuntime(await this.getPyodideSource());
+        this.updatePyodideRuntime(runtime);
+
+        try {
+          await pyodideClient.init({ indexURL: runtime.indexURL, packages: PYODIDE_PACKAGES });
+          this.updatePyodideRuntime({ ...runtime, status: 'ready' });
+          return true;
+        } catch (error) {
+          // A restart may already be loading a different runtime
+          if (this.pyodideReady === ready) {
+            this.updatePyodideRuntime({ ...runtime, status: 'failed' });
+            console.warn('⚠️ Pyodide failed to load, using fallback processing:', error);
+          }
+          return false;
+        }
+      })();
+      this.pyodideReady = ready;
     }
+    return this.pyodideReady;
+  }
+
+  // Stops a running Python computation; the runtime is reloaded on next use
+  cancelDataProcessing() {
+    pyodideClient.terminate();
+    this.pyodideReady = null;
   }
 
-  private fallbackDataProcessing(data: any, operation: string): any {
-    // Simple JavaScript fallback for basic operations
-    if (!Array.isArray(data)) {
-      data = [data];
+  // Data processing methods
+  // Runs a registered operation; parameters are validated before anything executes
+  async processDataLocally<N extends DataOperationName>(
+    data: DatasetRow | DatasetRow[],
+    operation: N,
+    params?: DataOperationParams<N>
+  ): Promise<any> {
+    const resolved = resolveOperation(operation, params);
+    const rows = Array.isArray(data) ? data : [data];
+
+    if (!(await this.ensurePyodide())) {
+      return resolved.fallback(rows);
     }
 
-    switch (operation) {
-      case 'summary':
-        return {
-          shape: [data.length, Object.keys(data[0] || {}).length],
-          columns: Object.keys(data[0] || {}),
-          sample: data.slice(0, 5)
-        };
-      case 'stats':
-        const numerics = data.map(row => 
-          Object.entries(row).filter(([_, v]) => typeof v === 'number')
-        );
-        return { message: 'Basic stats computed locally' };
-      default:
-        return { processed: true, rows: data.length };
+    try {
+      return await pyodideClient.run(resolved.python, { data, params: resolved.params });
+    } catch (error) {
+      if (error instanceof PyodideTerminatedError) throw error;
+      console.warn('Pyodide processing failed, using fallback:', error);
+      return resolved.fallback(rows);
     }
   }
 
   // Simple NLP processing
-  async processTextLocally(text: string, operation: string): Promise<any> {
-    switch (operation) {
-      case 'sentiment':
-        return this.basicSentimentAnalysis(text);
-      case 'keywords':
-        return this.extractKeywords(text);
-      case 'summary':
-        return this.basicSummarization(text);
-      default:
-        return { text, processed: true };
-    }
+  async processTextLocally<K extends keyof TextAnalyses>(text: string, operation: K): Promise<TextAnalyses[K]> {
+    const analyses: { [A in keyof TextAnalyses]: (text: string) => TextAnalyses[A] } = {
+      sentiment: text => this.basicSentimentAnalysis(text),
+      keywords: text => this.extractKeywords(text),
+      summary: text => this.basicSummarization(text),
+    };
+    return analyses[operation](text);
   }
 
-  private basicSentimentAnalysis(text: string): any {
+  private basicSentimentAnalysis(text: string): SentimentAnalysis {
     const positiveWords = ['good', 'great', 'excellent', 'amazing', 'wonderful', 'fantastic', 'love', 'like'];
     const negativeWords = ['bad', 'terrible', 'awful', 'horrible', 'hate', 'dislike', 'poor', 'worst'];
     
@@ -173,7 +420,7 @@ result
     return { sentiment, confidence, positive, negative };
   }
 
-  private extractKeywords(text: string): any {
+  private extractKeywords(text: string): KeywordAnalysis {
     const words = text.toLowerCase()
       .replace(/[^\w\s]/g, '')
       .split(/\s+/)
@@ -192,7 +439,7 @@ result
     return { keywords, totalWords: words.length };
   }
 
-  private basicSummarization(text: string): any {
+  private basicSummarization(text: string): SummaryAnalysis {
     const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
     const summary = sentences.slice(0, Math.min(3, Math.ceil(sentences.length * 0.3)));
     
@@ -204,47 +451,744 @@ result
   }
 
   // Database operations
-  async saveDataset(name: string, data: any): Promise<string> {
+  async saveDataset(name: string, data: unknown): Promise<string> {
+    const writer = await this.createDatasetWriter(name);
+    const rows = normalizeRows(data);
+
+    try {
+      for (let offset = 0; offset < rows.length; offset += DATASET_CHUNK_SIZE) {
+        await writer.append(rows.slice(offset, offset + DATASET_CHUNK_SIZE));
+      }
+      return await writer.finish();
+    } catch (error) {
+      await writer.abort();
+      throw error;
+    }
+  }
+
+  // Streams rows into chunk storage; the dataset only becomes visible once finished
+  async createDatasetWriter(name: string): Promise<DatasetWriter> {
     if (!this.db) throw new Error('Database not initialized');
-    
+
+    const db = this.db;
     const id = Date.now().toString();
-    const dataset = {
-      id,
-      name,
-      data,
-      created: new Date(),
-      size: JSON.stringify(data).length
+    const columns: string[] = [];
+    let buffer: DatasetRow[] = [];
+    let rowCount = 0;
+    let chunkCount = 0;
+    let size = 0;
+
+    const flush = async () => {
+      if (buffer.length === 0) return;
+      const chunk = buildChunk(id, chunkCount, rowCount, buffer, columns);
+      await db.put('datasetChunks', await this.seal('datasetChunks', chunk));
+      rowCount += chunk.rowCount;
+      size += chunk.size;
+      chunkCount++;
+      buffer = [];
+    };
+
+    return {
+      append: async (rows) => {
+        collectColumns(rows, columns);
+        for (const row of rows) {
+          buffer.push(row);
+          if (buffer.length >= DATASET_CHUNK_SIZE) {
+            await flush();
+          }
+        }
+      },
+      finish: async () => {
+        await flush();
+        await db.add('datasets', await this.seal('datasets', {
+          id,
+          name,
+          manifest: { rowCount, columns, chunkSize: DATASET_CHUNK_SIZE, chunkCount },
+          created: new Date(),
+          size,
+        }));
+        this.changes.emit({ type: 'dataset-added', id });
+        return id;
+      },
+      abort: async () => {
+        buffer = [];
+        await db.delete('datasetChunks', chunkKeyRange(id));
+      },
     };
-    
-    await this.db.add('datasets', dataset);
-    return id;
   }
 
-  async getDatasets(): Promise<any[]> {
+  async getDatasets(): Promise<DatasetRecord[]> {
     if (!this.db) return [];
-    return this.db.getAll('datasets');
+    return this.vault.openAll(await this.db.getAll('datasets'));
+  }
+
+  async getDataset(id: string): Promise<DatasetRecord | undefined> {
+    if (!this.db) return undefined;
+    return this.vault.open(await this.db.get('datasets', id));
+  }
+
+  // Chunks are read one at a time rather than with a cursor, since waiting on decryption
+  // would end the cursor's transaction
+  private async getChunk(id: string, index: number): Promise<DatasetChunk | undefined> {
+    if (!this.db) return undefined;
+    return this.vault.open(await this.db.get('datasetChunks', [id, index]));
+  }
+
+  // Reads a window of rows, touching only the chunks that overlap it
+  async getRows(id: string, offset: number, limit: number): Promise<DatasetRow[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const dataset = await this.getDataset(id);
+    if (!dataset) throw new Error('Dataset not found');
+
+    const { chunkSize, columns, rowCount } = dataset.manifest;
+    const end = Math.min(offset + limit, rowCount);
+    if (offset >= end) return [];
+
+    const rows: DatasetRow[] = [];
+    for (let index = Math.floor(offset / chunkSize); index <= Math.floor((end - 1) / chunkSize); index++) {
+      const chunk = await this.getChunk(id, index);
+      if (!chunk) continue;
+      const start = Math.max(offset - chunk.rowOffset, 0);
+      const stop = Math.min(end - chunk.rowOffset, chunk.rowCount);
+      rows.push(...chunkToRows(chunk, columns, start, stop));
+    }
+
+    return rows;
+  }
+
+  async getColumn(id: string, name: string): Promise<unknown[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const dataset = await this.getDataset(id);
+    if (!dataset) throw new Error('Dataset not found');
+    if (!dataset.manifest.columns.includes(name)) throw new Error(`Column "${name}" not found`);
+
+    const values: unknown[] = [];
+    for (let index = 0; index < dataset.manifest.chunkCount; index++) {
+      const chunk = await this.getChunk(id, index);
+      if (!chunk) continue;
+      values.push(...(chunk.columns[name] ?? new Array(chunk.rowCount).fill(null)));
+    }
+
+    return values;
   }
 
-  async saveConversation(conversation: any): Promise<void> {
+  // Runs a local analysis on a bounded prefix of the dataset
+  async analyzeDataset<N extends DataOperationName>(
+    id: string,
+    operation: N,
+    params?: DataOperationParams<N>
+  ): Promise<DatasetAnalysis> {
+    const dataset = await this.getDataset(id);
+    if (!dataset) throw new Error('Dataset not found');
+
+    const rows = await this.getRows(id, 0, MAX_ANALYSIS_ROWS);
+    const result = await this.processDataLocally(rows, operation, params);
+
+    return {
+      ...result,
+      analyzedRows: rows.length,
+      totalRows: dataset.manifest.rowCount,
+      sampled: rows.length < dataset.manifest.rowCount,
+    };
+  }
+
+  private async deleteDatasetChunks(ids: string[]): Promise<void> {
+    if (!this.db || ids.length === 0) return;
+
+    const tx = this.db.transaction('datasetChunks', 'readwrite');
+    await Promise.all(ids.map(id => tx.store.delete(chunkKeyRange(id))));
+    await tx.done;
+  }
+
+  async renameDataset(id: string, name: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Dataset name cannot be empty');
+
+    const dataset = await this.getDataset(id);
+    if (!dataset) throw new Error('Dataset not found');
+
+    await this.db.put('datasets', await this.seal('datasets', { ...dataset, name: trimmed }));
+    this.changes.emit({ type: 'dataset-updated', id });
+  }
+
+  async setDatasetSensitivity(id: string, sensitivity: PiiSensitivity): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const dataset = await this.getDataset(id);
+    if (!dataset) throw new Error('Dataset not found');
+
+    await this.db.put('datasets', await this.seal('datasets', { ...dataset, sensitivity }));
+    this.changes.emit({ type: 'dataset-updated', id });
+  }
+
+  async duplicateDataset(id: string): Promise<string> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const dataset = await this.getDataset(id);
+    if (!dataset) throw new Error('Dataset not found');
+
+    const copyId = Date.now().toString();
+    const copy = await this.seal('datasets', {
+      ...dataset,
+      id: copyId,
+      name: `${dataset.name} (copy)`,
+      created: new Date(),
+    });
+    const tx = this.db.transaction(['datasets', 'datasetChunks'], 'readwrite');
+    const chunks = tx.objectStore('datasetChunks');
+
+    // Copy chunk by chunk so the dataset is never held in memory as a whole. The chunk id
+    // is a clear field, so encrypted chunks are copied without decrypting them.
+    let cursor = await chunks.openCursor(chunkKeyRange(id));
+    while (cursor) {
+      await chunks.put({ ...cursor.value, datasetId: copyId });
+      cursor = await cursor.continue();
+    }
+    await tx.objectStore('datasets').add(copy);
+    await tx.done;
+    this.changes.emit({ type: 'dataset-added', id: copyId });
+
+    return copyId;
+  }
+
+  // Soft delete: the dataset moves to the trash and can be restored until it expires
+  async deleteDataset(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const dataset = await this.getDataset(id);
+    if (!dataset) throw new Error('Dataset not found');
+    const entry = await this.seal('trash', { id, dataset, deletedAt: new Date() });
+
+    const tx = this.db.transaction(['datasets', 'trash'], 'readwrite');
+    // Another tab may have deleted it in the meantime
+    if (!(await tx.objectStore('datasets').getKey(id))) throw new Error('Dataset not found');
+
+    await tx.objectStore('trash').put(entry);
+    await tx.objectStore('datasets').delete(id);
+    await tx.done;
+    this.changes.emit({ type: 'dataset-removed', id });
+    this.changes.emit({ type: 'trash-changed' });
+  }
+
+  async getTrash(): Promise<TrashedDataset[]> {
+    if (!this.db) return [];
+    return this.vault.openAll(await this.db.getAll('trash'));
+  }
+
+  async restoreDataset(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const entry = await this.vault.open(await this.db.get('trash', id));
+    if (!entry) throw new Error('Dataset not found in trash');
+    const dataset = await this.seal('datasets', entry.dataset);
+
+    const tx = this.db.transaction(['datasets', 'trash'], 'readwrite');
+    if (!(await tx.objectStore('trash').getKey(id))) throw new Error('Dataset not found in trash');
+
+    await tx.objectStore('datasets').put(dataset);
+    await tx.objectStore('trash').delete(id);
+    await tx.done;
+    this.changes.emit({ type: 'dataset-added', id });
+    this.changes.emit({ type: 'trash-changed' });
+  }
+
+  // Permanently removes a dataset from the trash
+  async purgeDataset(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.delete('trash', id);
+    await this.deleteDatasetChunks([id]);
+    this.changes.emit({ type: 'trash-changed' });
+  }
+
+  async emptyTrash(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    const ids = (await this.db.getAllKeys('trash')) as string[];
+    await this.db.clear('trash');
+    await this.deleteDatasetChunks(ids);
+    this.changes.emit({ type: 'trash-changed' });
+  }
+
+  async getTrashRetentionDays(): Promise<number> {
+    const days = Number(await this.getSetting('trashRetentionDays'));
+    return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  getTrashExpiry(entry: TrashedDataset, retentionDays: number): Date {
+    return new Date(new Date(entry.deletedAt).getTime() + retentionDays * DAY_MS);
+  }
+
+  async purgeExpiredTrash(): Promise<number> {
+    if (!this.db) return 0;
+
+    const retentionDays = await this.getTrashRetentionDays();
+    const now = Date.now();
+    const purged: string[] = [];
+
+    // Only reads clear fields, so encrypted entries need no decrypting here
+    const tx = this.db.transaction('trash', 'readwrite');
+    let cursor = await tx.store.openCursor();
+    while (cursor) {
+      if (this.getTrashExpiry(cursor.value, retentionDays).getTime() <= now) {
+        purged.push(cursor.value.id);
+        await cursor.delete();
+      }
+      cursor = await cursor.continue();
+    }
+    await tx.done;
+
+    await this.deleteDatasetChunks(purged);
+    if (purged.length > 0) {
+      this.changes.emit({ type: 'trash-changed' });
+    }
+    return purged.length;
+  }
+
+  async saveConversation(conversation: ConversationRecord): Promise<void> {
     if (!this.db) return;
-    await this.db.put('conversations', conversation);
+    await this.db.put('conversations', await this.seal('conversations', { ...conversation, updated: new Date() }));
+    this.changes.emit({ type: 'conversation-updated', id: conversation.id });
+    if (this.recordingOperations) {
+      await this.recordConversation(conversation);
+    }
   }
 
-  async getConversations(): Promise<any[]> {
+  // Most recently active conversations first
+  async getConversations(): Promise<ConversationRecord[]> {
     if (!this.db) return [];
-    return this.db.getAll('conversations');
+    const conversations = await this.db.getAllFromIndex('conversations', 'by-updated');
+    return this.vault.openAll(conversations.reverse());
+  }
+
+  async getConversation(id: string): Promise<ConversationRecord | undefined> {
+    if (!this.db) return undefined;
+    return this.vault.open(await this.db.get('conversations', id));
+  }
+
+  async renameConversation(id: string, title: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const trimmed = title.trim();
+    if (!trimmed) throw new Error('Conversation title cannot be empty');
+
+    const conversation = await this.getConversation(id);
+    if (!conversation) throw new Error('Conversation not found');
+
+    await this.db.put('conversations', await this.seal('conversations', { ...conversation, title: trimmed }));
+    this.changes.emit({ type: 'conversation-updated', id });
+    if (this.recordingOperations) {
+      await this.recordConversation({ ...conversation, title: trimmed });
+    }
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.delete('conversations', id);
+    this.changes.emit({ type: 'conversation-removed', id });
+    if (this.recordingOperations) {
+      await this.recordOperations([{ kind: 'conversation-deleted', id }]);
+    }
+  }
+
+  // Builds a short title from the opening message without leaving the device
+  generateConversationTitle(text: string): string {
+    const words = text
+      .replace(/[`*_#>[\]()]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(TITLE_FILLER_PREFIX, '')
+      .split(' ')
+      .filter(Boolean);
+
+    if (words.length === 0) return DEFAULT_CONVERSATION_TITLE;
+
+    const title = words.slice(0, TITLE_MAX_WORDS).join(' ').replace(/[.,;:!?]+$/, '');
+    const suffix = words.length > TITLE_MAX_WORDS ? '…' : '';
+    return title.charAt(0).toUpperCase() + title.slice(1) + suffix;
   }
 
   async setSetting(key: string, value: any): Promise<void> {
     if (!this.db) return;
-    await this.db.put('settings', { key, value });
+    await this.db.put('settings', CLEAR_SETTINGS.includes(key) ? { key, value } : await this.seal('settings', { key, value }));
+    this.changes.emit({ type: 'setting-changed', key });
+    if (this.recordingOperations && isSyncedSetting(key)) {
+      await this.recordSetting(key, value);
+    }
   }
 
   async getSetting(key: string): Promise<any> {
     if (!this.db) return null;
-    const setting = await this.db.get('settings', key);
+    const setting = await this.vault.open(await this.db.get('settings', key));
     return setting?.value || null;
   }
+
+  onAuditLogChange(listener: () => void): () => void {
+    return this.onChange(() => listener(), ['audit-log-changed']);
+  }
+
+  async addAuditEntry(entry: CloudAuditEntry): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.put('auditLog', await this.seal('auditLog', entry));
+    this.changes.emit({ type: 'audit-log-changed' });
+  }
+
+  // Newest first
+  async getAuditLog(): Promise<CloudAuditEntry[]> {
+    if (!this.db) return [];
+    const entries = await this.db.getAllFromIndex('auditLog', 'by-timestamp');
+    return this.vault.openAll(entries.reverse());
+  }
+
+  async clearAuditLog(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.clear('auditLog');
+    this.changes.emit({ type: 'audit-log-changed' });
+  }
+
+  // `remote` is set when another tab changed the queue
+  onCloudQueueChange(listener: (remote: boolean) => void): () => void {
+    return this.onChange((_, remote) => listener(remote), ['cloud-queue-changed']);
+  }
+
+  async putQueuedRequest(request: QueuedCloudRequest): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.put('cloudQueue', await this.seal('cloudQueue', request));
+    this.changes.emit({ type: 'cloud-queue-changed' });
+  }
+
+  // Oldest first, the order they are replayed in
+  async getQueuedRequests(): Promise<QueuedCloudRequest[]> {
+    if (!this.db) return [];
+    return this.vault.openAll(await this.db.getAllFromIndex('cloudQueue', 'by-created'));
+  }
+
+  async getQueuedRequest(id: string): Promise<QueuedCloudRequest | undefined> {
+    if (!this.db) return undefined;
+    return this.vault.open(await this.db.get('cloudQueue', id));
+  }
+
+  async deleteQueuedRequest(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.delete('cloudQueue', id);
+    this.changes.emit({ type: 'cloud-queue-changed' });
+  }
+
+  // Sync operation log
+
+  // Starts logging synced edits; call reconcileOperationLog to catch up on earlier ones
+  startOperationLog() {
+    this.recordingOperations = true;
+  }
+
+  stopOperationLog() {
+    this.recordingOperations = false;
+  }
+
+  async getSyncDevice(): Promise<SyncDevice> {
+    if (!this.db) throw new Error('Database not initialized');
+    const tx = this.db.transaction('settings', 'readwrite');
+    const device = await this.loadSyncDevice(tx.store);
+    await tx.done;
+    return device;
+  }
+
+  // Created on first use; the id only tells this device's operations apart from others'
+  private async loadSyncDevice(
+    settings: IDBPObjectStore<LocalDatabase, ArrayLike<StoreNames<LocalDatabase>>, 'settings', 'readwrite'>
+  ): Promise<SyncDevice> {
+    const stored = (await settings.get(SYNC_DEVICE_KEY))?.value as SyncDevice | undefined;
+    if (stored) return stored;
+    const device: SyncDevice = { id: crypto.randomUUID().slice(0, 8), seq: 0, hlc: '' };
+    await settings.put({ key: SYNC_DEVICE_KEY, value: device });
+    return device;
+  }
+
+  // Sequence numbers and clock values are handed out in one transaction, because every tab
+  // records under the same device id
+  private async recordOperations(payloads: SyncPayload[]): Promise<void> {
+    if (!this.db || payloads.length === 0) return;
+
+    // Encrypted before the transaction starts, since waiting on encryption would end it
+    const sealed = await Promise.all(payloads.map(payload => this.vault.seal({ payload }, [])));
+    const tx = this.db.transaction(['settings', 'oplog'], 'readwrite');
+    const settings = tx.objectStore('settings');
+    const device = await this.loadSyncDevice(settings);
+    const clock = new HybridClock(device.id, device.hlc || undefined);
+    let seq = device.seq;
+    for (const [index, payload] of payloads.entries()) {
+      seq++;
+      await tx.objectStore('oplog').add({
+        id: `${device.id}:${seq}`,
+        device: device.id,
+        seq,
+        hlc: clock.now(),
+        record: recordOf(payload),
+        ...sealed[index],
+      });
+    }
+    await settings.put({ key: SYNC_DEVICE_KEY, value: { ...device, seq, hlc: clock.current() } });
+    await tx.done;
+    this.changes.emit({ type: 'operations-recorded' });
+  }
+
+  private async getRecordOperations(record: string): Promise<SyncOperation[]> {
+    if (!this.db) return [];
+    return this.vault.openAll(await this.db.getAllFromIndex('oplog', 'by-record', record));
+  }
+
+  private async recordConversation(conversation: ConversationRecord) {
+    const logged = materializeConversation(await this.getRecordOperations(`conversation:${conversation.id}`));
+    await this.recordOperations(diffConversation(logged, withoutLocalState(conversation)));
+  }
+
+  private async recordSetting(key: string, value: unknown) {
+    const logged = materializeSetting(await this.getRecordOperations(`setting:${key}`));
+    if (settingChanged(logged, value)) {
+      await this.recordOperations([{ kind: 'setting', key, value }]);
+    }
+  }
+
+  // Logs whatever differs between the stored data and what the log rebuilds, including
+  // deletions. The first run after sync is enabled records everything as it stands.
+  async reconcileOperationLog(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const byRecord = new Map<string, SyncOperation[]>();
+    for (const operation of await this.vault.openAll(await this.db.getAll('oplog'))) {
+      byRecord.set(operation.record, [...(byRecord.get(operation.record) ?? []), operation]);
+    }
+
+    const payloads: SyncPayload[] = [];
+    const conversations = await this.vault.openAll(await this.db.getAll('conversations'));
+    for (const conversation of conversations) {
+      const logged = materializeConversation(byRecord.get(`conversation:${conversation.id}`) ?? []);
+      payloads.push(...diffConversation(logged, withoutLocalState(conversation)));
+    }
+
+    const present = new Set(conversations.map(c => `conversation:${c.id}`));
+    for (const [record, operations] of byRecord) {
+      if (record.startsWith('conversation:') && !present.has(record) && materializeConversation(operations)) {
+        payloads.push({ kind: 'conversation-deleted', id: record.slice('conversation:'.length) });
+      }
+    }
+
+    for (const key of SYNCED_SETTINGS) {
+      const stored = await this.vault.open(await this.db.get('settings', key));
+      if (stored && settingChanged(materializeSetting(byRecord.get(`setting:${key}`) ?? []), stored.value)) {
+        payloads.push({ kind: 'setting', key, value: stored.value });
+      }
+    }
+
+    await this.recordOperations(payloads);
+  }
+
+  // The highest sequence number held from each device
+  async getVersionVector(): Promise<VersionVector> {
+    if (!this.db) return {};
+
+    const vector: VersionVector = {};
+    // Walk backwards, jumping from each device's last operation to the previous device
+    let cursor = await this.db.transaction('oplog').store.index('by-device').openKeyCursor(null, 'prev');
+    while (cursor) {
+      const [device, seq] = cursor.key as unknown as [string, number];
+      vector[device] = seq;
+      cursor = await cursor.continue([device, -Infinity] as unknown as string);
+    }
+    return vector;
+  }
+
+  // Operations newer than `vector`, oldest first per device
+  async getOperationsSince(vector: VersionVector): Promise<SyncOperation[]> {
+    if (!this.db) return [];
+    const operations = await this.db.getAllFromIndex('oplog', 'by-device');
+    return this.vault.openAll(operations.filter(op => op.seq > (vector[op.device] ?? 0)));
+  }
+
+  // Merges operations from another device and rewrites the records they touch from the
+  // full log, so every device that holds the same operations ends up with the same data.
+  // Returns how many were new.
+  async applyOperations(operations: SyncOperation[]): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+
+    const incoming = new Map(operations.map(op => [op.id, op]));
+    const known = await Promise.all([...incoming.keys()].map(id => db.getKey('oplog', id)));
+    const fresh = [...incoming.values()].filter((_, index) => !known[index]);
+    if (fresh.length === 0) return 0;
+
+    // Records are rebuilt and encrypted before the transaction, since waiting on
+    // encryption would end it
+    const writes: Array<{ event: ChangeEvent; value?: ConversationRecord | LocalDatabase['settings']['value'] }> = [];
+    for (const record of new Set(fresh.map(op => op.record))) {
+      const recordOperations = [
+        ...(await this.getRecordOperations(record)),
+        ...fresh.filter(op => op.record === record),
+      ];
+      if (record.startsWith('setting:')) {
+        const key = record.slice('setting:'.length);
+        const value = materializeSetting(recordOperations);
+        if (value === undefined) continue;
+        writes.push({ event: { type: 'setting-changed', key }, value: await this.seal('settings', { key, value }) });
+        continue;
+      }
+
+      const id = record.slice('conversation:'.length);
+      const conversation = materializeConversation(recordOperations);
+      if (!conversation) {
+        writes.push({ event: { type: 'conversation-removed', id } });
+        continue;
+      }
+      // Replies still waiting in this device's offline queue keep their mark
+      const local = await this.getConversation(id);
+      const queued = new Map(local?.messages.filter(m => m.queuedId).map(m => [m.id, m.queuedId]) ?? []);
+      writes.push({
+        event: { type: 'conversation-updated', id },
+        value: await this.seal('conversations', {
+          ...conversation,
+          messages: conversation.messages.map(m => queued.has(m.id) ? { ...m, queuedId: queued.get(m.id) } : m),
+        }),
+      });
+    }
+    const sealedOperations = await Promise.all(fresh.map(op => this.seal('oplog', op)));
+
+    const tx = db.transaction(['oplog', 'conversations', 'settings'], 'readwrite');
+    const settings = tx.objectStore('settings');
+    const device = await this.loadSyncDevice(settings);
+    const clock = new HybridClock(device.id, device.hlc || undefined);
+    for (const operation of sealedOperations) {
+      // Another tab may have applied the same batch meanwhile
+      if (await tx.objectStore('oplog').getKey(operation.id)) continue;
+      await tx.objectStore('oplog').add(operation);
+      clock.observe(operation.hlc);
+    }
+    // Later local edits must order after everything seen here
+    await settings.put({ key: SYNC_DEVICE_KEY, value: { ...device, hlc: clock.current() } });
+
+    for (const { event, value } of writes) {
+      if (event.type === 'setting-changed') {
+        await settings.put(value as LocalDatabase['settings']['value']);
+      } else if (event.type === 'conversation-updated') {
+        await tx.objectStore('conversations').put(value as ConversationRecord);
+      } else if (event.type === 'conversation-removed') {
+        await tx.objectStore('conversations').delete(event.id);
+      }
+    }
+    await tx.done;
+
+    writes.forEach(({ event }) => this.changes.emit(event, true));
+    return fresh.length;
+  }
+
+  // Encryption at rest
+
+  private seal<S extends EncryptedStore>(store: S, record: LocalDatabase[S]['value']): Promise<LocalDatabase[S]['value']> {
+    return this.vault.seal(record, CLEAR_FIELDS[store]);
+  }
+
+  getEncryptionStatus(): EncryptionStatus {
+    const meta = this.vault.getMeta();
+    return {
+      enabled: this.vault.isEnabled(),
+      locked: this.vault.isLocked(),
+      autoLockMinutes: meta?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+    };
+  }
+
+  isLocked(): boolean {
+    return this.vault.isLocked();
+  }
+
+  // Throws WrongPassphraseError for a wrong passphrase
+  async unlock(passphrase: string): Promise<void> {
+    await this.vault.unlock(passphrase);
+    this.unlockWaiters.splice(0).forEach(resolve => resolve());
+  }
+
+  // Drops the key from memory; listeners are expected to clear anything decrypted
+  lock() {
+    if (!this.vault.isEnabled()) return;
+    this.vault.lock();
+    this.lockListeners.forEach(listener => listener());
+  }
+
+  onLock(listener: () => void): () => void {
+    this.lockListeners.add(listener);
+    return () => {
+      this.lockListeners.delete(listener);
+    };
+  }
+
+  private whenUnlocked(): Promise<void> {
+    if (!this.vault.isLocked()) return Promise.resolve();
+    return new Promise(resolve => this.unlockWaiters.push(resolve));
+  }
+
+  // Encrypts everything stored so far. Records are opened whether sealed or not, so an
+  // interrupted run leaves everything readable. Upgrade backups are plain copies, so they
+  // are deleted rather than left holding the data unencrypted.
+  async enableEncryption(passphrase: string, autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (this.vault.isEnabled()) throw new Error('Encryption is already enabled');
+
+    await this.saveEncryptionMeta(await this.vault.create(passphrase, autoLockMinutes));
+    await deleteMigrationBackups();
+    await this.rewriteRecords();
+    this.changes.emit({ type: 'encryption-changed' });
+  }
+
+  // Decrypts everything, then forgets the key. Nothing is sealed while this runs.
+  async disableEncryption(passphrase: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.vault.verify(passphrase);
+
+    this.vault.stopSealing();
+    await this.rewriteRecords();
+    await this.db.delete('settings', ENCRYPTION_KEY);
+    this.vault.disable();
+    this.changes.emit({ type: 'encryption-changed' });
+  }
+
+  async changePassphrase(current: string, next: string): Promise<void> {
+    await this.saveEncryptionMeta(await this.vault.rewrap(current, next));
+    this.changes.emit({ type: 'encryption-changed' });
+  }
+
+  async setAutoLockMinutes(minutes: number): Promise<void> {
+    const meta = this.vault.setAutoLockMinutes(minutes);
+    if (meta) await this.saveEncryptionMeta(meta);
+  }
+
+  private async saveEncryptionMeta(meta: EncryptionMeta) {
+    if (!this.db) throw new Error('Database not initialized');
+    await this.db.put('settings', { key: ENCRYPTION_KEY, value: meta });
+  }
+
+  // Re-stores every record: sealed while encryption is on, in the clear otherwise.
+  // One record at a time, so even large datasets are never held in memory whole.
+  private async rewriteRecords() {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+
+    for (const store of Object.keys(CLEAR_FIELDS) as EncryptedStore[]) {
+      for (const key of await db.getAllKeys(store)) {
+        if (store === 'settings' && CLEAR_SETTINGS.includes(key as string)) continue;
+        const record = await this.vault.open(await db.get(store, key));
+        if (!record) continue;
+        await db.put(store, (await this.seal(store, record as never)) as never);
+      }
+    }
+  }
+}
+
+// Offline queue marks belong to this device and are not synced
+function withoutLocalState(conversation: ConversationRecord): ConversationRecord {
+  return {
+    ...conversation,
+    messages: conversation.messages.map(({ queuedId: _queuedId, ...message }) => message),
+  };
 }
 
 export const localBackend = new LocalBackend();
\ No newline at end of file
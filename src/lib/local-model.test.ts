@@ -0,0 +1,97 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { LlmError } from './llm-providers';
+import { localModel } from './local-model';
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+let server: Server | null = null;
+
+// An OpenAI-compatible server on a free port; resolves to its /v1 base URL
+const serve = (handler: Handler) =>
+  new Promise<string>(resolve => {
+    server = createServer(handler);
+    server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`);
+    });
+  });
+
+const readBody = (request: IncomingMessage) =>
+  new Promise<Record<string, unknown>>(resolve => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => resolve(JSON.parse(body)));
+  });
+
+const chunk = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+const collect = async (stream: AsyncIterable<string>) => {
+  const parts: string[] = [];
+  for await (const part of stream) parts.push(part);
+  return parts;
+};
+
+afterEach(async () => {
+  localModel.setConfig(null);
+  if (!server) return;
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  server = null;
+});
+
+describe('localModel', () => {
+  it('streams chat completions from the configured server', async () => {
+    let sent: Record<string, unknown> = {};
+    const baseUrl = await serve(async (request, response) => {
+      sent = await readBody(request);
+      response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      response.write(chunk('Hello'));
+      response.write(chunk(', world'));
+      response.end('data: [DONE]\n\n');
+    });
+    localModel.setConfig({ enabled: true, baseUrl, model: 'llama3' });
+
+    expect(await collect(localModel.chatStream('Hi'))).toEqual(['Hello', ', world']);
+    expect(sent).toMatchObject({ model: 'llama3', stream: true, messages: [expect.objectContaining({ role: 'system' }), { role: 'user', content: 'Hi' }] });
+  });
+
+  it('stops reading when the request is aborted', async () => {
+    const baseUrl = await serve((_, response) => {
+      response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      // Never finishes on its own
+      response.write(chunk('partial'));
+    });
+    localModel.setConfig({ enabled: true, baseUrl, model: 'llama3' });
+
+    const controller = new AbortController();
+    const parts: string[] = [];
+    const reading = (async () => {
+      for await (const part of localModel.chatStream('Hi', [], controller.signal)) {
+        parts.push(part);
+        controller.abort();
+      }
+    })();
+
+    await expect(reading).rejects.toMatchObject({ name: 'AbortError' });
+    expect(parts).toEqual(['partial']);
+  });
+
+  it('reports an unreachable server as a network error', async () => {
+    // Take a free port, then close the server so nothing is listening on it
+    const baseUrl = await serve(() => {});
+    await new Promise(resolve => server.close(resolve));
+    server = null;
+    localModel.setConfig({ enabled: true, baseUrl, model: 'llama3' });
+
+    const error = await collect(localModel.chatStream('Hi')).catch(e => e);
+    expect(error).toBeInstanceOf(LlmError);
+    expect(error).toMatchObject({ kind: 'network', provider: 'openai-compatible', isTransient: true });
+    expect(await localModel.healthCheck()).toMatchObject({ ok: false, error: expect.stringContaining("Couldn't reach") });
+  });
+
+  it('refuses to stream until a server and model are configured', () => {
+    localModel.setConfig({ enabled: true, baseUrl: 'http://127.0.0.1:11434/v1', model: '' });
+    expect(() => localModel.chatStream('Hi')).toThrow('Local model server is not configured');
+  });
+});
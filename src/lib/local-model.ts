@@ -0,0 +1,80 @@
+// Local model tier: an OpenAI-compatible server on this machine (Ollama, llama.cpp server, ...)
+import {
+  buildChatMessages,
+  createLlmProvider,
+  type LlmHealth,
+  type LlmMessage,
+  type LlmModel,
+  type LlmProvider,
+} from './llm-providers';
+import type { HybridRequest } from './hybrid-analysis';
+import { localBackend } from './local-backend';
+
+export interface LocalModelConfig {
+  enabled: boolean;
+  baseUrl: string;
+  model: string;
+}
+
+// Ollama's default port; llama.cpp's server listens on 8080 with the same /v1 paths
+export const DEFAULT_LOCAL_MODEL_CONFIG: LocalModelConfig = {
+  enabled: false,
+  baseUrl: 'http://localhost:11434/v1',
+  model: '',
+};
+
+class LocalModel {
+  private config: LocalModelConfig = { ...DEFAULT_LOCAL_MODEL_CONFIG };
+
+  async loadSettings() {
+    this.setConfig(await localBackend.getSetting('localModel'));
+  }
+
+  setConfig(config: Partial<LocalModelConfig> | null) {
+    this.config = { ...DEFAULT_LOCAL_MODEL_CONFIG, ...config };
+  }
+
+  getConfig(): LocalModelConfig {
+    return { ...this.config };
+  }
+
+  getStatus() {
+    return {
+      isEnabled: this.config.enabled,
+      isConfigured: !!this.config.baseUrl.trim() && !!this.config.model.trim(),
+      model: this.config.model,
+    };
+  }
+
+  private provider(config: LocalModelConfig = this.config): LlmProvider {
+    return createLlmProvider('openai-compatible', { apiKey: '', model: config.model, baseUrl: config.baseUrl });
+  }
+
+  // Checked against a draft config so settings can be tested before they are saved
+  healthCheck(config: LocalModelConfig = this.config): Promise<LlmHealth> {
+    return this.provider(config).healthCheck();
+  }
+
+  listModels(config: LocalModelConfig = this.config): Promise<LlmModel[]> {
+    return this.provider(config).listModels(AbortSignal.timeout(10_000));
+  }
+
+  chatStream(userMessage: string, conversationHistory: LlmMessage[] = [], signal?: AbortSignal): AsyncIterable<string> {
+    return this.completeStream(buildChatMessages(userMessage, conversationHistory), signal);
+  }
+
+  analyzeStream(request: HybridRequest, signal?: AbortSignal): AsyncIterable<string> {
+    return this.completeStream(request.messages, signal);
+  }
+
+  private completeStream(messages: LlmMessage[], signal?: AbortSignal): AsyncIterable<string> {
+    const { isEnabled, isConfigured } = this.getStatus();
+    if (!isEnabled || !isConfigured) {
+      throw new Error('Local model server is not configured');
+    }
+
+    return this.provider().stream(messages, { model: this.config.model, signal });
+  }
+}
+
+export const localModel = new LocalModel();
@@ -0,0 +1,470 @@
+// Versioned IndexedDB schema migrations for LocalFirstDB
+import { openDB, deleteDB, type IDBPDatabase, type IDBPTransaction, type StoreNames } from 'idb';
+import type { LocalDatabase } from './local-backend';
+import { DATASET_CHUNK_SIZE, buildChunk, collectColumns, normalizeRows } from './dataset-chunks';
+
+export const DB_NAME = 'LocalFirstDB';
+const BACKUP_DB_NAME = 'LocalFirstDB-backup';
+const MAX_BACKUPS = 3;
+// Records copied per transaction while backing up; dataset chunks hold thousands of rows each
+const BACKUP_PAGE_SIZE = 20;
+
+type UpgradeTransaction = IDBPTransaction<LocalDatabase, StoreNames<LocalDatabase>[], 'versionchange'>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBPDatabase<LocalDatabase>, tx: UpgradeTransaction) => Promise<void>;
+}
+
+export interface MigrationProgress {
+  // superseded: another tab upgraded the database, so this one closed its connection and must reload
+  phase: 'checking' | 'backup' | 'migrating' | 'complete' | 'error' | 'superseded';
+  fromVersion: number;
+  toVersion: number;
+  completedSteps: number;
+  totalSteps: number;
+  currentStep?: { version: number; description: string };
+  backupId?: string;
+  error?: string;
+  // Something the user should know about an upgrade that still went ahead
+  warning?: string;
+}
+
+// Describes one backup. Its records are stored one by one in the 'records' store, so
+// neither taking nor downloading a backup holds a whole store in memory.
+export interface MigrationBackup {
+  id: string;
+  fromVersion: number;
+  toVersion: number;
+  created: Date;
+  storeNames: string[];
+  // Set once every record has been copied
+  complete: boolean;
+  // Backups taken before records were stored separately keep everything here
+  stores?: Record<string, unknown[]>;
+}
+
+interface BackupRecord {
+  snapshot: string;
+  seq: number;
+  store: string;
+  value: unknown;
+}
+
+// Every schema change gets a new numbered step here. Steps run in order inside
+// the single versionchange transaction, so a failure rolls the whole upgrade back.
+// With passphrase encryption on, records arrive sealed and only their clear fields
+// (see CLEAR_FIELDS in local-backend) can be read or rewritten here.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create datasets, conversations and settings stores',
+    async migrate(db) {
+      if (!db.objectStoreNames.contains('datasets')) {
+        db.createObjectStore('datasets', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('conversations')) {
+        db.createObjectStore('conversations', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('settings')) {
+        db.createObjectStore('settings', { keyPath: 'key' });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Add trash store for deleted datasets',
+    async migrate(db) {
+      if (!db.objectStoreNames.contains('trash')) {
+        db.createObjectStore('trash', { keyPath: 'id' });
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Index datasets, conversations and trash by date',
+    async migrate(db, tx) {
+      // Older records may carry serialized dates, which would be skipped by the new indexes
+      for (const storeName of ['datasets', 'conversations'] as const) {
+        let cursor = await tx.objectStore(storeName).openCursor();
+        while (cursor) {
+          if (!(cursor.value.created instanceof Date)) {
+            await cursor.update({ ...cursor.value, created: new Date(cursor.value.created ?? Date.now()) });
+          }
+          cursor = await cursor.continue();
+        }
+      }
+
+      createIndexIfMissing(tx, 'datasets', 'by-created', 'created');
+      createIndexIfMissing(tx, 'conversations', 'by-created', 'created');
+      createIndexIfMissing(tx, 'trash', 'by-deletedAt', 'deletedAt');
+    },
+  },
+  {
+    version: 4,
+    description: 'Add titles and activity timestamps to conversations',
+    async migrate(db, tx) {
+      let cursor = await tx.objectStore('conversations').openCursor();
+      while (cursor) {
+        const conversation = cursor.value;
+        const firstUserMessage = conversation.messages?.find(m => m.role === 'user');
+        const messages = (conversation.messages ?? []).map((message, index) => ({
+          ...message,
+          id: message.id ?? `${conversation.id}-${index}`,
+        }));
+
+        await cursor.update({
+          ...conversation,
+          title: conversation.title ?? (firstUserMessage
+            ? firstUserMessage.content.slice(0, 40)
+            : 'New conversation'),
+          messages,
+          updated: conversation.updated ?? messages[messages.length - 1]?.timestamp ?? conversation.created,
+        });
+        cursor = await cursor.continue();
+      }
+
+      createIndexIfMissing(tx, 'conversations', 'by-updated', 'updated');
+    },
+  },
+  {
+    version: 5,
+    description: 'Move dataset contents into columnar chunks',
+    async migrate(db, tx) {
+      if (!db.objectStoreNames.contains('datasetChunks')) {
+        db.createObjectStore('datasetChunks', { keyPath: ['datasetId', 'index'] });
+      }
+
+      const chunks = tx.objectStore('datasetChunks');
+      const toManifest = async (id: string, data: unknown) => {
+        const rows = normalizeRows(data);
+        const columns = collectColumns(rows, []);
+        let size = 0;
+        let chunkCount = 0;
+        for (let offset = 0; offset < rows.length; offset += DATASET_CHUNK_SIZE) {
+          const chunk = buildChunk(id, chunkCount++, offset, rows.slice(offset, offset + DATASET_CHUNK_SIZE), columns);
+          size += chunk.size;
+          await chunks.put(chunk);
+        }
+        return { manifest: { rowCount: rows.length, columns, chunkSize: DATASET_CHUNK_SIZE, chunkCount }, size };
+      };
+
+      let cursor = await tx.objectStore('datasets').openCursor();
+      while (cursor) {
+        const { data, ...dataset } = cursor.value as typeof cursor.value & { data?: unknown };
+        if (!dataset.manifest) {
+          await cursor.update({ ...dataset, ...(await toManifest(dataset.id, data)) });
+        }
+        cursor = await cursor.continue();
+      }
+
+      // Trashed datasets keep their full record, so convert those as well
+      let trashCursor = await tx.objectStore('trash').openCursor();
+      while (trashCursor) {
+        const entry = trashCursor.value;
+        const { data, ...dataset } = entry.dataset as typeof entry.dataset & { data?: unknown };
+        if (!dataset.manifest) {
+          await trashCursor.update({ ...entry, dataset: { ...dataset, ...(await toManifest(dataset.id, data)) } });
+        }
+        trashCursor = await trashCursor.continue();
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Keep API keys per LLM provider',
+    async migrate(db, tx) {
+      const settings = tx.objectStore('settings');
+      const legacyKey = await settings.get('gptApiKey');
+      if (!legacyKey) return;
+
+      if (legacyKey.value && !(await settings.get('llmProviders'))) {
+        await settings.put({
+          key: 'llmProviders',
+          value: { openai: { apiKey: legacyKey.value, model: 'gpt-4.1-2025-04-14' } },
+        });
+        await settings.put({ key: 'llmProvider', value: 'openai' });
+      }
+      await settings.delete('gptApiKey');
+    },
+  },
+  {
+    version: 7,
+    description: 'Add audit log for cloud requests',
+    async migrate(db, tx) {
+      if (!db.objectStoreNames.contains('auditLog')) {
+        db.createObjectStore('auditLog', { keyPath: 'id' });
+      }
+      createIndexIfMissing(tx, 'auditLog', 'by-timestamp', 'timestamp');
+    },
+  },
+  {
+    version: 8,
+    description: 'Add queue for cloud requests made while offline',
+    async migrate(db, tx) {
+      if (!db.objectStoreNames.contains('cloudQueue')) {
+        db.createObjectStore('cloudQueue', { keyPath: 'id' });
+      }
+      createIndexIfMissing(tx, 'cloudQueue', 'by-created', 'created');
+    },
+  },
+  {
+    version: 9,
+    description: 'Add operation log for sync between devices',
+    async migrate(db, tx) {
+      if (!db.objectStoreNames.contains('oplog')) {
+        db.createObjectStore('oplog', { keyPath: 'id' });
+      }
+      createIndexIfMissing(tx, 'oplog', 'by-record', 'record');
+      createIndexIfMissing(tx, 'oplog', 'by-device', ['device', 'seq']);
+    },
+  },
+];
+
+export const LATEST_DB_VERSION = migrations[migrations.length - 1].version;
+
+function createIndexIfMissing(tx: UpgradeTransaction, storeName: string, indexName: string, keyPath: string | string[]) {
+  const store = tx.objectStore(storeName);
+  if (!store.indexNames.contains(indexName)) {
+    store.createIndex(indexName, keyPath);
+  }
+}
+
+async function getStoredVersion(): Promise<number> {
+  if ('databases' in indexedDB) {
+    const databases = await indexedDB.databases();
+    return databases.find(db => db.name === DB_NAME)?.version ?? 0;
+  }
+
+  // Without indexedDB.databases() the only way to peek is to open without a version,
+  // which creates an empty v1 database if none existed yet
+  const db = await openDB(DB_NAME);
+  const version = db.objectStoreNames.length > 0 ? db.version : 0;
+  db.close();
+  if (version === 0) {
+    await deleteDB(DB_NAME);
+  }
+  return version;
+}
+
+async function openBackupDB() {
+  return openDB(BACKUP_DB_NAME, 2, {
+    upgrade(db, oldVersion) {
+      if (oldVersion < 1) {
+        db.createObjectStore('snapshots', { keyPath: 'id' });
+      }
+      if (oldVersion < 2) {
+        db.createObjectStore('records', { keyPath: ['snapshot', 'store', 'seq'] });
+      }
+    },
+  });
+}
+
+// Arrays sort after every other key type, so [id, []] bounds all of a snapshot's records
+const snapshotRecords = (id: string, store?: string) =>
+  store === undefined ? IDBKeyRange.bound([id], [id, []]) : IDBKeyRange.bound([id, store], [id, store, []]);
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+async function deleteBackup(backupDb: IDBPDatabase, id: string) {
+  const tx = backupDb.transaction(['snapshots', 'records'], 'readwrite');
+  await tx.objectStore('records').delete(snapshotRecords(id));
+  await tx.objectStore('snapshots').delete(id);
+  await tx.done;
+}
+
+// Copies every store of the current database into a separate backup database, a page of
+// records at a time. Values are copied as stored, so records sealed by encryption stay sealed.
+async function backupDatabase(fromVersion: number, toVersion: number): Promise<string> {
+  const id = `${Date.now()}-v${fromVersion}`;
+  const source = await openDB(DB_NAME, fromVersion);
+  const backupDb = await openBackupDB();
+  try {
+    const backup: MigrationBackup = {
+      id,
+      fromVersion,
+      toVersion,
+      created: new Date(),
+      storeNames: Array.from(source.objectStoreNames),
+      complete: false,
+    };
+    await backupDb.put('snapshots', backup);
+
+    let seq = 0;
+    for (const storeName of backup.storeNames) {
+      let after: IDBValidKey | undefined;
+      for (;;) {
+        // Read and written in separate transactions: waiting on the backup database
+        // would end a transaction on the source
+        const page: unknown[] = [];
+        const read = source.transaction(storeName);
+        let cursor = await read.store.openCursor(after === undefined ? null : IDBKeyRange.lowerBound(after, true));
+        while (cursor) {
+          page.push(cursor.value);
+          after = cursor.primaryKey;
+          if (page.length === BACKUP_PAGE_SIZE) break;
+          cursor = await cursor.continue();
+        }
+        await read.done;
+        if (page.length === 0) break;
+
+        const write = backupDb.transaction('records', 'readwrite');
+        for (const value of page) {
+          const record: BackupRecord = { snapshot: id, seq: seq++, store: storeName, value };
+          write.store.put(record);
+        }
+        await write.done;
+        if (page.length < BACKUP_PAGE_SIZE) break;
+      }
+    }
+    await backupDb.put('snapshots', { ...backup, complete: true });
+
+    // Keep only the most recent backups
+    const keys = (await backupDb.getAllKeys('snapshots')) as string[];
+    const stale = keys.sort((a, b) => parseInt(b, 10) - parseInt(a, 10)).slice(MAX_BACKUPS);
+    for (const key of stale) {
+      await deleteBackup(backupDb, key);
+    }
+  } catch (error) {
+    // Don't leave half a backup taking up space
+    await deleteBackup(backupDb, id).catch(() => {});
+    throw error;
+  } finally {
+    source.close();
+    backupDb.close();
+  }
+
+  return id;
+}
+
+// Backups taken before encryption was turned on hold user data in the clear
+export async function deleteMigrationBackups(): Promise<void> {
+  const backupDb = await openBackupDB();
+  try {
+    const tx = backupDb.transaction(['snapshots', 'records'], 'readwrite');
+    await Promise.all([tx.objectStore('records').clear(), tx.objectStore('snapshots').clear(), tx.done]);
+  } finally {
+    backupDb.close();
+  }
+}
+
+export async function getMigrationBackup(id: string): Promise<MigrationBackup | undefined> {
+  const backupDb = await openBackupDB();
+  try {
+    const backup: MigrationBackup | undefined = await backupDb.get('snapshots', id);
+    // Older backups were written in one go and have no completion flag
+    return backup && (backup.complete || backup.stores) ? backup : undefined;
+  } finally {
+    backupDb.close();
+  }
+}
+
+// Serializes a backup as { id, fromVersion, toVersion, created, stores: { [name]: records } },
+// appending to a Blob as it goes rather than building one large string
+export async function exportMigrationBackup(backup: MigrationBackup): Promise<Blob> {
+  const { id, fromVersion, toVersion, created, stores } = backup;
+  const opening = JSON.stringify({ id, fromVersion, toVersion, created }).slice(0, -1);
+  if (stores) {
+    return new Blob([`${opening},"stores":${JSON.stringify(stores)}}`], { type: 'application/json' });
+  }
+
+  let blob = new Blob([`${opening},"stores":{`]);
+  const backupDb = await openBackupDB();
+  try {
+    for (const [index, storeName] of backup.storeNames.entries()) {
+      let parts = [`${index === 0 ? '' : ','}${JSON.stringify(storeName)}:[`];
+      let first = true;
+      let cursor = await backupDb.transaction('records').store.openCursor(snapshotRecords(backup.id, storeName));
+      while (cursor) {
+        const record: BackupRecord = cursor.value;
+        parts.push(`${first ? '' : ','}${JSON.stringify(record.value)}`);
+        first = false;
+        if (parts.length >= BACKUP_PAGE_SIZE) {
+          blob = new Blob([blob, ...parts]);
+          parts = [];
+        }
+        cursor = await cursor.continue();
+      }
+      blob = new Blob([blob, ...parts, ']']);
+    }
+  } finally {
+    backupDb.close();
+  }
+  return new Blob([blob, '}}'], { type: 'application/json' });
+}
+
+export async function openLocalDatabase(
+  onProgress: (progress: MigrationProgress) => void = () => {}
+): Promise<IDBPDatabase<LocalDatabase>> {
+  const fromVersion = await getStoredVersion();
+  const pending = migrations.filter(m => m.version > fromVersion);
+  const progress: MigrationProgress = {
+    phase: 'checking',
+    fromVersion,
+    toVersion: LATEST_DB_VERSION,
+    completedSteps: 0,
+    totalSteps: pending.length,
+  };
+  const report = (update: Partial<MigrationProgress>) => {
+    Object.assign(progress, update);
+    onProgress({ ...progress });
+  };
+
+  report({});
+
+  try {
+    if (fromVersion > LATEST_DB_VERSION) {
+      throw new Error(`Database version ${fromVersion} is newer than this app supports (${LATEST_DB_VERSION}). Please update the app.`);
+    }
+
+    // Fresh installs have nothing to back up
+    if (pending.length > 0 && fromVersion > 0) {
+      report({ phase: 'backup' });
+      try {
+        report({ backupId: await backupDatabase(fromVersion, LATEST_DB_VERSION) });
+      } catch (error) {
+        if (!isQuotaError(error)) throw error;
+        // Running out of space for a copy shouldn't keep the app on an old schema
+        report({ warning: 'There was not enough storage space to back up your data, so it was upgraded without a backup.' });
+      }
+    }
+
+    let migrationError: unknown = null;
+    let db: IDBPDatabase<LocalDatabase>;
+    try {
+      db = await openDB<LocalDatabase>(DB_NAME, LATEST_DB_VERSION, {
+        upgrade(database, oldVersion, _newVersion, transaction) {
+          const steps = migrations.filter(m => m.version > oldVersion);
+          (async () => {
+            for (const step of steps) {
+              report({ phase: 'migrating', currentStep: { version: step.version, description: step.description } });
+              await step.migrate(database, transaction);
+              report({ completedSteps: progress.completedSteps + 1 });
+            }
+          })().catch(error => {
+            migrationError = error;
+            transaction.abort();
+          });
+        },
+        blocked() {
+          report({ error: 'Waiting for other open tabs of this app to close before upgrading the database.' });
+        },
+        // Let newer versions opened in other tabs upgrade instead of blocking them
+        blocking() {
+          db?.close();
+          report({ phase: 'superseded' });
+        },
+      });
+    } catch (error) {
+      throw migrationError ?? error;
+    }
+
+    report({ phase: 'complete', currentStep: undefined, error: undefined });
+    return db;
+  } catch (error) {
+    report({ phase: 'error', error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
@@ -0,0 +1,195 @@
+// Cloud questions asked while offline, kept in IndexedDB and sent once the connection is back
+//
+// The local reply is saved straight away; the cloud answer is inserted after it in the same
+// conversation when the queued request is replayed. Every tab can queue and cancel, but only
+// the leader tab replays, so nothing is sent twice.
+import { cloudFallback } from './cloud-fallback';
+import { CloudUnavailableError } from './cloud-resilience';
+import { connectivity } from './connectivity';
+import { isLeader, whenLeader } from './leader-election';
+import { LlmError } from './llm-providers';
+import { localBackend, type ConversationMessage, type QueuedCloudRequest } from './local-backend';
+import { RedactionSession } from './pii-redaction';
+import { BudgetExceededError } from './usage-budget';
+
+export type NewQueuedRequest = Omit<QueuedCloudRequest, 'created' | 'status' | 'error'>;
+
+// For saving a conversation from messages read before the queue last changed it: keeps the
+// answers the queue inserted since, and drops queue marks it has cleared
+export function mergeQueueUpdates(messages: ConversationMessage[], stored: ConversationMessage[]): ConversationMessage[] {
+  const storedById = new Map(stored.map(m => [m.id, m]));
+  const merged = messages.map(m => {
+    const saved = storedById.get(m.id);
+    return m.queuedId && saved && !saved.queuedId ? { ...m, queuedId: undefined } : m;
+  });
+
+  const known = new Set(messages.map(m => m.id));
+  stored.forEach((message, index) => {
+    if (known.has(message.id)) return;
+    const previous = merged.findIndex(m => m.id === stored[index - 1]?.id);
+    merged.splice(previous + 1, 0, message);
+  });
+  return merged;
+}
+
+class OfflineQueue {
+  private replaying: Promise<void> | null = null;
+  private inFlight = new Map<string, AbortController>();
+  private conversationListeners = new Set<(conversationId: string) => void>();
+  private started = false;
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+    whenLeader().then(() => {
+      connectivity.onChange(online => {
+        if (online) this.replay();
+      });
+      // Other tabs queue, retry and cancel through the database
+      localBackend.onCloudQueueChange(remote => {
+        if (!remote) return;
+        this.abortCancelled();
+        this.replay();
+      });
+    });
+  }
+
+  // Told when a replayed answer or a cancellation changed a saved conversation
+  onConversationUpdate(listener: (conversationId: string) => void): () => void {
+    this.conversationListeners.add(listener);
+    return () => {
+      this.conversationListeners.delete(listener);
+    };
+  }
+
+  async enqueue(request: NewQueuedRequest): Promise<void> {
+    await localBackend.putQueuedRequest({ ...request, created: new Date(), status: 'pending' });
+  }
+
+  // Drops the request, aborting it if it is being sent, and unmarks the reply it belonged to
+  async cancel(id: string): Promise<void> {
+    const request = await localBackend.getQueuedRequest(id);
+    this.inFlight.get(id)?.abort();
+    await localBackend.deleteQueuedRequest(id);
+    if (request) {
+      await this.updateConversation(request, null);
+    }
+  }
+
+  async retry(id: string): Promise<void> {
+    const request = await localBackend.getQueuedRequest(id);
+    if (!request) return;
+    await localBackend.putQueuedRequest({ ...request, status: 'pending', error: undefined });
+    await this.replay();
+  }
+
+  // Sends a request that is waiting on the budget, over the budget
+  async approveOverBudget(id: string): Promise<void> {
+    const request = await localBackend.getQueuedRequest(id);
+    if (!request) return;
+    await localBackend.putQueuedRequest({ ...request, status: 'pending', error: undefined, budget: undefined, budgetApproved: true });
+    await this.replay();
+  }
+
+  // Sends pending requests oldest first; stops early if the connection or the cloud goes away
+  replay(): Promise<void> {
+    if (!isLeader()) return Promise.resolve();
+    this.replaying ??= this.replayPending().finally(() => {
+      this.replaying = null;
+    });
+    return this.replaying;
+  }
+
+  private async replayPending() {
+    for (const { id } of await localBackend.getQueuedRequests()) {
+      // Re-read each one, since it may have been cancelled while earlier ones were sent
+      const request = await localBackend.getQueuedRequest(id);
+      if (!request || request.status === 'failed' || request.status === 'awaiting-confirmation') continue;
+      const cloud = cloudFallback.getStatus();
+      if (!connectivity.isOnline() || !cloud.isEnabled || !cloud.isConfigured || !cloud.isAvailable) return;
+
+      const controller = new AbortController();
+      this.inFlight.set(request.id, controller);
+      try {
+        await localBackend.putQueuedRequest({ ...request, status: 'sending' });
+        const { answer, sent } = await this.send(request, controller.signal);
+        // Another tab may have cancelled it while it was being sent
+        if (controller.signal.aborted || !(await localBackend.getQueuedRequest(request.id))) continue;
+        await localBackend.deleteQueuedRequest(request.id);
+        await this.updateConversation(request, { answer, sent });
+      } catch (error) {
+        // Cancelled: the request is already gone
+        if (controller.signal.aborted) continue;
+
+        const stillOffline = error instanceof LlmError && error.kind === 'network' && !(await connectivity.check());
+        if (stillOffline || error instanceof CloudUnavailableError) {
+          await localBackend.putQueuedRequest({ ...request, status: 'pending' });
+          return;
+        }
+        // Nobody may be looking when a replay runs, so the question waits in the
+        // conversation instead of a dialog
+        if (error instanceof BudgetExceededError && error.check.onExceed === 'confirm') {
+          await localBackend.putQueuedRequest({ ...request, status: 'awaiting-confirmation', error: error.message, budget: error.check });
+          continue;
+        }
+        console.warn('Queued cloud request failed:', error);
+        await localBackend.putQueuedRequest({
+          ...request,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        this.inFlight.delete(request.id);
+      }
+    }
+  }
+
+  private async abortCancelled() {
+    for (const [id, controller] of this.inFlight) {
+      if (!(await localBackend.getQueuedRequest(id))) controller.abort();
+    }
+  }
+
+  // Redacted now rather than when queued, so the current detectors and settings apply
+  private async send(request: QueuedCloudRequest, signal: AbortSignal) {
+    const redaction = new RedactionSession();
+    const sent = await redaction.redactMessages(request.messages, request.sensitivity);
+    const confirmOverBudget = async () => !!request.budgetApproved;
+    const stream = request.hybrid
+      ? cloudFallback.analyzeStream({ ...request.hybrid, messages: sent }, { signal, confirmOverBudget })
+      : cloudFallback.completeStream(sent, { signal, confirmOverBudget });
+
+    let answer = '';
+    for await (const token of redaction.restoreStream(stream)) {
+      answer += token;
+    }
+    return { answer, sent };
+  }
+
+  // Inserts the answer after the reply it belongs to, or just unmarks the reply when there is none
+  private async updateConversation(
+    request: QueuedCloudRequest,
+    result: { answer: string; sent: QueuedCloudRequest['messages'] } | null
+  ) {
+    const conversation = await localBackend.getConversation(request.conversationId);
+    if (!conversation) return;
+
+    const messages = conversation.messages.map(m => m.queuedId === request.id ? { ...m, queuedId: undefined } : m);
+    if (result) {
+      const replyIndex = messages.findIndex(m => m.id === request.replyId);
+      messages.splice(replyIndex === -1 ? messages.length : replyIndex + 1, 0, {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: result.answer,
+        timestamp: new Date(),
+        processingType: 'cloud',
+        sentPayload: result.sent,
+      });
+    }
+
+    await localBackend.saveConversation({ ...conversation, messages });
+    this.conversationListeners.forEach(listener => listener(request.conversationId));
+  }
+}
+
+export const offlineQueue = new OfflineQueue();
@@ -0,0 +1,140 @@
+// Passphrase-based encryption with WebCrypto: PBKDF2 derives an AES-GCM key from the
+// passphrase and a random salt, and each sealed value carries its own IV
+//
+// Deriving a key is deliberately slow, so a cipher derives once per salt and reuses it:
+// everything it seals shares one salt, and values sealed elsewhere with the same salt
+// open without another derivation.
+
+export const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const ENVELOPE_VERSION = 1;
+
+export class DecryptionError extends Error {
+  constructor(message = 'Could not decrypt; the passphrase may be wrong') {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+// AES-GCM output, base64 encoded
+export interface SealedValue {
+  iv: string;
+  data: string;
+}
+
+interface Envelope extends SealedValue {
+  v: number;
+  salt: string;
+}
+
+// JSON that keeps Dates, which stored records use for timestamps
+const DATE_TAG = '$date';
+
+function encodeJson(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, encoded) {
+    const raw = this[key];
+    return raw instanceof Date ? { [DATE_TAG]: raw.toISOString() } : encoded;
+  });
+}
+
+function decodeJson<T>(text: string): T {
+  return JSON.parse(text, (_, value) =>
+    value && typeof value === 'object' && typeof value[DATE_TAG] === 'string' && Object.keys(value).length === 1
+      ? new Date(value[DATE_TAG])
+      : value
+  );
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+export async function deriveKey(passphrase: string, salt: Uint8Array, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// A random key for data, so the passphrase protecting it can change without re-encrypting
+export async function generateDataKey(): Promise<{ key: CryptoKey; raw: Uint8Array }> {
+  const raw = randomBytes(32);
+  return { key: await importDataKey(raw), raw };
+}
+
+export function importDataKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+export async function encryptWithKey(key: CryptoKey, value: unknown): Promise<SealedValue> {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(encodeJson(value)));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+}
+
+export async function decryptWithKey<T>(key: CryptoKey, sealed: SealedValue): Promise<T> {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+  } catch {
+    // AES-GCM authenticates, so a wrong key or tampered data both fail here
+    throw new DecryptionError();
+  }
+  return decodeJson<T>(new TextDecoder().decode(plaintext));
+}
+
+export class PassphraseCipher {
+  private keys = new Map<string, Promise<CryptoKey>>();
+  private readonly salt = toBase64(randomBytes(SALT_BYTES));
+
+  constructor(private readonly passphrase: string) {}
+
+  async seal(value: unknown): Promise<string> {
+    const envelope: Envelope = {
+      v: ENVELOPE_VERSION,
+      salt: this.salt,
+      ...(await encryptWithKey(await this.key(this.salt), value)),
+    };
+    return JSON.stringify(envelope);
+  }
+
+  async open<T>(sealed: string): Promise<T> {
+    let envelope: Envelope;
+    try {
+      envelope = JSON.parse(sealed);
+    } catch {
+      throw new DecryptionError('Not an encrypted value');
+    }
+    if (envelope.v !== ENVELOPE_VERSION) throw new DecryptionError('Unsupported encryption format');
+    return decryptWithKey<T>(await this.key(envelope.salt), envelope);
+  }
+
+  private key(salt: string): Promise<CryptoKey> {
+    let key = this.keys.get(salt);
+    if (!key) {
+      key = deriveKey(this.passphrase, fromBase64(salt));
+      this.keys.set(salt, key);
+    }
+    return key;
+  }
+}
@@ -0,0 +1,238 @@
+// Local PII redaction for anything sent to a cloud model
+//
+// Detected values are swapped for numbered placeholders such as [EMAIL_1] before a request
+// leaves the device, and swapped back in the reply. Regex detectors are confirmed with
+// checksums where the format has one; "strict" adds an in-browser NER model for names.
+import type { TokenClassificationPipeline, TokenClassificationSingle } from '@huggingface/transformers';
+import type { LlmMessage } from './llm-providers';
+
+export type PiiType = 'email' | 'iban' | 'card' | 'ip' | 'phone' | 'name';
+
+export type PiiSensitivity = 'off' | 'standard' | 'strict';
+
+export const DEFAULT_PII_SENSITIVITY: PiiSensitivity = 'standard';
+
+export const PII_SENSITIVITY_LABELS: Record<PiiSensitivity, string> = {
+  off: 'Off',
+  standard: 'Standard',
+  strict: 'Strict (+ names)',
+};
+
+export interface PiiMatch {
+  type: PiiType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const NER_MODEL_ID = 'Xenova/bert-base-NER';
+
+// Token scores below this are too unsure to hide text over
+const NER_MIN_SCORE = 0.8;
+
+const SENSITIVITY_ORDER: PiiSensitivity[] = ['off', 'standard', 'strict'];
+
+const PLACEHOLDER = /\[(EMAIL|IBAN|CARD|IP|PHONE|NAME)_\d+\]/g;
+
+// Longest text that could still be the start of a placeholder
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+function passesLuhn(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616: move the country code and check digits to the end, then mod 97 must be 1
+function passesIbanChecksum(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// Earlier detectors win overlaps, so a card number is never also reported as a phone number
+const DETECTORS: Array<{ type: PiiType; pattern: RegExp; validate?: (value: string) => boolean }> = [
+  { type: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  { type: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, validate: passesIbanChecksum },
+  { type: 'card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: passesLuhn },
+  { type: 'ip', pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g },
+  {
+    type: 'phone',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ -]?)?(?:\(\d{1,4}\)[ -]?)?\d{2,4}(?:[ -]\d{2,4}){1,4}(?![\w-])/g,
+    // Plain numbers and dates look like phone numbers too, so require an international
+    // prefix, an area code in brackets, or at least two separated groups
+    validate: value => {
+      const digits = digitsOf(value).length;
+      if (digits < 7 || digits > 15 || /^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+      return value.startsWith('+') || value.includes('(') || (value.match(/[ -]/g) ?? []).length >= 2;
+    },
+  },
+];
+
+export function detectPii(text: string): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  for (const detector of DETECTORS) {
+    for (const match of text.matchAll(detector.pattern)) {
+      const value = match[0];
+      const start = match.index;
+      const end = start + value.length;
+      if (detector.validate && !detector.validate(value)) continue;
+      if (matches.some(m => start < m.end && m.start < end)) continue;
+      matches.push({ type: detector.type, value, start, end });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+// Distinct placeholders in a redacted text
+export const findPlaceholders = (text: string): string[] => [...new Set(text.match(PLACEHOLDER))];
+
+export function strictestSensitivity(...levels: Array<PiiSensitivity | undefined>): PiiSensitivity {
+  return levels.reduce<PiiSensitivity>(
+    (strictest, level) => SENSITIVITY_ORDER.indexOf(level ?? 'off') > SENSITIVITY_ORDER.indexOf(strictest) ? level! : strictest,
+    'off'
+  );
+}
+
+export const isPiiSensitivity = (value: unknown): value is PiiSensitivity =>
+  SENSITIVITY_ORDER.includes(value as PiiSensitivity);
+
+class NameRecognizer {
+  private loading: Promise<TokenClassificationPipeline | null> | null = null;
+
+  // Loaded the first time strict redaction runs; the browser cache keeps it afterwards
+  private load(): Promise<TokenClassificationPipeline | null> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const { pipeline } = await import('@huggingface/transformers');
+          const recognizer = await pipeline('token-classification', NER_MODEL_ID, { dtype: 'q8', device: 'wasm' });
+          return recognizer;
+        } catch (error) {
+          console.warn('⚠️ Name recognition model failed to load, redacting with patterns only:', error);
+          this.loading = null;
+          return null;
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  // The pipeline returns word pieces without offsets, so names are rebuilt from B-/I-PER
+  // tokens and located in the text afterwards
+  async findNames(text: string): Promise<string[]> {
+    const recognizer = await this.load();
+    if (!recognizer || !text.trim()) return [];
+
+    const tokens = (await recognizer(text)) as TokenClassificationSingle[];
+    const names: string[] = [];
+    let current = '';
+    for (const token of tokens) {
+      const isPerson = token.entity.endsWith('-PER') && token.score >= NER_MIN_SCORE;
+      if (!isPerson || (token.entity === 'B-PER' && !token.word.startsWith('##'))) {
+        if (current) names.push(current);
+        current = '';
+      }
+      if (!isPerson) continue;
+      current = token.word.startsWith('##') ? current + token.word.slice(2) : current ? `${current} ${token.word}` : token.word;
+    }
+    if (current) names.push(current);
+
+    return [...new Set(names.filter(name => name.length > 1))];
+  }
+}
+
+const nameRecognizer = new NameRecognizer();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// One session per request: the same value always maps to the same placeholder, and only
+// this session can put the originals back
+export class RedactionSession {
+  private placeholders = new Map<string, string>();
+  private originals = new Map<string, string>();
+  private counters: Partial<Record<PiiType, number>> = {};
+
+  get redactedCount(): number {
+    return this.originals.size;
+  }
+
+  private placeholderFor(type: PiiType, value: string): string {
+    let placeholder = this.placeholders.get(value);
+    if (!placeholder) {
+      const n = (this.counters[type] ?? 0) + 1;
+      this.counters[type] = n;
+      placeholder = `[${type.toUpperCase()}_${n}]`;
+      this.placeholders.set(value, placeholder);
+      this.originals.set(placeholder, value);
+    }
+    return placeholder;
+  }
+
+  async redact(text: string, sensitivity: PiiSensitivity): Promise<string> {
+    if (sensitivity === 'off') return text;
+
+    let redacted = '';
+    let position = 0;
+    for (const match of detectPii(text)) {
+      redacted += text.slice(position, match.start) + this.placeholderFor(match.type, match.value);
+      position = match.end;
+    }
+    redacted += text.slice(position);
+
+    if (sensitivity === 'strict') {
+      const names = await nameRecognizer.findNames(redacted);
+      for (const name of names.sort((a, b) => b.length - a.length)) {
+        const pattern = new RegExp(`(?<![\\w\\[])${escapeRegExp(name)}(?!\\w)`, 'g');
+        redacted = redacted.replace(pattern, value => this.placeholderFor('name', value));
+      }
+    }
+    return redacted;
+  }
+
+  async redactMessages(messages: LlmMessage[], sensitivity: PiiSensitivity): Promise<LlmMessage[]> {
+    return Promise.all(messages.map(async message => ({ ...message, content: await this.redact(message.content, sensitivity) })));
+  }
+
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER, placeholder => this.originals.get(placeholder) ?? placeholder);
+  }
+
+  // Holds back a trailing "[" fragment until it is clear whether a placeholder was split across chunks
+  async *restoreStream(stream: AsyncIterable<string>): AsyncIterable<string> {
+    let pending = '';
+    for await (const chunk of stream) {
+      pending += chunk;
+      const open = pending.lastIndexOf('[');
+      const cut = open >= 0 && !pending.includes(']', open) && pending.length - open < MAX_PLACEHOLDER_LENGTH
+        ? open
+        : pending.length;
+      if (cut > 0) {
+        yield this.restore(pending.slice(0, cut));
+        pending = pending.slice(cut);
+      }
+    }
+    if (pending) yield this.restore(pending);
+  }
+}
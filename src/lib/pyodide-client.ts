@@ -0,0 +1,117 @@
+// Main-thread side of the Pyodide worker RPC
+import type {
+  PyodideInitOptions,
+  PyodideProgress,
+  PyodideRequest,
+  PyodideResponse,
+} from './pyodide-protocol';
+
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type RequestPayload = WithoutId<PyodideRequest>;
+
+export class PyodideTerminatedError extends Error {
+  constructor() {
+    super('Python computation was cancelled');
+    this.name = 'PyodideTerminatedError';
+  }
+}
+
+class PyodideClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  private progressListeners = new Set<(progress: PyodideProgress) => void>();
+  private ready: Promise<void> | null = null;
+  private initOptions: PyodideInitOptions | null = null;
+
+  onProgress(listener: (progress: PyodideProgress) => void): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  // Loads the runtime once; later calls share the same startup
+  init(options: PyodideInitOptions): Promise<void> {
+    this.initOptions = options;
+    if (!this.ready) {
+      this.ready = this.request({ type: 'init', options }).then(() => undefined);
+      this.ready.catch(() => {
+        this.ready = null;
+      });
+    }
+    return this.ready;
+  }
+
+  async run(code: string, globals: Record<string, unknown> = {}): Promise<unknown> {
+    if (!this.ready) {
+      if (!this.initOptions) throw new Error('Pyodide is not initialized');
+      await this.init(this.initOptions);
+    } else {
+      await this.ready;
+    }
+    return this.request({ type: 'run', code, globals });
+  }
+
+  // Kills the worker and anything running in it; the next run starts a fresh one
+  terminate() {
+    if (!this.worker) return;
+
+    this.worker.terminate();
+    this.worker = null;
+    this.ready = null;
+
+    const error = new PyodideTerminatedError();
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+  }
+
+  isBusy(): boolean {
+    return this.pending.size > 0;
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/pyodide.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<PyodideResponse>) => this.handleResponse(event.data));
+      this.worker.addEventListener('error', (event) => {
+        const error = new Error(event.message || 'Pyodide worker crashed');
+        this.pending.forEach(({ reject }) => reject(error));
+        this.pending.clear();
+        this.worker?.terminate();
+        this.worker = null;
+        this.ready = null;
+      });
+    }
+    return this.worker;
+  }
+
+  private request(payload: RequestPayload): Promise<unknown> {
+    const id = this.nextId++;
+    const worker = this.getWorker();
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ ...payload, id } as PyodideRequest);
+    });
+  }
+
+  private handleResponse(response: PyodideResponse) {
+    if (response.type === 'progress') {
+      this.progressListeners.forEach(listener => listener(response.progress));
+      return;
+    }
+
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+
+    if (response.type === 'result') {
+      pending.resolve(response.result);
+    } else {
+      pending.reject(new Error(response.error));
+    }
+  }
+}
+
+export const pyodideClient = new PyodideClient();
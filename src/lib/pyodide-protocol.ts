@@ -0,0 +1,42 @@
+// Message protocol between LocalBackend and the Pyodide worker
+
+export interface PyodideInitOptions {
+  indexURL: string;
+  packages: string[];
+}
+
+export type PyodideRequest =
+  | { id: number; type: 'init'; options: PyodideInitOptions }
+  | { id: number; type: 'run'; code: string; globals: Record<string, unknown> };
+
+export interface PyodideProgress {
+  stage: 'runtime' | 'packages' | 'ready' | 'running';
+  message: string;
+  // 0-1 when the stage can tell how far along it is
+  progress?: number;
+}
+
+export type PyodideResponse =
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; error: string }
+  | { id: number; type: 'progress'; progress: PyodideProgress };
+
+// Converts numpy/pandas values into plain Python values that survive postMessage. Run once
+// when the worker starts; scripts/generate-parity-fixtures.ts converts pandas output with it too.
+export const RESULT_PRELUDE = `
+import math
+import numpy as np
+
+def _to_jsonable(value):
+    if isinstance(value, dict):
+        return {str(k): _to_jsonable(v) for k, v in value.items()}
+    if isinstance(value, (list, tuple)):
+        return [_to_jsonable(v) for v in value]
+    if isinstance(value, np.generic):
+        value = value.item()
+    if isinstance(value, float) and math.isnan(value):
+        return None
+    if value is None or isinstance(value, (str, int, float, bool)):
+        return value
+    return str(value)
+`;
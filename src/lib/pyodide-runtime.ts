@@ -0,0 +1,72 @@
+// Resolves where the Pyodide runtime and its wheels are loaded from
+import { isServiceWorkerSupported, postToServiceWorker, waitForController } from './service-worker';
+
+export type PyodideSource = 'bundled' | 'cached' | 'cdn';
+
+export interface PyodideRuntimeInfo {
+  requested: PyodideSource;
+  active: PyodideSource;
+  indexURL: string;
+  version: string;
+  status: 'loading' | 'ready' | 'failed';
+  // Why the active source differs from the requested one
+  fallbackReason?: string;
+}
+
+export const PYODIDE_VERSION = __PYODIDE_VERSION__;
+export const DEFAULT_PYODIDE_SOURCE: PyodideSource = 'bundled';
+
+export const PYODIDE_SOURCE_LABELS: Record<PyodideSource, string> = {
+  bundled: 'Bundled with the app',
+  cached: 'Cached by service worker',
+  cdn: 'CDN (requires network)',
+};
+
+const BUNDLED_URL = `${import.meta.env.BASE_URL}pyodide/`;
+const CACHED_URL = `${import.meta.env.BASE_URL}pyodide-cdn/v${PYODIDE_VERSION}/full/`;
+const CDN_URL = `https://cdn.jsdelivr.net/pyodide/v${PYODIDE_VERSION}/full/`;
+
+export function isPyodideSource(value: unknown): value is PyodideSource {
+  return value === 'bundled' || value === 'cached' || value === 'cdn';
+}
+
+// The dev server answers unknown paths with index.html, so check for real JSON
+async function hasBundledRuntime(): Promise<boolean> {
+  try {
+    const response = await fetch(`${BUNDLED_URL}pyodide-lock.json`, { cache: 'no-store' });
+    return response.ok && (response.headers.get('content-type') ?? '').includes('json');
+  } catch {
+    return false;
+  }
+}
+
+export async function resolvePyodideRuntime(requested: PyodideSource): Promise<PyodideRuntimeInfo> {
+  const info = (active: PyodideSource, indexURL: string, fallbackReason?: string): PyodideRuntimeInfo => ({
+    requested,
+    active,
+    indexURL,
+    version: PYODIDE_VERSION,
+    status: 'loading',
+    fallbackReason,
+  });
+
+  let fallbackReason: string | undefined;
+
+  if (requested === 'bundled') {
+    if (await hasBundledRuntime()) return info('bundled', BUNDLED_URL);
+    fallbackReason = 'No bundled runtime found in this build (run npm run pyodide:bundle)';
+  }
+
+  if (requested !== 'cdn') {
+    if (await waitForController()) return info('cached', CACHED_URL, fallbackReason);
+    fallbackReason = isServiceWorkerSupported()
+      ? 'Service worker is not controlling this page yet'
+      : 'Service workers are not supported in this browser';
+  }
+
+  return info('cdn', CDN_URL, fallbackReason);
+}
+
+export async function clearPyodideCache(): Promise<void> {
+  await postToServiceWorker({ type: 'CLEAR_PYODIDE_CACHE' });
+}
@@ -0,0 +1,115 @@
+// Service worker registration shared by features that rely on it
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+const updateListeners = new Set<() => void>();
+let waitingWorker: ServiceWorker | null = null;
+let reloadOnControllerChange = false;
+
+// How often a long-running tab checks for a newer deploy
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+// The query string changes with every build, so the browser sees each deploy as an update
+const SCRIPT_URL = `${import.meta.env.BASE_URL}sw.js?build=${encodeURIComponent(__BUILD_ID__)}&pyodide=${encodeURIComponent(__PYODIDE_VERSION__)}`;
+
+export type LaunchSource = 'cache' | 'network' | 'unknown';
+
+export function isServiceWorkerSupported(): boolean {
+  return 'serviceWorker' in navigator;
+}
+
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!registration) {
+    registration = isServiceWorkerSupported()
+      ? navigator.serviceWorker
+          .register(SCRIPT_URL, { scope: import.meta.env.BASE_URL })
+          .then(result => {
+            watchForUpdates(result);
+            return result;
+          })
+          .catch(error => {
+            console.warn('⚠️ Service worker registration failed:', error);
+            registration = null;
+            return null;
+          })
+      : Promise.resolve(null);
+  }
+  return registration;
+}
+
+// Resolves once this page is controlled, which happens right after the first activation
+export async function waitForController(timeoutMs = 10_000): Promise<boolean> {
+  if (!isServiceWorkerSupported()) return false;
+  if (navigator.serviceWorker.controller) return true;
+
+  if (!(await registerServiceWorker())) return false;
+
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(!!navigator.serviceWorker.controller), timeoutMs);
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      clearTimeout(timer);
+      resolve(true);
+    }, { once: true });
+  });
+}
+
+export async function postToServiceWorker(message: unknown): Promise<void> {
+  const controller = navigator.serviceWorker?.controller;
+  if (controller) {
+    controller.postMessage(message);
+  }
+}
+
+function watchForUpdates(result: ServiceWorkerRegistration) {
+  // Without a controller this is the first install, which activates straight away
+  const offerUpdate = (worker: ServiceWorker) => {
+    if (!navigator.serviceWorker.controller) return;
+    waitingWorker = worker;
+    updateListeners.forEach(listener => listener());
+  };
+
+  if (result.waiting) offerUpdate(result.waiting);
+  result.addEventListener('updatefound', () => {
+    const worker = result.installing;
+    worker?.addEventListener('statechange', () => {
+      if (worker.state === 'installed') offerUpdate(worker);
+    });
+  });
+
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloadOnControllerChange) window.location.reload();
+  });
+  setInterval(() => {
+    result.update().catch(error => console.warn('⚠️ Service worker update check failed:', error));
+  }, UPDATE_CHECK_MS);
+}
+
+// Called when a newer version of the app has been downloaded and is waiting to take over
+export function onUpdateAvailable(listener: () => void): () => void {
+  updateListeners.add(listener);
+  if (waitingWorker) listener();
+  return () => {
+    updateListeners.delete(listener);
+  };
+}
+
+// Activates the waiting version and reloads once it controls the page
+export function applyUpdate() {
+  if (!waitingWorker) return;
+  reloadOnControllerChange = true;
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+}
+
+// Whether the service worker answered this page load from the precached app shell
+export async function getLaunchSource(timeoutMs = 1_000): Promise<LaunchSource> {
+  const controller = isServiceWorkerSupported() ? navigator.serviceWorker.controller : null;
+  if (!controller) return 'network';
+
+  return new Promise(resolve => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => resolve('unknown'), timeoutMs);
+    channel.port1.onmessage = (event: MessageEvent<{ source: LaunchSource }>) => {
+      clearTimeout(timer);
+      resolve(event.data.source);
+    };
+    controller.postMessage({ type: 'GET_LAUNCH_SOURCE' }, [channel.port2]);
+  });
+}
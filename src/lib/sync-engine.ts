@@ -0,0 +1,232 @@
+// Keeps this device's operation log in step with other devices through a transport
+//
+// A sync pulls the batches the relay received since the last pull, applies them, then
+// pushes the local operations the relay has not been sent yet. Applying is idempotent and
+// the merge is deterministic, so syncing twice or in any order between devices is safe.
+// Only the leader tab syncs in the background; "Sync now" works from any tab.
+import { whenLeader } from './leader-election';
+import { localBackend } from './local-backend';
+import { mergeVectors, type VersionVector } from './sync-oplog';
+import {
+  FileTransport,
+  createRelayTransport,
+  type RelayTransportKind,
+  type SyncTransport,
+} from './sync-transports';
+
+export interface SyncSettings {
+  enabled: boolean;
+  transport: RelayTransportKind;
+  url: string;
+  token: string;
+  // Encrypts batches for the relay; every device syncing through it needs the same one
+  passphrase: string;
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: false,
+  transport: 'http',
+  url: '',
+  token: '',
+  passphrase: '',
+};
+
+export interface SyncStatus {
+  state: 'disabled' | 'idle' | 'syncing' | 'error';
+  lastSynced?: Date;
+  // Operations received in the last sync
+  received?: number;
+  error?: string;
+}
+
+// Where this device has got to with the relay: read position and what it has already pushed
+interface RelayState {
+  relay: string;
+  cursor: string | null;
+  sent: VersionVector;
+}
+
+const SYNC_SETTINGS_KEY = 'sync';
+const RELAY_STATE_KEY = 'syncRelayState';
+const SYNC_INTERVAL_MS = 60_000;
+// Local edits are pushed once typing has settled
+const PUSH_DELAY_MS = 2_000;
+// Keeps each batch well under the relay's request size limit
+const PUSH_BATCH_SIZE = 500;
+
+const vectorOf = (operations: { device: string; seq: number }[]): VersionVector =>
+  operations.reduce<VersionVector>((vector, op) => mergeVectors(vector, { [op.device]: op.seq }), {});
+
+class SyncEngine {
+  private settings: SyncSettings = { ...DEFAULT_SYNC_SETTINGS };
+  private transport: SyncTransport | null = null;
+  private status: SyncStatus = { state: 'disabled' };
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+  private syncing: Promise<void> | null = null;
+  private teardown: (() => void) | null = null;
+
+  async loadSettings() {
+    this.settings = { ...DEFAULT_SYNC_SETTINGS, ...(await localBackend.getSetting(SYNC_SETTINGS_KEY)) };
+    this.restart();
+  }
+
+  async saveSettings(settings: SyncSettings) {
+    await localBackend.setSetting(SYNC_SETTINGS_KEY, settings);
+    await this.loadSettings();
+  }
+
+  getSettings(): SyncSettings {
+    return { ...this.settings };
+  }
+
+  getStatus(): SyncStatus {
+    return { ...this.status };
+  }
+
+  onStatusChange(listener: (status: SyncStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  // Syncs with the configured relay; concurrent calls share one run
+  syncNow(): Promise<void> {
+    const transport = this.transport;
+    if (!transport) return Promise.reject(new Error('Sync is not set up'));
+
+    this.syncing ??= this.syncWithRelay(transport).finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  // Downloads every operation in the log, for carrying to a device by hand
+  async exportFile(): Promise<number> {
+    await localBackend.reconcileOperationLog();
+    const operations = await localBackend.getOperationsSince({});
+    const device = await localBackend.getSyncDevice();
+    await new FileTransport().push({ device: device.id, operations });
+    return operations.length;
+  }
+
+  // Merges an export from another device; returns how many operations were new
+  async importFile(file: File): Promise<number> {
+    // Edits made before sync was enabled have to be in the log to merge with the import
+    await localBackend.reconcileOperationLog();
+    const { batches } = await new FileTransport(file).pull();
+    let received = 0;
+    for (const batch of batches) {
+      received += await localBackend.applyOperations(batch.operations);
+    }
+    return received;
+  }
+
+  private restart() {
+    this.teardown?.();
+    this.teardown = null;
+    this.transport?.close?.();
+    this.transport = null;
+
+    const { enabled, transport, url, token, passphrase } = this.settings;
+    if (!enabled) {
+      localBackend.stopOperationLog();
+      this.setStatus({ state: 'disabled' });
+      return;
+    }
+
+    localBackend.startOperationLog();
+    // Nothing is sent to a relay unencrypted
+    if (url.trim() && passphrase) {
+      this.transport = createRelayTransport(transport, url.trim(), token, passphrase);
+    }
+    this.setStatus({ state: 'idle' });
+
+    let stopped = false;
+    this.teardown = () => {
+      stopped = true;
+    };
+    whenLeader().then(async () => {
+      if (stopped) return;
+      try {
+        await localBackend.reconcileOperationLog();
+      } catch (error) {
+        console.warn('⚠️ Failed to update the sync operation log:', error);
+      }
+      if (stopped || !this.transport) return;
+      this.teardown = this.runInBackground(this.transport);
+    });
+  }
+
+  // Periodic syncs, a push shortly after local edits, and an immediate pull when the relay
+  // announces changes
+  private runInBackground(transport: SyncTransport): () => void {
+    const sync = () => {
+      this.syncNow().catch(() => {});
+    };
+    let pushTimer: ReturnType<typeof setTimeout> | undefined;
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+    const unsubscribeEdits = localBackend.onChange(() => {
+      clearTimeout(pushTimer);
+      pushTimer = setTimeout(sync, PUSH_DELAY_MS);
+    }, ['operations-recorded']);
+    const unsubscribeRelay = transport.subscribe?.(sync);
+    sync();
+
+    return () => {
+      clearInterval(interval);
+      clearTimeout(pushTimer);
+      unsubscribeEdits();
+      unsubscribeRelay?.();
+    };
+  }
+
+  private async syncWithRelay(transport: SyncTransport) {
+    this.setStatus({ ...this.status, state: 'syncing', error: undefined });
+    try {
+      const device = await localBackend.getSyncDevice();
+      const stored: RelayState | null = await localBackend.getSetting(RELAY_STATE_KEY);
+      // A different relay starts from the beginning
+      const state: RelayState = stored?.relay === transport.label
+        ? stored
+        : { relay: transport.label, cursor: null, sent: {} };
+
+      let received = 0;
+      let { cursor, sent } = state;
+      let more = true;
+      while (more) {
+        const page = await transport.pull(cursor);
+        for (const batch of page.batches) {
+          if (batch.device === device.id) continue;
+          received += await localBackend.applyOperations(batch.operations);
+          // The relay already has these, so they are not pushed back
+          sent = mergeVectors(sent, vectorOf(batch.operations));
+        }
+        cursor = page.cursor ?? cursor;
+        more = !!page.more;
+      }
+
+      const outgoing = await localBackend.getOperationsSince(sent);
+      for (let offset = 0; offset < outgoing.length; offset += PUSH_BATCH_SIZE) {
+        const operations = outgoing.slice(offset, offset + PUSH_BATCH_SIZE);
+        await transport.push({ device: device.id, operations });
+        sent = mergeVectors(sent, vectorOf(operations));
+      }
+
+      await localBackend.setSetting(RELAY_STATE_KEY, { relay: transport.label, cursor, sent });
+      this.setStatus({ state: 'idle', lastSynced: new Date(), received });
+    } catch (error) {
+      console.warn('Sync failed:', error);
+      this.setStatus({ ...this.status, state: 'error', error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  private setStatus(status: SyncStatus) {
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(this.getStatus()));
+  }
+}
+
+export const syncEngine = new SyncEngine();
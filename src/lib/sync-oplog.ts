@@ -0,0 +1,181 @@
+// Append-only operation log behind device-to-device sync
+//
+// Each synced change is an operation stamped with the device that made it, a per-device
+// sequence number and a hybrid logical clock. The sequence numbers form a version vector,
+// which tells two devices which operations the other is missing. The clock orders
+// concurrent edits the same way everywhere, so any device that has seen the same
+// operations rebuilds exactly the same records from them.
+import type { ConversationMessage, ConversationRecord } from './local-backend';
+
+// Highest sequence number seen from each device
+export type VersionVector = Record<string, number>;
+
+export type SyncPayload =
+  | { kind: 'setting'; key: string; value: unknown }
+  // Title and creation time; the last title written wins
+  | { kind: 'conversation'; id: string; title: string; created: string }
+  // Messages are keyed by id, so concurrent replies from two devices are both kept
+  | { kind: 'message'; conversationId: string; message: ConversationMessage }
+  // A tombstone: once deleted on any device, the conversation stays deleted
+  | { kind: 'conversation-deleted'; id: string };
+
+export interface SyncOperation {
+  id: string;
+  device: string;
+  seq: number;
+  hlc: string;
+  // The record the operation changes, e.g. 'conversation:123' or 'setting:cloudEnabled'
+  record: string;
+  payload: SyncPayload;
+}
+
+// This device's identity and the last sequence number and clock value it handed out
+export interface SyncDevice {
+  id: string;
+  seq: number;
+  hlc: string;
+}
+
+// Settings that follow the user between devices. API keys, relay credentials and
+// machine-specific setup (local model server, Python runtime) never leave the device.
+export const SYNCED_SETTINGS = ['cloudEnabled', 'llmProvider', 'piiSensitivity', 'cloudBudget', 'trashRetentionDays'];
+
+export function isSyncedSetting(key: string): boolean {
+  return SYNCED_SETTINGS.includes(key);
+}
+
+export function recordOf(payload: SyncPayload): string {
+  switch (payload.kind) {
+    case 'setting':
+      return `setting:${payload.key}`;
+    case 'message':
+      return `conversation:${payload.conversationId}`;
+    default:
+      return `conversation:${payload.id}`;
+  }
+}
+
+// Fixed-width fields, so timestamps sort as plain strings: wall clock, counter, device
+function formatHlc(wall: number, counter: number, device: string): string {
+  return `${wall.toString().padStart(15, '0')}:${counter.toString().padStart(6, '0')}:${device}`;
+}
+
+export function hlcTime(hlc: string): Date {
+  return new Date(Number(hlc.slice(0, 15)));
+}
+
+// Hybrid logical clock: follows the wall clock, but never runs behind a timestamp it has
+// seen, so an edit made after receiving another device's edit always orders after it
+export class HybridClock {
+  private wall = 0;
+  private counter = 0;
+
+  constructor(private readonly device: string, last?: string) {
+    if (last) this.observe(last);
+  }
+
+  now(): string {
+    const physical = Date.now();
+    if (physical > this.wall) {
+      this.wall = physical;
+      this.counter = 0;
+    } else {
+      this.counter++;
+    }
+    return this.current();
+  }
+
+  observe(hlc: string) {
+    const wall = Number(hlc.slice(0, 15));
+    const counter = Number(hlc.slice(16, 22));
+    if (wall > this.wall || (wall === this.wall && counter > this.counter)) {
+      this.wall = wall;
+      this.counter = counter;
+    }
+  }
+
+  current(): string {
+    return formatHlc(this.wall, this.counter, this.device);
+  }
+}
+
+export function compareOperations(a: SyncOperation, b: SyncOperation): number {
+  if (a.hlc !== b.hlc) return a.hlc < b.hlc ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export function mergeVectors(a: VersionVector, b: VersionVector): VersionVector {
+  const merged = { ...a };
+  for (const [device, seq] of Object.entries(b)) {
+    merged[device] = Math.max(merged[device] ?? 0, seq);
+  }
+  return merged;
+}
+
+// Dates arrive as strings once an operation has been through JSON
+const reviveMessage = (message: ConversationMessage): ConversationMessage => ({
+  ...message,
+  timestamp: new Date(message.timestamp),
+});
+
+// Rebuilds a conversation from every operation on it; null once it has been deleted
+// or if no operation ever created it
+export function materializeConversation(operations: SyncOperation[]): ConversationRecord | null {
+  const ordered = [...operations].sort(compareOperations);
+  if (ordered.some(op => op.payload.kind === 'conversation-deleted')) return null;
+
+  let header: Extract<SyncPayload, { kind: 'conversation' }> | null = null;
+  const messages = new Map<string, ConversationMessage>();
+  for (const { payload } of ordered) {
+    if (payload.kind === 'conversation') {
+      header = { ...payload, created: header && header.created < payload.created ? header.created : payload.created };
+    } else if (payload.kind === 'message') {
+      messages.set(payload.message.id, reviveMessage(payload.message));
+    }
+  }
+  if (!header) return null;
+
+  return {
+    id: header.id,
+    title: header.title,
+    messages: [...messages.values()].sort((a, b) =>
+      a.timestamp.getTime() - b.timestamp.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    ),
+    created: new Date(header.created),
+    updated: hlcTime(ordered[ordered.length - 1].hlc),
+  };
+}
+
+// The value the last write set; undefined if the setting was never synced
+export function materializeSetting(operations: SyncOperation[]): unknown {
+  const last = [...operations].sort(compareOperations).pop();
+  return last?.payload.kind === 'setting' ? last.payload.value : undefined;
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Operations that turn `previous` (as the log knows it) into `current`
+export function diffConversation(previous: ConversationRecord | null, current: ConversationRecord): SyncPayload[] {
+  const payloads: SyncPayload[] = [];
+  if (!previous || previous.title !== current.title) {
+    payloads.push({
+      kind: 'conversation',
+      id: current.id,
+      title: current.title,
+      created: new Date(previous?.created ?? current.created).toISOString(),
+    });
+  }
+
+  const before = new Map((previous?.messages ?? []).map(m => [m.id, m]));
+  for (const message of current.messages) {
+    const old = before.get(message.id);
+    if (!old || !sameJson(old, message)) {
+      payloads.push({ kind: 'message', conversationId: current.id, message });
+    }
+  }
+  return payloads;
+}
+
+export function settingChanged(previous: unknown, current: unknown): boolean {
+  return !sameJson(previous, current);
+}
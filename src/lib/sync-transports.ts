@@ -0,0 +1,276 @@
+// Ways of moving operation log batches between devices
+//
+// A relay keeps an append-only list of the batches devices have pushed and hands them back
+// after a cursor. Batches are encrypted with the sync passphrase before they leave the
+// device, so the relay stores them without being able to read them. The same relay can be
+// reached over HTTP or a WebSocket, which also tells connected devices when something new
+// arrives. A file carries a batch by hand between devices that share no network.
+import { DecryptionError, PassphraseCipher } from './passphrase-crypto';
+import type { SyncOperation } from './sync-oplog';
+
+export interface SyncBatch {
+  device: string;
+  operations: SyncOperation[];
+}
+
+export interface PulledBatches {
+  batches: SyncBatch[];
+  // Where the next pull continues from; null if the transport has no notion of position
+  cursor: string | null;
+  // Set when the relay has more batches after `cursor`
+  more?: boolean;
+}
+
+// A batch as the relay stores it
+interface RelayRecord {
+  cursor: string;
+  data: string;
+}
+
+interface RelayPage {
+  batches: RelayRecord[];
+  cursor: string | null;
+  more?: boolean;
+}
+
+export interface SyncTransport {
+  readonly label: string;
+  pull(cursor: string | null): Promise<PulledBatches>;
+  push(batch: SyncBatch): Promise<void>;
+  // Told when another device pushed to the relay
+  subscribe?(onChange: () => void): () => void;
+  close?(): void;
+}
+
+export type RelayTransportKind = 'http' | 'websocket';
+
+export class SyncTransportError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'SyncTransportError';
+  }
+}
+
+const FILE_FORMAT = 'local-first-ai-sync';
+const FILE_VERSION = 1;
+const REQUEST_TIMEOUT_MS = 30_000;
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Seals batches on the way out and opens them on the way in
+abstract class RelayTransport implements SyncTransport {
+  readonly label: string;
+  private cipher: PassphraseCipher;
+
+  constructor(protected readonly url: string, protected readonly token: string, passphrase: string) {
+    this.label = trimSlash(url);
+    this.cipher = new PassphraseCipher(passphrase);
+  }
+
+  async pull(cursor: string | null): Promise<PulledBatches> {
+    const page = await this.pullPage(cursor);
+    const batches: SyncBatch[] = [];
+    for (const record of page.batches) {
+      try {
+        batches.push(await this.cipher.open<SyncBatch>(record.data));
+      } catch (error) {
+        if (error instanceof DecryptionError) {
+          throw new SyncTransportError('Could not decrypt changes from the relay; check the sync passphrase');
+        }
+        throw error;
+      }
+    }
+    return { batches, cursor: page.cursor, more: page.more };
+  }
+
+  async push(batch: SyncBatch): Promise<void> {
+    await this.pushData(await this.cipher.seal(batch));
+  }
+
+  protected abstract pullPage(cursor: string | null): Promise<RelayPage>;
+  protected abstract pushData(data: string): Promise<void>;
+}
+
+export class HttpRelayTransport extends RelayTransport {
+  protected pullPage(cursor: string | null): Promise<RelayPage> {
+    const query = cursor ? `?after=${encodeURIComponent(cursor)}` : '';
+    return this.request(`/batches${query}`, { method: 'GET' });
+  }
+
+  protected async pushData(data: string): Promise<void> {
+    await this.request('/batches', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data }),
+    });
+  }
+
+  private async request<T>(path: string, init: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${trimSlash(this.url)}${path}`, {
+        ...init,
+        headers: { ...init.headers, Authorization: `Bearer ${this.token}` },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new SyncTransportError(`Could not reach the sync relay: ${error instanceof Error ? error.message : error}`);
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new SyncTransportError('The sync relay rejected the access token', response.status);
+    }
+    if (!response.ok) {
+      throw new SyncTransportError(`The sync relay answered ${response.status} ${response.statusText}`, response.status);
+    }
+    return response.json();
+  }
+}
+
+type RelayReply =
+  | ({ id: string; type: 'batches' } & RelayPage)
+  | { id: string; type: 'ack' }
+  // Without an id the error is about the connection, such as a rejected token
+  | { id?: string; type: 'error'; message: string; status?: number }
+  | { type: 'changed' };
+
+// One connection, opened on first use and reopened by the next request after it drops
+export class WebSocketRelayTransport extends RelayTransport {
+  private socket: Promise<WebSocket> | null = null;
+  private pending = new Map<string, { resolve: (reply: RelayReply) => void; reject: (error: Error) => void }>();
+  private listeners = new Set<() => void>();
+
+  protected async pullPage(cursor: string | null): Promise<RelayPage> {
+    const reply = await this.request({ type: 'pull', after: cursor });
+    if (reply.type !== 'batches') throw new SyncTransportError('Unexpected reply from the sync relay');
+    return { batches: reply.batches, cursor: reply.cursor, more: reply.more };
+  }
+
+  protected async pushData(data: string): Promise<void> {
+    await this.request({ type: 'push', data });
+  }
+
+  subscribe(onChange: () => void): () => void {
+    this.listeners.add(onChange);
+    // Connect now so the relay can announce changes before the next sync
+    this.connect().catch(() => {});
+    return () => {
+      this.listeners.delete(onChange);
+    };
+  }
+
+  close() {
+    this.socket?.then(socket => socket.close()).catch(() => {});
+    this.socket = null;
+    this.listeners.clear();
+  }
+
+  private async request(message: Record<string, unknown>): Promise<RelayReply> {
+    const socket = await this.connect();
+    const id = crypto.randomUUID();
+    return new Promise<RelayReply>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new SyncTransportError('The sync relay did not answer in time'));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(id, {
+        resolve: reply => {
+          clearTimeout(timer);
+          if (reply.type === 'error') reject(new SyncTransportError(reply.message, reply.status));
+          else resolve(reply);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.send(JSON.stringify({ ...message, id }));
+    });
+  }
+
+  private connect(): Promise<WebSocket> {
+    this.socket ??= new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      socket.addEventListener('open', () => {
+        // The token goes in the first message, since browsers cannot set headers on a WebSocket
+        socket.send(JSON.stringify({ type: 'hello', token: this.token }));
+        resolve(socket);
+      });
+      socket.addEventListener('message', event => this.receive(event.data));
+      socket.addEventListener('close', () => {
+        this.socket = null;
+        const error = new SyncTransportError('The connection to the sync relay closed');
+        this.pending.forEach(({ reject }) => reject(error));
+        this.pending.clear();
+        reject(error);
+      });
+    });
+    return this.socket;
+  }
+
+  private receive(data: unknown) {
+    let reply: RelayReply;
+    try {
+      reply = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    if (reply.type === 'changed') {
+      this.listeners.forEach(listener => listener());
+    } else if (!reply.id) {
+      this.pending.forEach(({ resolve }) => resolve(reply));
+      this.pending.clear();
+    } else {
+      this.pending.get(reply.id)?.resolve(reply);
+      this.pending.delete(reply.id);
+    }
+  }
+}
+
+interface SyncFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  exported: string;
+  batch: SyncBatch;
+}
+
+// Pulling reads the chosen file; pushing downloads a new one
+export class FileTransport implements SyncTransport {
+  readonly label = 'file';
+
+  constructor(private readonly file: File | null = null) {}
+
+  async pull(): Promise<PulledBatches> {
+    if (!this.file) return { batches: [], cursor: null };
+
+    let parsed: Partial<SyncFile>;
+    try {
+      parsed = JSON.parse(await this.file.text());
+    } catch {
+      throw new SyncTransportError('The file is not a sync export');
+    }
+    if (parsed.format !== FILE_FORMAT || !parsed.batch || !Array.isArray(parsed.batch.operations)) {
+      throw new SyncTransportError('The file is not a sync export');
+    }
+    if ((parsed.version ?? 0) > FILE_VERSION) {
+      throw new SyncTransportError('The sync export was made by a newer version of the app');
+    }
+    return { batches: [parsed.batch], cursor: null };
+  }
+
+  async push(batch: SyncBatch): Promise<void> {
+    const contents: SyncFile = { format: FILE_FORMAT, version: FILE_VERSION, exported: new Date().toISOString(), batch };
+    const blob = new Blob([JSON.stringify(contents)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `local-first-sync-${batch.device}-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function createRelayTransport(kind: RelayTransportKind, url: string, token: string, passphrase: string): SyncTransport {
+  return kind === 'websocket'
+    ? new WebSocketRelayTransport(url, token, passphrase)
+    : new HttpRelayTransport(url, token, passphrase);
+}
@@ -0,0 +1,214 @@
+// Token pricing, spend tracking and budget caps for cloud requests
+//
+// Budgets are checked against a running ledger of this device's spend for the current day
+// and month. The audit log holds the same costs per request, but the user may purge it, and
+// that must not lift the caps. Prices are USD per million tokens as published by each provider.
+import { estimateTokens, type LlmMessage, type LlmProviderId } from './llm-providers';
+import { localBackend, type CloudAuditEntry } from './local-backend';
+
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// Keys are model-name prefixes; the longest match wins, so dated snapshots share a price
+const MODEL_PRICING: Record<LlmProviderId, Record<string, ModelPricing>> = {
+  openai: {
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'o3': { input: 2, output: 8 },
+    'o4-mini': { input: 1.1, output: 4.4 },
+  },
+  gemini: {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  },
+  anthropic: {
+    'claude-opus-4': { input: 15, output: 75 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+  },
+  // Self-hosted or third-party endpoints have no known price
+  'openai-compatible': {},
+};
+
+export interface BudgetSettings {
+  dailyUsd: number | null;
+  monthlyUsd: number | null;
+  onExceed: 'block' | 'confirm';
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  dailyUsd: null,
+  monthlyUsd: null,
+  onExceed: 'confirm',
+};
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+// Spend so far in the current day and month; periods are keyed by their start
+interface UsageLedger {
+  day: string;
+  dayUsd: number;
+  month: string;
+  monthUsd: number;
+}
+
+export interface PeriodSpend {
+  dailyUsd: number;
+  monthlyUsd: number;
+}
+
+// Device-local: each device pays for its own requests, so the ledger is not synced
+const LEDGER_KEY = 'usageLedger';
+const LEDGER_LOCK = 'local-first-ai-usage-ledger';
+
+// Set when a request would take spend past a budget
+export interface BudgetCheck {
+  period: 'daily' | 'monthly';
+  limitUsd: number;
+  spentUsd: number;
+  estimatedUsd: number;
+  onExceed: BudgetSettings['onExceed'];
+}
+
+export class BudgetExceededError extends Error {
+  constructor(readonly check: BudgetCheck) {
+    super(`${check.period === 'daily' ? 'Daily' : 'Monthly'} cloud budget of ${formatUsd(check.limitUsd)} reached (${formatUsd(check.spentUsd)} spent)`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export function formatUsd(amount: number): string {
+  return amount < 0.01 && amount > 0 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
+
+export function getModelPricing(provider: LlmProviderId, model: string): ModelPricing | null {
+  const prices = MODEL_PRICING[provider] ?? {};
+  const name = model.replace(/^models\//, '');
+  const key = Object.keys(prices)
+    .filter(prefix => name.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : null;
+}
+
+export function costOf(pricing: ModelPricing | null, inputTokens: number, outputTokens: number): number {
+  if (!pricing) return 0;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+// Entries written before pricing was tracked are costed with today's prices
+export function entryCost(entry: CloudAuditEntry): number {
+  return entry.costUsd ?? costOf(getModelPricing(entry.provider, entry.model), entry.inputTokens, entry.outputTokens);
+}
+
+export function startOfDay(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function startOfMonth(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+export function summarizeUsage(entries: CloudAuditEntry[], since?: Date): UsageTotals {
+  return entries
+    .filter(entry => !since || entry.timestamp >= since)
+    .reduce<UsageTotals>((totals, entry) => ({
+      requests: totals.requests + 1,
+      inputTokens: totals.inputTokens + entry.inputTokens,
+      outputTokens: totals.outputTokens + entry.outputTokens,
+      costUsd: totals.costUsd + entryCost(entry),
+    }), { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+}
+
+// Rolls the ledger over to the periods containing `now`, dropping totals of past periods
+function currentLedger(ledger: UsageLedger, now: Date): UsageLedger {
+  const day = startOfDay(now).toISOString();
+  const month = startOfMonth(now).toISOString();
+  return {
+    day,
+    dayUsd: ledger.day === day ? ledger.dayUsd : 0,
+    month,
+    monthUsd: ledger.month === month ? ledger.monthUsd : 0,
+  };
+}
+
+// The first read after an upgrade starts the ledger from whatever the audit log still holds
+async function loadLedger(now: Date): Promise<UsageLedger> {
+  const stored: UsageLedger | null = await localBackend.getSetting(LEDGER_KEY);
+  if (stored) return currentLedger(stored, now);
+
+  const entries = await localBackend.getAuditLog();
+  const ledger = {
+    day: startOfDay(now).toISOString(),
+    dayUsd: summarizeUsage(entries, startOfDay(now)).costUsd,
+    month: startOfMonth(now).toISOString(),
+    monthUsd: summarizeUsage(entries, startOfMonth(now)).costUsd,
+  };
+  await localBackend.setSetting(LEDGER_KEY, ledger);
+  return ledger;
+}
+
+export async function getPeriodSpend(now = new Date()): Promise<PeriodSpend> {
+  const ledger = await loadLedger(now);
+  return { dailyUsd: ledger.dayUsd, monthlyUsd: ledger.monthUsd };
+}
+
+// Adds a request's cost to the ledger. Tabs take turns through a Web Lock so concurrent
+// requests don't overwrite each other's totals.
+export async function recordSpend(costUsd: number, now = new Date()): Promise<void> {
+  const update = async () => {
+    const ledger = await loadLedger(now);
+    await localBackend.setSetting(LEDGER_KEY, {
+      ...ledger,
+      dayUsd: ledger.dayUsd + costUsd,
+      monthUsd: ledger.monthUsd + costUsd,
+    });
+  };
+  await (navigator.locks ? navigator.locks.request(LEDGER_LOCK, update) : update());
+}
+
+export async function getBudgetSettings(): Promise<BudgetSettings> {
+  return { ...DEFAULT_BUDGET_SETTINGS, ...(await localBackend.getSetting('cloudBudget')) };
+}
+
+// Estimated before sending: the prompt as counted locally plus the full reply allowance,
+// so a request can't overshoot a budget by more than its own estimate
+export function estimateRequest(provider: LlmProviderId, model: string, messages: LlmMessage[], maxOutputTokens: number) {
+  const inputTokens = estimateTokens(messages.map(m => m.content).join('\n'));
+  return {
+    inputTokens,
+    outputTokens: maxOutputTokens,
+    costUsd: costOf(getModelPricing(provider, model), inputTokens, maxOutputTokens),
+  };
+}
+
+export async function checkBudget(estimatedUsd: number): Promise<BudgetCheck | null> {
+  const settings = await getBudgetSettings();
+  if (settings.dailyUsd === null && settings.monthlyUsd === null) return null;
+
+  const spend = await getPeriodSpend();
+  const limits: Array<{ period: BudgetCheck['period']; limitUsd: number | null; spentUsd: number }> = [
+    { period: 'daily', limitUsd: settings.dailyUsd, spentUsd: spend.dailyUsd },
+    { period: 'monthly', limitUsd: settings.monthlyUsd, spentUsd: spend.monthlyUsd },
+  ];
+
+  for (const { period, limitUsd, spentUsd } of limits) {
+    if (limitUsd === null) continue;
+    if (spentUsd + estimatedUsd > limitUsd) {
+      return { period, limitUsd, spentUsd, estimatedUsd, onExceed: settings.onExceed };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,181 @@
+// Optional passphrase encryption for everything LocalBackend stores
+//
+// Records are encrypted with a random data key. The passphrase only protects that key: it
+// derives a PBKDF2 key that wraps the data key, so changing the passphrase rewraps one value
+// instead of re-encrypting the database. The data key lives in memory while unlocked and is
+// never stored unwrapped.
+//
+// An encrypted record keeps its key and index fields in the clear, so lookups and ordering
+// still work, and carries everything else in `sealed`.
+import {
+  DecryptionError,
+  PBKDF2_ITERATIONS,
+  decryptWithKey,
+  deriveKey,
+  encryptWithKey,
+  fromBase64,
+  generateDataKey,
+  importDataKey,
+  randomBytes,
+  toBase64,
+  type SealedValue,
+} from './passphrase-crypto';
+
+// Stored in the clear in the settings store, since it is needed to unlock
+export interface EncryptionMeta {
+  version: 1;
+  salt: string;
+  iterations: number;
+  // The data key, encrypted with the passphrase-derived key
+  wrappedKey: SealedValue;
+  // Lock again after this long without interaction; 0 turns auto-lock off
+  autoLockMinutes: number;
+}
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Local data is locked; unlock it with your passphrase');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Incorrect passphrase');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+type Sealed = { sealed: SealedValue };
+
+const isSealed = (value: unknown): value is Sealed =>
+  !!value && typeof value === 'object' && 'sealed' in value;
+
+async function wrapKey(raw: Uint8Array, passphrase: string, salt: Uint8Array, iterations: number) {
+  return encryptWithKey(await deriveKey(passphrase, salt, iterations), toBase64(raw));
+}
+
+async function unwrapKey(meta: EncryptionMeta, passphrase: string): Promise<Uint8Array> {
+  try {
+    const kek = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+    return fromBase64(await decryptWithKey<string>(kek, meta.wrappedKey));
+  } catch (error) {
+    if (error instanceof DecryptionError) throw new WrongPassphraseError();
+    throw error;
+  }
+}
+
+export class Vault {
+  private meta: EncryptionMeta | null = null;
+  private key: CryptoKey | null = null;
+
+  // Called with the stored metadata when the database opens; null when encryption is off
+  configure(meta: EncryptionMeta | null) {
+    this.meta = meta;
+    this.key = null;
+  }
+
+  getMeta(): EncryptionMeta | null {
+    return this.meta;
+  }
+
+  isEnabled(): boolean {
+    return !!this.meta;
+  }
+
+  isLocked(): boolean {
+    return !!this.meta && !this.key;
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    if (!this.meta) return;
+    this.key = await importDataKey(await unwrapKey(this.meta, passphrase));
+  }
+
+  lock() {
+    this.key = null;
+  }
+
+  // Generates a data key and unlocks with it; the caller stores the metadata
+  async create(passphrase: string, autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES): Promise<EncryptionMeta> {
+    const salt = randomBytes(16);
+    const { key, raw } = await generateDataKey();
+    const meta: EncryptionMeta = {
+      version: 1,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      wrappedKey: await wrapKey(raw, passphrase, salt, PBKDF2_ITERATIONS),
+      autoLockMinutes,
+    };
+    this.meta = meta;
+    this.key = key;
+    return meta;
+  }
+
+  // Checks the current passphrase, then wraps the same data key with the new one
+  async rewrap(current: string, next: string): Promise<EncryptionMeta> {
+    if (!this.meta) throw new Error('Encryption is not enabled');
+    const raw = await unwrapKey(this.meta, current);
+    const salt = randomBytes(16);
+    this.meta = {
+      ...this.meta,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      wrappedKey: await wrapKey(raw, next, salt, PBKDF2_ITERATIONS),
+    };
+    return this.meta;
+  }
+
+  async verify(passphrase: string): Promise<void> {
+    if (this.meta) await unwrapKey(this.meta, passphrase);
+  }
+
+  setAutoLockMinutes(minutes: number): EncryptionMeta | null {
+    if (this.meta) this.meta = { ...this.meta, autoLockMinutes: minutes };
+    return this.meta;
+  }
+
+  // While decrypting everything: new writes are stored in the clear, but sealed records
+  // can still be opened
+  stopSealing() {
+    this.meta = null;
+  }
+
+  // Forgets the key and metadata once everything has been decrypted
+  disable() {
+    this.meta = null;
+    this.key = null;
+  }
+
+  // Returns the record as it should be stored. Typed as the record itself, because
+  // IndexedDB only ever sees it and open() turns it back.
+  async seal<T extends object>(record: T, keep: readonly (keyof T)[]): Promise<T> {
+    if (!this.meta) return record;
+    if (!this.key) throw new VaultLockedError();
+
+    const clear: Partial<T> = {};
+    const secret: Partial<T> = { ...record };
+    for (const field of keep) {
+      clear[field] = record[field];
+      delete secret[field];
+    }
+    return { ...clear, sealed: await encryptWithKey(this.key, secret) } as unknown as T;
+  }
+
+  // Records written before encryption was turned on are returned as they are
+  async open<T>(stored: T): Promise<T>;
+  async open<T>(stored: T | undefined): Promise<T | undefined>;
+  async open<T>(stored: T | undefined): Promise<T | undefined> {
+    if (!isSealed(stored)) return stored;
+    if (!this.key) throw new VaultLockedError();
+
+    const { sealed, ...clear } = stored;
+    return { ...(await decryptWithKey<object>(this.key, sealed)), ...clear } as T;
+  }
+
+  async openAll<T>(stored: T[]): Promise<T[]> {
+    return Promise.all(stored.map(record => this.open(record)));
+  }
+}
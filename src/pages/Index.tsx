@@ -2,29 +2,115 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Cpu, Database, Settings, MessageSquare, Zap } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Cpu, Database, Settings, MessageSquare, Zap, AlertTriangle, Download, RotateCcw, ShieldCheck, RefreshCw, MonitorDown } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
+import { SidebarProvider } from "@/components/ui/sidebar";
 import { ChatInterface } from "@/components/ChatInterface";
+import { ConversationSidebar } from "@/components/ConversationSidebar";
 import { DataUpload } from "@/components/DataUpload";
 import { SettingsPanel } from "@/components/SettingsPanel";
+import { NetworkAudit } from "@/components/NetworkAudit";
+import { UsageDashboard } from "@/components/UsageDashboard";
 import { ProcessingStatus } from "@/components/ProcessingStatus";
+import { CloudCircuitStatus } from "@/components/CloudCircuitStatus";
+import { SyncPanel } from "@/components/SyncPanel";
+import { EncryptionPanel } from "@/components/EncryptionPanel";
+import { UnlockScreen } from "@/components/UnlockScreen";
 import { localBackend } from "@/lib/local-backend";
+import { cloudFallback } from "@/lib/cloud-fallback";
+import { localModel } from "@/lib/local-model";
+import { connectivity } from "@/lib/connectivity";
+import { offlineQueue } from "@/lib/offline-queue";
+import { syncEngine } from "@/lib/sync-engine";
+import { intentClassifier } from "@/lib/intent-classifier";
+import { exportMigrationBackup, getMigrationBackup, type MigrationProgress } from "@/lib/migrations";
+import { applyUpdate, getLaunchSource, onUpdateAvailable, registerServiceWorker } from "@/lib/service-worker";
 import { useToast } from "@/hooks/use-toast";
+import { useInstallPrompt } from "@/hooks/use-install-prompt";
+import { useAutoLock } from "@/hooks/use-auto-lock";
 
 const Index = () => {
   const [isInitializing, setIsInitializing] = useState(true);
+  const [isLocked, setIsLocked] = useState(false);
   const [activeTab, setActiveTab] = useState("chat");
+  const [migration, setMigration] = useState<MigrationProgress | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversationsVersion, setConversationsVersion] = useState(0);
+  const [isOnline, setIsOnline] = useState(true);
+  const [updateReady, setUpdateReady] = useState(false);
+  const { canInstall, install } = useInstallPrompt();
   const { toast } = useToast();
+  useAutoLock(!isInitializing && !isLocked);
 
+  const migrationWarning = migration?.warning;
   useEffect(() => {
+    if (!migrationWarning) return;
+    toast({ title: "Upgraded without a backup", description: migrationWarning, variant: "destructive" });
+  }, [migrationWarning, toast]);
+
+  useEffect(() => {
+    const unsubscribe = localBackend.onMigrationProgress(setMigration);
+    const unsubscribeConnectivity = connectivity.onChange(setIsOnline);
+    // Keep this tab in step with conversations and settings changed in other tabs
+    const unsubscribeChanges = localBackend.onChange((event, remote) => {
+      if (!remote) return;
+      if (event.type === 'encryption-changed') {
+        // This tab's key and metadata are out of date; start over from what is stored
+        window.location.reload();
+      } else if (event.type === 'setting-changed') {
+        Promise.all([
+          cloudFallback.loadSettings(),
+          localModel.loadSettings(),
+          event.key === 'sync' ? syncEngine.loadSettings() : null,
+        ]).catch(error => console.error('Failed to reload settings:', error));
+      } else {
+        setConversationsVersion(v => v + 1);
+        if (event.type === 'conversation-removed') {
+          setConversationId(current => current === event.id ? null : current);
+        }
+      }
+    }, ['setting-changed', 'conversation-updated', 'conversation-removed', 'encryption-changed']);
+    // Reloading is the surest way to drop everything decrypted that this tab holds in memory
+    const unsubscribeLock = localBackend.onLock(() => window.location.reload());
+    const unsubscribeUpdates = onUpdateAvailable(() => {
+      setUpdateReady(true);
+      toast({
+        title: "Update available",
+        description: "A new version has been downloaded. Reload to start using it.",
+        action: <ToastAction altText="Reload to update" onClick={applyUpdate}>Reload</ToastAction>,
+      });
+    });
     initializeApp();
+    return () => {
+      unsubscribe();
+      unsubscribeConnectivity();
+      unsubscribeChanges();
+      unsubscribeLock();
+      unsubscribeUpdates();
+    };
   }, []);
 
   const initializeApp = async () => {
+    setIsInitializing(true);
     try {
+      // The service worker precaches the built app, so only production builds install it up front
+      if (import.meta.env.PROD) {
+        await registerServiceWorker();
+      }
+      const launchSource = await getLaunchSource();
       await localBackend.initialize();
+      // Nothing else can read local data until the passphrase is entered
+      if (localBackend.isLocked()) {
+        setIsLocked(true);
+        return;
+      }
+      await startServices();
       toast({
         title: "🚀 App Ready",
-        description: "Local backend initialized successfully!",
+        description: launchSource === 'cache'
+          ? `Started from the offline cache${navigator.onLine ? '' : ' without a network connection'}.`
+          : "Local backend initialized successfully!",
       });
     } catch (error) {
       console.error('Failed to initialize app:', error);
@@ -38,7 +124,120 @@ const Index = () => {
     }
   };
 
+  const startServices = async () => {
+    await Promise.all([cloudFallback.loadSettings(), localModel.loadSettings()]);
+    // Questions queued while offline are sent as soon as the connection is confirmed
+    offlineQueue.start();
+    connectivity.start();
+    await syncEngine.loadSettings();
+    // Fetch the intent model in the background; routing uses rules until it is ready
+    intentClassifier.load();
+  };
+
+  const handleUnlocked = async () => {
+    setIsLocked(false);
+    setIsInitializing(true);
+    try {
+      await startServices();
+    } catch (error) {
+      console.error('Failed to start after unlocking:', error);
+      toast({
+        title: "Initialization Warning",
+        description: "Some features may be limited. App will work with basic functionality.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsInitializing(false);
+    }
+  };
+
+  const downloadBackup = async (backupId: string) => {
+    try {
+      const backup = await getMigrationBackup(backupId);
+      if (!backup) throw new Error('Backup not found');
+
+      const blob = await exportMigrationBackup(backup);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `local-first-backup-v${backup.fromVersion}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Backup unavailable",
+        description: error instanceof Error ? error.message : "Failed to read backup.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!isInitializing && migration?.phase === 'error') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-background/50">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Database Upgrade Failed
+            </CardTitle>
+            <CardDescription>
+              Your local data could not be upgraded from version {migration.fromVersion} to {migration.toVersion}. Nothing has been changed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="bg-muted rounded-lg p-3 text-sm font-mono break-words">
+              {migration.error}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="local" className="flex-1" onClick={initializeApp}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Retry
+              </Button>
+              {migration.backupId && (
+                <Button variant="outline" onClick={() => downloadBackup(migration.backupId)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Backup
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (migration?.phase === 'superseded') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-background/50">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Database Upgraded in Another Tab
+            </CardTitle>
+            <CardDescription>
+              A newer version of this app upgraded your local data in another tab. Reload this tab to keep working.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="local" className="w-full" onClick={() => window.location.reload()}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Reload
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLocked) {
+    return <UnlockScreen onUnlocked={handleUnlocked} />;
+  }
+
   if (isInitializing) {
+    const isMigrating = migration && (migration.phase === 'backup' || migration.phase === 'migrating');
+
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-background/50">
         <Card className="w-full max-w-md">
@@ -50,6 +249,19 @@ const Index = () => {
             <p className="text-muted-foreground text-center mb-4">
               Setting up your local-first environment...
             </p>
+            {isMigrating && (
+              <div className="w-full space-y-2 mb-4">
+                <Progress value={(migration.completedSteps / Math.max(migration.totalSteps, 1)) * 100} />
+                <p className="text-xs text-muted-foreground text-center">
+                  {migration.phase === 'backup'
+                    ? 'Backing up your data before upgrading...'
+                    : `Upgrading database to v${migration.currentStep?.version}: ${migration.currentStep?.description}`}
+                </p>
+              </div>
+            )}
+            {migration?.error && migration.phase !== 'error' && (
+              <p className="text-xs text-muted-foreground text-center mb-4">{migration.error}</p>
+            )}
             <ProcessingStatus type="local" isProcessing />
           </CardContent>
         </Card>
@@ -74,7 +286,21 @@ const Index = () => {
             </div>
             
             <div className="flex items-center gap-4">
+              <CloudCircuitStatus />
+              {!isOnline && <ProcessingStatus type="offline" />}
               <ProcessingStatus type="local" />
+              {updateReady && (
+                <Button size="sm" onClick={applyUpdate}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Reload to update
+                </Button>
+              )}
+              {canInstall && (
+                <Button variant="outline" size="sm" onClick={install}>
+                  <MonitorDown className="h-4 w-4 mr-2" />
+                  Install app
+                </Button>
+              )}
               <Button variant="outline" size="sm" onClick={() => setActiveTab("settings")}>
                 <Settings className="h-4 w-4 mr-2" />
                 Settings
@@ -87,7 +313,7 @@ const Index = () => {
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3 mb-8">
+          <TabsList className="grid w-full grid-cols-4 mb-8">
             <TabsTrigger value="chat" className="flex items-center gap-2">
               <MessageSquare className="h-4 w-4" />
               Chat
@@ -96,6 +322,10 @@ const Index = () => {
               <Database className="h-4 w-4" />
               Data
             </TabsTrigger>
+            <TabsTrigger value="audit" className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4" />
+              Network Audit
+            </TabsTrigger>
             <TabsTrigger value="settings" className="flex items-center gap-2">
               <Settings className="h-4 w-4" />
               Settings
@@ -106,7 +336,20 @@ const Index = () => {
           <TabsContent value="chat" className="space-y-6">
             <div className="grid gap-6 lg:grid-cols-3">
               <div className="lg:col-span-2">
-                <ChatInterface />
+                <SidebarProvider className="min-h-0 gap-4">
+                  <ConversationSidebar
+                    activeId={conversationId}
+                    onSelect={setConversationId}
+                    refreshKey={conversationsVersion}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <ChatInterface
+                      conversationId={conversationId}
+                      onConversationChange={setConversationId}
+                      onConversationSaved={() => setConversationsVersion(v => v + 1)}
+                    />
+                  </div>
+                </SidebarProvider>
               </div>
               
               <div className="space-y-4">
@@ -131,7 +374,7 @@ const Index = () => {
                       </div>
                       <div>
                         <div className="font-medium">Cloud Fallback</div>
-                        <div className="text-muted-foreground">Complex queries can optionally use GPT when enabled in settings</div>
+                        <div className="text-muted-foreground">Complex queries can optionally use a cloud model when enabled in settings</div>
                       </div>
                     </div>
                     
@@ -173,10 +416,18 @@ const Index = () => {
             <DataUpload />
           </TabsContent>
 
+          {/* Network Audit Tab */}
+          <TabsContent value="audit" className="space-y-6">
+            <UsageDashboard />
+            <NetworkAudit />
+          </TabsContent>
+
           {/* Settings Tab */}
           <TabsContent value="settings" className="space-y-6">
-            <div className="flex justify-center">
+            <div className="flex flex-col items-center gap-6">
               <SettingsPanel />
+              <EncryptionPanel />
+              <SyncPanel />
             </div>
           </TabsContent>
         </Tabs>
@@ -1 +1,5 @@
 /// <reference types="vite/client" />
+
+declare const __PYODIDE_VERSION__: string;
+// Changes with every production build; versions the service worker and its app-shell cache
+declare const __BUILD_ID__: string;
@@ -0,0 +1,81 @@
+// Runs Pyodide off the main thread so loading and analysis never block the UI
+import { loadPyodide, type PyodideAPI } from 'pyodide';
+import { RESULT_PRELUDE, type PyodideProgress, type PyodideRequest, type PyodideResponse } from '../lib/pyodide-protocol';
+
+let pyodide: PyodideAPI | null = null;
+
+const post = (response: PyodideResponse) => {
+  self.postMessage(response);
+};
+
+const reportProgress = (id: number, progress: PyodideProgress) => {
+  post({ id, type: 'progress', progress });
+};
+
+async function handleInit(id: number, request: Extract<PyodideRequest, { type: 'init' }>) {
+  if (pyodide) return;
+
+  const { indexURL, packages } = request.options;
+
+  reportProgress(id, { stage: 'runtime', message: 'Loading Python runtime', progress: 0 });
+  const instance = await loadPyodide({ indexURL });
+
+  let loaded = 0;
+  reportProgress(id, { stage: 'packages', message: `Loading ${packages.join(', ')}`, progress: 0.3 });
+  await instance.loadPackage(packages, {
+    messageCallback: (message: string) => {
+      if (message.startsWith('Loaded')) loaded++;
+      reportProgress(id, {
+        stage: 'packages',
+        message,
+        progress: 0.3 + 0.7 * Math.min(loaded / Math.max(packages.length, 1), 1),
+      });
+    },
+  });
+
+  instance.runPython(RESULT_PRELUDE);
+  pyodide = instance;
+  reportProgress(id, { stage: 'ready', message: 'Python runtime ready', progress: 1 });
+}
+
+async function handleRun(id: number, request: Extract<PyodideRequest, { type: 'run' }>) {
+  if (!pyodide) throw new Error('Pyodide is not initialized');
+
+  reportProgress(id, { stage: 'running', message: 'Running analysis' });
+
+  // Each run gets a namespace of its own, so nothing an analysis defines (such as df)
+  // outlives it or is visible to the next one
+  const namespace = pyodide.toPy(request.globals);
+  const convert = pyodide.globals.get('_to_jsonable');
+  let raw;
+  let jsonable;
+  try {
+    raw = await pyodide.runPythonAsync(request.code, { globals: namespace });
+    jsonable = convert(raw);
+    return jsonable?.toJs ? jsonable.toJs({ dict_converter: Object.fromEntries }) : jsonable;
+  } finally {
+    raw?.destroy?.();
+    jsonable?.destroy?.();
+    convert.destroy();
+    namespace.clear();
+    namespace.destroy();
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<PyodideRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'init':
+        await handleInit(request.id, request);
+        post({ id: request.id, type: 'result', result: null });
+        break;
+      case 'run':
+        post({ id: request.id, type: 'result', result: await handleRun(request.id, request) });
+        break;
+    }
+  } catch (error) {
+    post({ id: request.id, type: 'error', error: error instanceof Error ? error.message : String(error) });
+  }
+});
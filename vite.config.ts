@@ -1,8 +1,40 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { readFileSync } from "fs";
 import { componentTagger } from "lovable-tagger";
 
+const pyodideVersion = JSON.parse(
+  readFileSync(path.resolve(__dirname, "node_modules/pyodide/package.json"), "utf8")
+).version;
+
+// Names this build's app-shell cache in the service worker, so a deploy is picked up as an update
+const buildId = Date.now().toString(36);
+
+// Files from public/ that belong to the app shell; the Pyodide bundle is cached at runtime instead
+const PUBLIC_SHELL_FILES = ["manifest.webmanifest", "icon.svg", "favicon.ico"];
+
+// Writes precache-manifest.json, the list of files public/sw.js caches when it installs.
+// WebAssembly is left out because it is large and only needed by optional features.
+function precacheManifest(): Plugin {
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_, bundle) {
+      const files = new Set(["index.html", ...PUBLIC_SHELL_FILES]);
+      for (const fileName of Object.keys(bundle)) {
+        if (!fileName.endsWith(".wasm") && !fileName.endsWith(".map")) files.add(fileName);
+      }
+      this.emitFile({
+        type: "asset",
+        fileName: "precache-manifest.json",
+        source: JSON.stringify({ build: buildId, files: [...files] }, null, 2),
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -13,7 +45,16 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    precacheManifest(),
   ].filter(Boolean),
+  define: {
+    __PYODIDE_VERSION__: JSON.stringify(pyodideVersion),
+    __BUILD_ID__: JSON.stringify(buildId),
+  },
+  // Pyodide is loaded inside a module worker, which needs ES output to code-split
+  worker: {
+    format: "es",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),